@@ -10,6 +10,7 @@ import { ServerWalletService } from './server-wallets/service';
 import { OrderClient, type OrderClientConfig } from './orders/client';
 import { WebSocketClient } from './websocket/client';
 import type { WebSocketConfig } from './types/websocket';
+import type { OrderSigningBackend } from './types/signing';
 import { NoOpLogger } from './types/logger';
 
 /**
@@ -64,9 +65,12 @@ export class Client {
 
   /**
    * Creates a regular EIP-712 order client reusing the shared transport and market cache.
+   *
+   * @remarks
+   * Accepts a private key, an `ethers.Wallet`/`ethers.Signer`, or any `OrderSigningBackend`.
    */
   newOrderClient(
-    walletOrPrivateKey: ethers.Wallet | string,
+    walletOrPrivateKey: ethers.Signer | OrderSigningBackend | string,
     config: Omit<OrderClientConfig, 'httpClient' | 'wallet'> = {},
   ): OrderClient {
     const wallet =
@@ -0,0 +1,337 @@
+/**
+ * Shared lifecycle for client-side execution algorithms.
+ * @module execution/algorithm
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import type { OrderClient } from '../orders/client';
+import { OrderValidationError } from '../orders/validator';
+import type {
+  ExecutionClock,
+  ExecutionEvents,
+  ExecutionOrderParams,
+  ExecutionProgress,
+  ExecutionResult,
+  ExecutionStatus,
+  ExecutionStrategy,
+  ExecutionTimer,
+} from '../types/execution';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+import type { OrderResponse, OrderType } from '../types/orders';
+import { systemClock } from './clock';
+
+/**
+ * Default share increment for child order sizes.
+ */
+const DEFAULT_SIZE_STEP = 0.001;
+
+/**
+ * Optional dependencies for execution algorithms.
+ * @public
+ */
+export interface ExecutionOptions {
+  /**
+   * Clock used for scheduling (default: system clock)
+   */
+  clock?: ExecutionClock;
+
+  /**
+   * Optional logger
+   */
+  logger?: ILogger;
+}
+
+/**
+ * Converts shares to 6-decimal integer units.
+ */
+function toMicros(value: number): number {
+  return Math.round(value * 1e6);
+}
+
+/**
+ * Base class for execution algorithms built on {@link OrderClient}.
+ *
+ * @remarks
+ * Handles the lifecycle shared by every strategy: `start()`, `pause()`,
+ * `resume()` and `cancel()`, status and progress events, and clock-driven
+ * waits that wake up as soon as the status changes.
+ *
+ * `start()` resolves with an {@link ExecutionResult} in every terminal state,
+ * including `failed`; check `result.status`. Child orders already placed are
+ * not cancelled when a TWAP execution is cancelled or fails.
+ *
+ * @public
+ */
+export abstract class ExecutionAlgorithm extends EventEmitter<ExecutionEvents> {
+  /**
+   * Strategy name
+   */
+  abstract readonly strategy: ExecutionStrategy;
+
+  protected readonly orderClient: OrderClient;
+  protected readonly clock: ExecutionClock;
+  protected readonly logger: ILogger;
+  protected readonly params: ExecutionOrderParams;
+  protected readonly totalMicros: number;
+  protected readonly stepMicros: number;
+  protected submittedMicros = 0;
+  protected filledMicros?: number;
+  protected orders: OrderResponse[] = [];
+
+  private status: ExecutionStatus = 'idle';
+  private error?: Error;
+  private running?: Promise<ExecutionResult>;
+  private wake?: () => void;
+
+  /**
+   * @param orderClient - Order client used to place child orders
+   * @param params - Market, token, side, limit price and total size
+   * @param options - Clock and logger
+   *
+   * @throws OrderValidationError if the size or size step is invalid
+   */
+  protected constructor(
+    orderClient: OrderClient,
+    params: ExecutionOrderParams,
+    options: ExecutionOptions = {}
+  ) {
+    super();
+    this.orderClient = orderClient;
+    this.params = params;
+    this.clock = options.clock ?? systemClock;
+    this.logger = options.logger || new NoOpLogger();
+
+    this.stepMicros = toMicros(params.sizeStep ?? DEFAULT_SIZE_STEP);
+    this.totalMicros = toMicros(params.size);
+
+    if (!Number.isFinite(params.size) || this.stepMicros <= 0) {
+      throw new OrderValidationError('Execution size and sizeStep must be positive numbers');
+    }
+    if (this.totalMicros <= 0 || this.totalMicros % this.stepMicros !== 0) {
+      throw new OrderValidationError(
+        `Invalid size: ${params.size}. Must be a positive multiple of ${this.stepMicros / 1e6}.`
+      );
+    }
+  }
+
+  /**
+   * Runs the strategy's order placement loop.
+   *
+   * @internal
+   */
+  protected abstract execute(): Promise<void>;
+
+  /**
+   * Starts the execution.
+   *
+   * @remarks
+   * Calling `start()` again returns the same promise. An execution cancelled
+   * before it started resolves immediately.
+   *
+   * @returns Promise resolving to the final result once the execution stops
+   */
+  start(): Promise<ExecutionResult> {
+    if (!this.running && this.status !== 'idle') {
+      this.running = Promise.resolve(this.getResult());
+    }
+
+    if (!this.running) {
+      this.logger.info('Starting execution', {
+        strategy: this.strategy,
+        marketSlug: this.params.marketSlug,
+        size: this.params.size,
+      });
+      this.setStatus('running');
+      this.running = this.execute()
+        .then(
+          () => {
+            if (this.status === 'running' || this.status === 'paused') {
+              this.setStatus('completed');
+            }
+          },
+          (error) => {
+            this.error = error instanceof Error ? error : new Error(String(error));
+            this.logger.error('Execution failed', this.error, { strategy: this.strategy });
+            this.setStatus('failed');
+            this.emit('error', this.error);
+          }
+        )
+        .then(() => {
+          const result = this.getResult();
+          this.emit('done', result);
+          return result;
+        });
+    }
+
+    return this.running;
+  }
+
+  /**
+   * Pauses the execution: no new child orders are placed until `resume()`.
+   */
+  pause(): void {
+    if (this.status === 'running') {
+      this.setStatus('paused');
+    }
+  }
+
+  /**
+   * Resumes a paused execution.
+   */
+  resume(): void {
+    if (this.status === 'paused') {
+      this.setStatus('running');
+    }
+  }
+
+  /**
+   * Cancels the execution. No further child orders are placed.
+   */
+  cancel(): void {
+    if (this.status === 'idle' || this.status === 'running' || this.status === 'paused') {
+      this.setStatus('cancelled');
+    }
+  }
+
+  /**
+   * Gets the current status.
+   */
+  getStatus(): ExecutionStatus {
+    return this.status;
+  }
+
+  /**
+   * Gets a progress snapshot.
+   */
+  getProgress(): ExecutionProgress {
+    return {
+      strategy: this.strategy,
+      status: this.status,
+      totalSize: this.totalMicros / 1e6,
+      submittedSize: this.submittedMicros / 1e6,
+      ...(this.filledMicros !== undefined ? { filledSize: this.filledMicros / 1e6 } : {}),
+      ordersPlaced: this.orders.length,
+      ...(this.orders.length > 0 ? { lastOrder: this.orders[this.orders.length - 1] } : {}),
+    };
+  }
+
+  /**
+   * Places one child limit order and records it.
+   *
+   * @internal
+   */
+  protected async placeChildOrder(
+    sizeMicros: number,
+    orderType: OrderType
+  ): Promise<OrderResponse> {
+    const { marketSlug, tokenId, side, price } = this.params;
+    const response = await this.orderClient.createOrder({
+      marketSlug,
+      tokenId,
+      side,
+      price,
+      size: sizeMicros / 1e6,
+      orderType,
+    });
+
+    this.orders.push(response);
+    this.submittedMicros += sizeMicros;
+    this.logger.debug('Placed child order', {
+      strategy: this.strategy,
+      orderId: response.order.id,
+      size: sizeMicros / 1e6,
+    });
+    this.emitProgress();
+
+    return response;
+  }
+
+  /**
+   * Emits a progress event.
+   *
+   * @internal
+   */
+  protected emitProgress(): void {
+    this.emit('progress', this.getProgress());
+  }
+
+  /**
+   * Waits while paused.
+   *
+   * @returns True if the execution is running, false if it stopped
+   *
+   * @internal
+   */
+  protected async checkpoint(): Promise<boolean> {
+    while (this.status === 'paused') {
+      await new Promise<void>((resolve) => {
+        this.wake = resolve;
+      });
+    }
+    return this.status === 'running';
+  }
+
+  /**
+   * Waits until the given clock time, honoring pauses.
+   *
+   * @returns True if the execution is running at that time, false if it stopped
+   *
+   * @internal
+   */
+  protected async waitUntil(time: number): Promise<boolean> {
+    while (await this.checkpoint()) {
+      const delay = time - this.clock.now();
+      if (delay <= 0) {
+        return true;
+      }
+      await this.sleep(delay);
+    }
+    return false;
+  }
+
+  /**
+   * Sleeps for a delay, waking early when the status changes.
+   *
+   * @internal
+   */
+  protected sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      let timer: ExecutionTimer = undefined;
+      const done = (): void => {
+        this.clock.clearTimeout(timer);
+        if (this.wake === done) {
+          this.wake = undefined;
+        }
+        resolve();
+      };
+      this.wake = done;
+      timer = this.clock.setTimeout(done, Math.max(ms, 0));
+    });
+  }
+
+  /**
+   * Updates the status, emits it, and wakes any pending wait.
+   *
+   * @internal
+   */
+  private setStatus(status: ExecutionStatus): void {
+    this.status = status;
+    this.emit('status', status);
+
+    const wake = this.wake;
+    this.wake = undefined;
+    wake?.();
+  }
+
+  /**
+   * @internal
+   */
+  private getResult(): ExecutionResult {
+    return {
+      ...this.getProgress(),
+      orders: [...this.orders],
+      ...(this.error ? { error: this.error } : {}),
+    };
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Clocks for execution algorithms.
+ * @module execution/clock
+ */
+
+import type { ExecutionClock } from '../types/execution';
+
+/**
+ * Clock backed by `Date.now()` and the global timers.
+ *
+ * @public
+ */
+export const systemClock: ExecutionClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
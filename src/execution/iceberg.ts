@@ -0,0 +1,157 @@
+/**
+ * Iceberg execution: a parent order shown one visible clip at a time.
+ * @module execution/iceberg
+ */
+
+import type { OrderClient } from '../orders/client';
+import { OrderValidationError } from '../orders/validator';
+import type { IcebergParams } from '../types/execution';
+import { OrderType } from '../types/orders';
+import { ExecutionAlgorithm, type ExecutionOptions } from './algorithm';
+
+/**
+ * Default interval between fill checks of the resting clip.
+ */
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+
+/**
+ * Iceberg execution.
+ *
+ * @remarks
+ * Keeps one GTC clip of `visibleSize` shares resting at `price` and places the
+ * next clip when it fills, until `size` shares are filled. The resting clip is
+ * checked with `OrderClient.getOrder()` every `pollIntervalMs`. If a clip is
+ * cancelled or expires outside the execution, its filled part is counted and a
+ * new clip is placed for the rest.
+ *
+ * Pausing or cancelling withdraws the resting clip; `resume()` places a new one.
+ * Progress events report `filledSize` as fills are detected.
+ *
+ * @example
+ * ```typescript
+ * const iceberg = new IcebergExecution(orderClient, {
+ *   marketSlug: 'bitcoin-2024',
+ *   tokenId: market.tokens.yes,
+ *   side: Side.SELL,
+ *   price: 0.62,
+ *   size: 500,
+ *   visibleSize: 25,
+ * });
+ *
+ * iceberg.on('progress', (p) => console.log(`${p.filledSize}/${p.totalSize} filled`));
+ * await iceberg.start();
+ * ```
+ *
+ * @public
+ */
+export class IcebergExecution extends ExecutionAlgorithm {
+  readonly strategy = 'iceberg' as const;
+
+  private readonly visibleMicros: number;
+  private readonly pollIntervalMs: number;
+
+  /**
+   * Creates an iceberg execution.
+   *
+   * @param orderClient - Order client used to place child orders
+   * @param params - Iceberg parameters
+   * @param options - Clock and logger
+   *
+   * @throws OrderValidationError if the parameters are invalid
+   */
+  constructor(orderClient: OrderClient, params: IcebergParams, options: ExecutionOptions = {}) {
+    super(orderClient, params, options);
+
+    this.visibleMicros = Math.round(params.visibleSize * 1e6);
+    if (this.visibleMicros <= 0 || this.visibleMicros % this.stepMicros !== 0) {
+      throw new OrderValidationError(
+        `Invalid visibleSize: ${params.visibleSize}. ` +
+          `Must be a positive multiple of ${this.stepMicros / 1e6}.`
+      );
+    }
+
+    this.pollIntervalMs = params.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.filledMicros = 0;
+  }
+
+  /**
+   * @internal
+   */
+  protected async execute(): Promise<void> {
+    while (await this.checkpoint()) {
+      const remaining = this.totalMicros - this.filledMicros!;
+      const clip = Math.min(this.visibleMicros, remaining - (remaining % this.stepMicros));
+      if (clip <= 0) {
+        return;
+      }
+
+      const response = await this.placeChildOrder(clip, OrderType.GTC);
+      await this.workClip(response.order.id, clip);
+    }
+  }
+
+  /**
+   * Polls a resting clip until it fills, ends, or the execution pauses or stops.
+   *
+   * @internal
+   */
+  private async workClip(orderId: string, clip: number): Promise<void> {
+    let clipFilled = 0;
+
+    try {
+      for (;;) {
+        await this.sleep(this.pollIntervalMs);
+
+        if (this.getStatus() !== 'running') {
+          await this.withdrawClip(orderId, clip, clipFilled);
+          return;
+        }
+
+        const details = await this.orderClient.getOrder(orderId);
+        const filled = details.status === 'FILLED' ? clip : Math.min(details.filledSize, clip);
+        this.recordFill(filled - clipFilled);
+        clipFilled = filled;
+
+        if (
+          details.status === 'FILLED' ||
+          details.status === 'CANCELLED' ||
+          details.status === 'EXPIRED'
+        ) {
+          return;
+        }
+      }
+    } catch (error) {
+      // Do not leave a clip resting once the execution can no longer work it
+      await this.orderClient.cancel(orderId).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels a resting clip and records any fills since the last check.
+   *
+   * @internal
+   */
+  private async withdrawClip(orderId: string, clip: number, clipFilled: number): Promise<void> {
+    try {
+      await this.orderClient.cancel(orderId);
+    } catch (error) {
+      // The clip may have filled in the meantime; its status is read below
+      this.logger.debug('Clip cancel failed', { orderId, error: (error as Error).message });
+    }
+
+    const details = await this.orderClient.getOrder(orderId);
+    const filled = details.status === 'FILLED' ? clip : Math.min(details.filledSize, clip);
+    this.recordFill(filled - clipFilled);
+  }
+
+  /**
+   * @internal
+   */
+  private recordFill(micros: number): void {
+    if (micros > 0) {
+      this.filledMicros! += micros;
+      this.emitProgress();
+    }
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Execution algorithms module exports.
+ * @module execution
+ */
+
+export * from './clock';
+export * from './algorithm';
+export * from './twap';
+export * from './iceberg';
@@ -0,0 +1,107 @@
+/**
+ * TWAP execution: a parent order split into evenly spaced child orders.
+ * @module execution/twap
+ */
+
+import type { OrderClient } from '../orders/client';
+import { OrderValidationError } from '../orders/validator';
+import type { TwapParams } from '../types/execution';
+import { OrderType } from '../types/orders';
+import { ExecutionAlgorithm, type ExecutionOptions } from './algorithm';
+
+/**
+ * Time-weighted average price execution.
+ *
+ * @remarks
+ * Places `slices` limit orders at `price`, one immediately and the rest spaced
+ * evenly so the last is placed `durationMs` after the first. Slice sizes are
+ * multiples of `sizeStep`; any remainder is spread over the first slices.
+ *
+ * Child orders are FAK by default, so unfilled size does not rest on the book;
+ * fills are reported in each child order response. With `orderType: GTC`,
+ * slices rest until filled and are not cancelled when the execution stops.
+ *
+ * While paused, no slices are placed. A slice that came due during the pause is
+ * placed on resume, and later slices keep the original spacing from it.
+ *
+ * @example
+ * ```typescript
+ * const twap = new TwapExecution(orderClient, {
+ *   marketSlug: 'bitcoin-2024',
+ *   tokenId: market.tokens.yes,
+ *   side: Side.BUY,
+ *   price: 0.55,
+ *   size: 100,
+ *   slices: 10,
+ *   durationMs: 30 * 60_000,
+ * });
+ *
+ * twap.on('progress', (p) => console.log(`${p.submittedSize}/${p.totalSize} submitted`));
+ * const result = await twap.start();
+ * ```
+ *
+ * @public
+ */
+export class TwapExecution extends ExecutionAlgorithm {
+  readonly strategy = 'twap' as const;
+
+  private readonly sliceSizes: number[];
+  private readonly intervalMs: number;
+  private readonly orderType: OrderType;
+
+  /**
+   * Creates a TWAP execution.
+   *
+   * @param orderClient - Order client used to place child orders
+   * @param params - TWAP parameters
+   * @param options - Clock and logger
+   *
+   * @throws OrderValidationError if the parameters are invalid
+   */
+  constructor(orderClient: OrderClient, params: TwapParams, options: ExecutionOptions = {}) {
+    super(orderClient, params, options);
+
+    if (!Number.isInteger(params.slices) || params.slices <= 0) {
+      throw new OrderValidationError(
+        `Invalid slices: ${params.slices}. Must be a positive integer.`
+      );
+    }
+    if (!Number.isFinite(params.durationMs) || params.durationMs < 0) {
+      throw new OrderValidationError(`Invalid durationMs: ${params.durationMs}.`);
+    }
+
+    const steps = this.totalMicros / this.stepMicros;
+    if (steps < params.slices) {
+      throw new OrderValidationError(
+        `Size ${params.size} is too small for ${params.slices} slices of at least ` +
+          `${this.stepMicros / 1e6} shares.`
+      );
+    }
+
+    const base = Math.floor(steps / params.slices);
+    const remainder = steps % params.slices;
+    this.sliceSizes = Array.from(
+      { length: params.slices },
+      (_, index) => (base + (index < remainder ? 1 : 0)) * this.stepMicros
+    );
+    this.intervalMs = params.slices > 1 ? params.durationMs / (params.slices - 1) : 0;
+    this.orderType = params.orderType ?? OrderType.FAK;
+  }
+
+  /**
+   * @internal
+   */
+  protected async execute(): Promise<void> {
+    let nextAt = this.clock.now();
+
+    for (const sliceSize of this.sliceSizes) {
+      if (!(await this.waitUntil(nextAt))) {
+        return;
+      }
+
+      const placedAt = this.clock.now();
+      await this.placeChildOrder(sliceSize, this.orderType);
+      nextAt = Math.max(nextAt, placedAt) + this.intervalMs;
+    }
+  }
+}
@@ -16,6 +16,8 @@ export * from './delegated-orders';
 export * from './server-wallets';
 export * from './utils';
 export * from './orders';
+export * from './execution';
+export * from './triggers';
 export * from './markets';
 export * from './market-pages';
 export * from './portfolio';
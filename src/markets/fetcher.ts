@@ -10,10 +10,41 @@ import type {
   OrderBook,
   ActiveMarketsParams,
   ActiveMarketsResponse,
+  MarketOrderConstraints,
+  MarketTokens,
   Venue,
 } from '../types/markets';
 import type { ILogger } from '../types/logger';
 import { NoOpLogger } from '../types/logger';
+import { toFiniteNumber } from '../utils/number-flex';
+
+/**
+ * Default price tick size used when a market does not set one.
+ */
+const DEFAULT_TICK_SIZE = 0.001;
+
+/**
+ * Builds order constraints from market settings or orderbook fields.
+ *
+ * @remarks
+ * `minSize` is returned by the API in 6-decimal share units.
+ *
+ * @internal
+ */
+function toOrderConstraints(source: {
+  minSize?: unknown;
+  maxSpread?: unknown;
+  tickSize?: unknown;
+}): MarketOrderConstraints {
+  const tickSize = toFiniteNumber(source.tickSize);
+  const minSize = toFiniteNumber(source.minSize);
+
+  return {
+    tickSize: tickSize !== undefined && tickSize > 0 ? tickSize : DEFAULT_TICK_SIZE,
+    minSize: minSize !== undefined && minSize > 0 ? minSize / 1e6 : 0,
+    maxSpread: toFiniteNumber(source.maxSpread) ?? null,
+  };
+}
 
 /**
  * Market data fetcher for retrieving market information and orderbooks.
@@ -32,6 +63,8 @@ export class MarketFetcher {
   private httpClient: HttpClient;
   private logger: ILogger;
   private venueCache: Map<string, Venue>;
+  private tokenCache: Map<string, MarketTokens>;
+  private constraintsCache: Map<string, MarketOrderConstraints>;
 
   /**
    * Creates a new market fetcher instance.
@@ -48,6 +81,8 @@ export class MarketFetcher {
     this.httpClient = httpClient;
     this.logger = logger || new NoOpLogger();
     this.venueCache = new Map();
+    this.tokenCache = new Map();
+    this.constraintsCache = new Map();
   }
 
 
@@ -170,6 +205,18 @@ export class MarketFetcher {
         this.logger.warn('Market has no venue data', { slug });
       }
 
+      if (market.tokens) {
+        this.tokenCache.set(slug, market.tokens);
+      }
+
+      if (market.settings) {
+        const constraints = toOrderConstraints(market.settings);
+        if (Number.isFinite(market.expirationTimestamp) && market.expirationTimestamp > 0) {
+          constraints.expirationTimestamp = market.expirationTimestamp;
+        }
+        this.constraintsCache.set(slug, constraints);
+      }
+
       this.logger.info('Market fetched successfully', {
         slug,
         title: market.title,
@@ -214,6 +261,34 @@ export class MarketFetcher {
     return venue;
   }
 
+  /**
+   * Gets cached outcome tokens for a market.
+   *
+   * @remarks
+   * Returns YES/NO token IDs previously cached by getMarket() call.
+   * Group markets have no tokens of their own; use their nested markets.
+   *
+   * @param slug - Market slug identifier
+   * @returns Cached token IDs, or undefined if not in cache
+   */
+  getTokens(slug: string): MarketTokens | undefined {
+    return this.tokenCache.get(slug);
+  }
+
+  /**
+   * Gets cached order constraints (tick size, minimum size, max spread) for a market.
+   *
+   * @remarks
+   * Cached from market settings by getMarket(), or from the orderbook by
+   * getOrderBook() when the market settings are not cached.
+   *
+   * @param slug - Market slug identifier
+   * @returns Cached constraints, or undefined if not in cache
+   */
+  getOrderConstraints(slug: string): MarketOrderConstraints | undefined {
+    return this.constraintsCache.get(slug);
+  }
+
   /**
    * Gets the orderbook for a CLOB market.
    *
@@ -241,6 +316,11 @@ export class MarketFetcher {
         asks: orderbook.asks.length,
         tokenId: orderbook.tokenId,
       });
+
+      if (!this.constraintsCache.has(slug)) {
+        this.constraintsCache.set(slug, toOrderConstraints(orderbook));
+      }
+
       return orderbook;
     } catch (error) {
       this.logger.error('Failed to fetch orderbook', error as Error, { slug });
@@ -4,3 +4,4 @@
  */
 
 export * from './fetcher';
+export * from './orderbook-mirror';
@@ -0,0 +1,513 @@
+/**
+ * Local orderbook state maintained from WebSocket updates.
+ * @module markets/orderbook-mirror
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import { systemClock } from '../execution/clock';
+import type { ExecutionClock, ExecutionTimer } from '../types/execution';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+import type {
+  MirroredOrderBook,
+  OrderBook,
+  OrderBookMirrorEvents,
+  OrderBookResyncReason,
+  OrderBookSide,
+  OrderBookSource,
+  OrderbookEntry,
+} from '../types/markets';
+import type { OrderbookData, OrderbookUpdate } from '../types/websocket';
+import { toFiniteNumber } from '../utils/number-flex';
+import type { WebSocketClient } from '../websocket/client';
+import type { MarketFetcher } from './fetcher';
+
+/**
+ * Default time without updates before a book is considered stale.
+ */
+const DEFAULT_STALE_AFTER_MS = 30_000;
+
+/**
+ * Prices closer than this are the same level.
+ */
+const PRICE_EPSILON = 1e-9;
+
+/**
+ * Configuration for {@link OrderBookMirror}.
+ * @public
+ */
+export interface OrderBookMirrorConfig {
+  /**
+   * Time without updates after which a book is marked stale, in milliseconds
+   * @defaultValue 30000
+   */
+  staleAfterMs?: number;
+
+  /**
+   * Refetch stale books over REST
+   * @defaultValue true
+   */
+  resyncOnStale?: boolean;
+
+  /**
+   * Clock used for staleness timers (default: system clock)
+   */
+  clock?: ExecutionClock;
+
+  /**
+   * Optional logger
+   */
+  logger?: ILogger;
+}
+
+/**
+ * Mirror state of one market.
+ */
+interface MirrorEntry {
+  book?: MirroredOrderBook;
+  /** Source timestamp of the last applied WebSocket update */
+  lastEventAt?: number;
+  /** Local time of the last applied WebSocket update */
+  lastReceivedAt: number;
+  staleTimer: ExecutionTimer;
+  resyncing?: Promise<MirroredOrderBook>;
+}
+
+/**
+ * Converts an update timestamp (Date, milliseconds or date string) to milliseconds.
+ */
+function toMillis(timestamp: Date | number | string): number | undefined {
+  if (timestamp instanceof Date) {
+    const ms = timestamp.getTime();
+    return Number.isFinite(ms) ? ms : undefined;
+  }
+  const numeric = toFiniteNumber(timestamp);
+  if (numeric !== undefined) {
+    return numeric;
+  }
+  const parsed = Date.parse(String(timestamp));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Sorts levels best first, dropping malformed entries.
+ */
+function toLevels(entries: OrderbookEntry[] | undefined, descending: boolean): OrderbookEntry[] {
+  const levels: OrderbookEntry[] = [];
+  for (const entry of entries ?? []) {
+    const price = toFiniteNumber(entry.price);
+    const size = toFiniteNumber(entry.size);
+    if (price === undefined || size === undefined || price <= 0 || size <= 0) {
+      continue;
+    }
+    levels.push({ ...entry, price, size });
+  }
+  return levels.sort((a, b) => (descending ? b.price - a.price : a.price - b.price));
+}
+
+function sameLevels(a: OrderbookEntry[], b: OrderbookEntry[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((level, i) => level.price === b[i].price && level.size === b[i].size)
+  );
+}
+
+/**
+ * Keeps local copies of market orderbooks in sync with the exchange.
+ *
+ * @remarks
+ * Each tracked market is seeded from `MarketFetcher.getOrderBook()`, then
+ * replaced by every `orderbookUpdate` from {@link WebSocketClient} (updates carry
+ * the complete book). Updates older than the last applied one are dropped.
+ *
+ * Missed updates are handled in two ways:
+ * - after the WebSocket reconnects, every tracked book is refetched over REST
+ * - a book with no update for `staleAfterMs` emits `stale` and, unless
+ *   `resyncOnStale` is false, is refetched over REST
+ *
+ * A REST result is discarded if a WebSocket update arrived while it was in
+ * flight. The mirror does not subscribe by itself: subscribe the WebSocket
+ * client to the tracked market slugs.
+ *
+ * @example
+ * ```typescript
+ * const mirror = new OrderBookMirror(wsClient, marketFetcher);
+ * mirror.start();
+ * await mirror.track('btc-100k');
+ *
+ * mirror.on('change', (book) => {
+ *   console.log(book.marketSlug, book.bids[0]?.price, book.asks[0]?.price);
+ * });
+ *
+ * const depth = mirror.getDepthTo('btc-100k', 'ask', 0.55);
+ * ```
+ *
+ * @public
+ */
+export class OrderBookMirror extends EventEmitter<OrderBookMirrorEvents> {
+  private readonly wsClient: WebSocketClient;
+  private readonly marketFetcher: MarketFetcher;
+  private readonly clock: ExecutionClock;
+  private readonly logger: ILogger;
+  private readonly staleAfterMs: number;
+  private readonly resyncOnStale: boolean;
+  private readonly entries: Map<string, MirrorEntry> = new Map();
+  private running = false;
+  private disconnected = false;
+
+  /**
+   * Creates an orderbook mirror.
+   *
+   * @param wsClient - WebSocket client delivering `orderbookUpdate` events
+   * @param marketFetcher - Market fetcher used to seed and resync books
+   * @param config - Staleness settings, clock and logger
+   */
+  constructor(
+    wsClient: WebSocketClient,
+    marketFetcher: MarketFetcher,
+    config: OrderBookMirrorConfig = {}
+  ) {
+    super();
+    this.wsClient = wsClient;
+    this.marketFetcher = marketFetcher;
+    this.clock = config.clock ?? systemClock;
+    this.logger = config.logger || new NoOpLogger();
+    this.staleAfterMs = config.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+    this.resyncOnStale = config.resyncOnStale ?? true;
+  }
+
+  /**
+   * Starts listening to WebSocket events.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.disconnected = !this.wsClient.isConnected();
+    this.wsClient.on('orderbookUpdate', this.handleOrderbookUpdate);
+    this.wsClient.on('connect', this.handleConnect);
+    this.wsClient.on('disconnect', this.handleDisconnect);
+  }
+
+  /**
+   * Stops listening and clears staleness timers. Books are kept.
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.wsClient.off('orderbookUpdate', this.handleOrderbookUpdate);
+    this.wsClient.off('connect', this.handleConnect);
+    this.wsClient.off('disconnect', this.handleDisconnect);
+    for (const entry of this.entries.values()) {
+      this.clock.clearTimeout(entry.staleTimer);
+      entry.staleTimer = undefined;
+    }
+  }
+
+  /**
+   * Starts mirroring a market, seeding its book over REST.
+   *
+   * @param marketSlug - Market slug
+   * @returns Promise resolving to the seeded book
+   *
+   * @throws Error if the REST seed fails (the market stays tracked)
+   */
+  async track(marketSlug: string): Promise<MirroredOrderBook> {
+    const existing = this.entries.get(marketSlug);
+    if (existing?.book) {
+      return existing.book;
+    }
+    if (existing?.resyncing) {
+      return existing.resyncing;
+    }
+
+    if (!existing) {
+      this.entries.set(marketSlug, { lastReceivedAt: -Infinity, staleTimer: undefined });
+    }
+    return this.refetch(marketSlug, 'seed');
+  }
+
+  /**
+   * Stops mirroring a market and drops its book.
+   *
+   * @returns True if the market was tracked
+   */
+  untrack(marketSlug: string): boolean {
+    const entry = this.entries.get(marketSlug);
+    if (!entry) {
+      return false;
+    }
+    this.clock.clearTimeout(entry.staleTimer);
+    return this.entries.delete(marketSlug);
+  }
+
+  /**
+   * Refetches a tracked book over REST.
+   *
+   * @param marketSlug - Market slug
+   * @returns Promise resolving to the current book
+   *
+   * @throws Error if the market is not tracked or the REST request fails
+   */
+  async resync(marketSlug: string): Promise<MirroredOrderBook> {
+    if (!this.entries.has(marketSlug)) {
+      throw new Error(`Market ${marketSlug} is not tracked`);
+    }
+    return this.refetch(marketSlug, 'manual');
+  }
+
+  /**
+   * @returns Current book of a market, or undefined if not loaded
+   */
+  getBook(marketSlug: string): MirroredOrderBook | undefined {
+    return this.entries.get(marketSlug)?.book;
+  }
+
+  /**
+   * @returns Slugs of tracked markets
+   */
+  getMarkets(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * @returns Best bid, or null if the book is empty or not loaded
+   */
+  getBestBid(marketSlug: string): OrderbookEntry | null {
+    return this.getBook(marketSlug)?.bids[0] ?? null;
+  }
+
+  /**
+   * @returns Best ask, or null if the book is empty or not loaded
+   */
+  getBestAsk(marketSlug: string): OrderbookEntry | null {
+    return this.getBook(marketSlug)?.asks[0] ?? null;
+  }
+
+  /**
+   * @returns Midpoint of the best bid and ask, or null if either side is empty
+   */
+  getMidpoint(marketSlug: string): number | null {
+    const bid = this.getBestBid(marketSlug);
+    const ask = this.getBestAsk(marketSlug);
+    return bid && ask ? (bid.price + ask.price) / 2 : null;
+  }
+
+  /**
+   * @returns Best ask minus best bid, or null if either side is empty
+   */
+  getSpread(marketSlug: string): number | null {
+    const bid = this.getBestBid(marketSlug);
+    const ask = this.getBestAsk(marketSlug);
+    return bid && ask ? ask.price - bid.price : null;
+  }
+
+  /**
+   * Gets the size resting at one price level.
+   *
+   * @param marketSlug - Market slug
+   * @param side - Book side
+   * @param price - Level price
+   * @returns Shares at the price (0 when there is no such level)
+   */
+  getDepthAt(marketSlug: string, side: OrderBookSide, price: number): number {
+    return this.levels(marketSlug, side)
+      .filter((level) => Math.abs(level.price - price) < PRICE_EPSILON)
+      .reduce((sum, level) => sum + level.size, 0);
+  }
+
+  /**
+   * Gets the total size at prices at or better than a limit.
+   *
+   * @param marketSlug - Market slug
+   * @param side - Book side
+   * @param limitPrice - Worst price to include (bids at or above it, asks at or below it)
+   * @returns Cumulative shares
+   */
+  getDepthTo(marketSlug: string, side: OrderBookSide, limitPrice: number): number {
+    return this.levels(marketSlug, side)
+      .filter((level) =>
+        side === 'bid'
+          ? level.price >= limitPrice - PRICE_EPSILON
+          : level.price <= limitPrice + PRICE_EPSILON
+      )
+      .reduce((sum, level) => sum + level.size, 0);
+  }
+
+  /**
+   * @internal
+   */
+  private levels(marketSlug: string, side: OrderBookSide): OrderbookEntry[] {
+    const book = this.getBook(marketSlug);
+    return book ? (side === 'bid' ? book.bids : book.asks) : [];
+  }
+
+  /**
+   * Fetches a book over REST unless a refetch is already in flight.
+   *
+   * @internal
+   */
+  private refetch(marketSlug: string, reason: OrderBookResyncReason): Promise<MirroredOrderBook> {
+    const entry = this.entries.get(marketSlug)!;
+    if (entry.resyncing) {
+      return entry.resyncing;
+    }
+
+    const requestedAt = this.clock.now();
+    const resyncing = (async () => {
+      try {
+        const orderBook = await this.marketFetcher.getOrderBook(marketSlug);
+        if (this.entries.get(marketSlug) !== entry) {
+          throw new Error(`Market ${marketSlug} was untracked during resync`);
+        }
+
+        // A WebSocket update that arrived meanwhile is newer than this snapshot
+        if (!entry.book || entry.lastReceivedAt < requestedAt) {
+          this.apply(marketSlug, entry, orderBook, 'rest', requestedAt);
+        } else {
+          this.armStaleTimer(marketSlug, entry);
+        }
+
+        this.logger.debug('Orderbook resynced', { marketSlug, reason });
+        this.emit('resync', entry.book!, reason);
+        return entry.book!;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.warn('Orderbook resync failed', { marketSlug, reason, error: err.message });
+        if (this.entries.get(marketSlug) === entry) {
+          this.armStaleTimer(marketSlug, entry);
+          this.emit('error', err, marketSlug);
+        }
+        throw err;
+      } finally {
+        entry.resyncing = undefined;
+      }
+    })();
+
+    entry.resyncing = resyncing;
+    return resyncing;
+  }
+
+  /**
+   * Replaces a book, emitting `change` when its levels differ.
+   *
+   * @internal
+   */
+  private apply(
+    marketSlug: string,
+    entry: MirrorEntry,
+    data: OrderBook | OrderbookData,
+    source: OrderBookSource,
+    updatedAt: number
+  ): void {
+    const previous = entry.book;
+    const book: MirroredOrderBook = {
+      marketSlug,
+      tokenId: data.tokenId,
+      bids: toLevels(data.bids, true),
+      asks: toLevels(data.asks, false),
+      adjustedMidpoint: toFiniteNumber(data.adjustedMidpoint) ?? 0,
+      updatedAt,
+      receivedAt: this.clock.now(),
+      source,
+      stale: false,
+    };
+    entry.book = book;
+    this.armStaleTimer(marketSlug, entry);
+
+    if (
+      !previous ||
+      previous.tokenId !== book.tokenId ||
+      !sameLevels(previous.bids, book.bids) ||
+      !sameLevels(previous.asks, book.asks)
+    ) {
+      this.emit('change', book, previous);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private armStaleTimer(marketSlug: string, entry: MirrorEntry): void {
+    this.clock.clearTimeout(entry.staleTimer);
+    entry.staleTimer = undefined;
+    if (!this.running) {
+      return;
+    }
+    entry.staleTimer = this.clock.setTimeout(
+      () => this.handleStale(marketSlug, entry),
+      this.staleAfterMs
+    );
+  }
+
+  /**
+   * @internal
+   */
+  private handleStale(marketSlug: string, entry: MirrorEntry): void {
+    entry.staleTimer = undefined;
+    if (!entry.book || this.entries.get(marketSlug) !== entry) {
+      return;
+    }
+
+    entry.book = { ...entry.book, stale: true };
+    const ageMs = this.clock.now() - entry.book.receivedAt;
+    this.logger.info('Orderbook is stale', { marketSlug, ageMs });
+    this.emit('stale', entry.book, ageMs);
+
+    if (this.resyncOnStale) {
+      // Failures are reported through the error event
+      this.refetch(marketSlug, 'stale').catch(() => undefined);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private readonly handleOrderbookUpdate = (update: OrderbookUpdate): void => {
+    const entry = this.entries.get(update.marketSlug);
+    if (!entry || !update.orderbook) {
+      return;
+    }
+
+    const eventAt = toMillis(update.timestamp) ?? this.clock.now();
+    if (entry.lastEventAt !== undefined && eventAt < entry.lastEventAt) {
+      this.logger.debug('Dropping out-of-order orderbook update', {
+        marketSlug: update.marketSlug,
+        eventAt,
+        lastEventAt: entry.lastEventAt,
+      });
+      return;
+    }
+
+    entry.lastEventAt = eventAt;
+    entry.lastReceivedAt = this.clock.now();
+    this.apply(update.marketSlug, entry, update.orderbook, 'websocket', eventAt);
+  };
+
+  /**
+   * @internal
+   */
+  private readonly handleConnect = (): void => {
+    if (!this.disconnected) {
+      return;
+    }
+    this.disconnected = false;
+    this.logger.info('WebSocket reconnected, resyncing orderbooks', {
+      markets: this.entries.size,
+    });
+    for (const marketSlug of this.entries.keys()) {
+      // Failures are reported through the error event
+      this.refetch(marketSlug, 'reconnect').catch(() => undefined);
+    }
+  };
+
+  /**
+   * @internal
+   */
+  private readonly handleDisconnect = (): void => {
+    this.disconnected = true;
+  };
+}
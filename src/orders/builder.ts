@@ -5,6 +5,9 @@
 
 import { ethers } from 'ethers';
 import { OrderArgs, UnsignedOrder, Side, SignatureType } from '../types/orders';
+import type { MarketOrderConstraints } from '../types/markets';
+import { OrderValidationError, validateSignatureConfig } from './validator';
+import { resolveOrderExpiration, validateOrderExpiration } from './expiration';
 
 /**
  * Zero address constant for any-taker orders.
@@ -17,6 +20,26 @@ const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
  */
 const DEFAULT_PRICE_TICK = 0.001;
 
+/**
+ * Optional signer settings for the order builder.
+ * @public
+ */
+export interface OrderBuilderOptions {
+  /**
+   * Address that signs orders (default: the maker address)
+   *
+   * @remarks
+   * Set to the owner EOA when the maker is a proxy or Gnosis Safe wallet.
+   */
+  signerAddress?: string;
+
+  /**
+   * Signature type of produced orders
+   * @defaultValue SignatureType.EOA
+   */
+  signatureType?: SignatureType;
+}
+
 /**
  * Order builder for constructing unsigned order payloads.
  *
@@ -26,21 +49,26 @@ const DEFAULT_PRICE_TICK = 0.001;
  * maker/taker amounts with proper tick alignment, and validates inputs.
  *
  * **Tick Alignment Requirements**:
- * - Prices must align to tick size (default: 0.001 = 3 decimals)
+ * - Prices must align to tick size (default: 0.001 = 3 decimals, or the market's tick
+ *   when constraints are passed to `buildOrder`)
  * - Size must produce takerAmount divisible by sharesStep (priceScale / tickInt = 1000 for 0.001 tick)
+ * - Size must be at least the market's minimum size, when provided
  * - SDK validates inputs and throws clear errors rather than auto-rounding
  * - This ensures `price * contracts` yields whole number collateral
  *
  * **Validation Strategy**:
  * - FAILS FAST: Invalid inputs throw errors with helpful suggestions
  * - NO AUTO-ROUNDING: Users maintain full control over order amounts
- * - TRANSPARENCY: Error messages show valid alternatives
+ * - TRANSPARENCY: Error messages show valid alternatives, and `OrderValidationError`
+ *   exposes them as `suggestedPrice` / `suggestedSize`
  * - Example: size=22.123896 → Error: "Try 22.123 (rounded down) or 22.124 (rounded up) instead"
  *
  * @public
  */
 export class OrderBuilder {
   private makerAddress: string;
+  private signerAddress: string;
+  private signatureType: SignatureType;
   private feeRateBps: number;
   private priceTick: number;
 
@@ -50,6 +78,9 @@ export class OrderBuilder {
    * @param makerAddress - Ethereum address of the order maker
    * @param feeRateBps - Fee rate in basis points (e.g., 100 = 1%)
    * @param priceTick - Price tick size (default: 0.001 for 3 decimals)
+   * @param options - Signer address and signature type for smart-contract wallets
+   *
+   * @throws OrderValidationError if the maker/signer/signature type combination is invalid
    *
    * @example
    * ```typescript
@@ -58,21 +89,47 @@ export class OrderBuilder {
    *   300, // 3% fee
    *   0.001 // 3 decimal price precision
    * );
+   *
+   * // Gnosis Safe maker signed by its owner EOA
+   * const safeBuilder = new OrderBuilder(safeAddress, 300, 0.001, {
+   *   signerAddress: ownerAddress,
+   *   signatureType: SignatureType.POLY_GNOSIS_SAFE,
+   * });
    * ```
    */
-  constructor(makerAddress: string, feeRateBps: number, priceTick: number = DEFAULT_PRICE_TICK) {
+  constructor(
+    makerAddress: string,
+    feeRateBps: number,
+    priceTick: number = DEFAULT_PRICE_TICK,
+    options: OrderBuilderOptions = {}
+  ) {
     this.makerAddress = makerAddress;
+    this.signerAddress = options.signerAddress ?? makerAddress;
+    this.signatureType = options.signatureType ?? SignatureType.EOA;
     this.feeRateBps = feeRateBps;
     this.priceTick = priceTick;
+
+    validateSignatureConfig(this.makerAddress, this.signerAddress, this.signatureType);
   }
 
   /**
    * Builds an unsigned order payload.
    *
+   * @remarks
+   * Pass the market's constraints to validate against its tick size and minimum
+   * size instead of the builder defaults. Tick-size and minimum-size failures throw
+   * `OrderValidationError` with `suggestedPrice`/`suggestedSize` set.
+   *
+   * `args.expiration` is resolved to unix seconds (see `resolveOrderExpiration`) and
+   * must lie in the future and, when `constraints.expirationTimestamp` is set, not
+   * after the market expires.
+   *
    * @param args - Order arguments (FOK or GTC)
+   * @param constraints - Market tick size and minimum size (default: builder tick, no minimum)
    * @returns Unsigned order ready for signing
    *
-   * @throws Error if validation fails or tick alignment fails
+   * @throws OrderValidationError if price, size or expiration is not valid for the market
+   * @throws Error if validation fails
    *
    * @example
    * ```typescript
@@ -92,26 +149,36 @@ export class OrderBuilder {
    * });
    * ```
    */
-  buildOrder(args: OrderArgs): UnsignedOrder {
+  buildOrder(args: OrderArgs, constraints: Partial<MarketOrderConstraints> = {}): UnsignedOrder {
     this.validateOrderArgs(args);
 
+    const priceTick = constraints.tickSize ?? this.priceTick;
+    const minSize = constraints.minSize ?? 0;
+
     const { makerAmount, takerAmount, price } = this.isFOKOrder(args)
       ? this.calculateFOKAmounts(args.makerAmount)
-      : this.calculateGTCAmountsTickAligned(args.price, args.size, args.side);
+      : this.calculateGTCAmountsTickAligned(args.price, args.size, args.side, priceTick);
+
+    this.validateMinSize(args, minSize, priceTick);
+
+    const expiration = resolveOrderExpiration(args.expiration);
+    validateOrderExpiration(expiration, {
+      marketExpirationTimestamp: constraints.expirationTimestamp,
+    });
 
     const order: UnsignedOrder = {
       salt: this.generateSalt(),
       maker: this.makerAddress,
-      signer: this.makerAddress,
+      signer: this.signerAddress,
       taker: args.taker || ZERO_ADDRESS,
       tokenId: args.tokenId,
       makerAmount: makerAmount,
       takerAmount: takerAmount,
-      expiration: args.expiration || '0',
+      expiration,
       nonce: args.nonce || 0,
       feeRateBps: this.feeRateBps,
       side: args.side,
-      signatureType: SignatureType.EOA,
+      signatureType: this.signatureType,
     };
 
     if (price !== undefined) {
@@ -207,19 +274,21 @@ export class OrderBuilder {
    *   - SELL: maker = shares, taker = collateral
    * - Throws clear error if size is not tick-aligned
    *
-   * @param price - Price per share (0.0 to 1.0, max 3 decimals)
+   * @param price - Price per share (0.0 to 1.0, aligned to the tick)
    * @param size - Number of shares (must be tick-aligned)
    * @param side - Order side (BUY or SELL)
+   * @param priceTick - Market price tick size
    * @returns Object with validated makerAmount, takerAmount, and price
    *
-   * @throws Error if price or size not tick-aligned
+   * @throws OrderValidationError if price or size not tick-aligned
    *
    * @internal
    */
   private calculateGTCAmountsTickAligned(
     price: number,
     size: number,
-    side: Side
+    side: Side,
+    priceTick: number
   ): { makerAmount: number; takerAmount: number; price: number } {
     const sharesScale = 1_000_000n;
     const collateralScale = 1_000_000n;
@@ -227,20 +296,32 @@ export class OrderBuilder {
 
     const shares = this.parseDecToInt(size.toString(), sharesScale);
     const priceInt = this.parseDecToInt(price.toString(), priceScale);
-    const tickInt = this.parseDecToInt(this.priceTick.toString(), priceScale);
+    const tickInt = this.parseDecToInt(priceTick.toString(), priceScale);
 
     // Validate tick and price
     if (tickInt <= 0n) {
-      throw new Error(`Invalid priceTick: ${this.priceTick}`);
+      throw new Error(`Invalid priceTick: ${priceTick}`);
     }
     if (priceInt <= 0n) {
       throw new Error(`Invalid price: ${price}`);
     }
 
-    // Validate price is tick-aligned
-    if (priceInt % tickInt !== 0n) {
-      throw new Error(
-        `Price ${price} is not tick-aligned. Must be multiple of ${this.priceTick} (e.g., 0.380, 0.381, etc.)`
+    // Validate price is tick-aligned (and not truncated by the 6-decimal scale)
+    if (priceInt % tickInt !== 0n || Number(priceInt) / 1e6 !== price) {
+      const priceDown = Number((priceInt / tickInt) * tickInt) / 1e6;
+      const priceUp = Number((priceInt / tickInt + 1n) * tickInt) / 1e6;
+      // Suggest the side-safe price: never pay more (BUY) or receive less (SELL)
+      let suggestedPrice: number;
+      if (side === Side.BUY) {
+        suggestedPrice = priceDown > 0 ? priceDown : priceUp;
+      } else {
+        suggestedPrice = priceUp < 1 ? priceUp : priceDown;
+      }
+
+      throw new OrderValidationError(
+        `Price ${price} is not tick-aligned. Must be multiple of ${priceTick}. ` +
+          `Try ${priceDown} (rounded down) or ${priceUp} (rounded up) instead.`,
+        { price: suggestedPrice }
       );
     }
 
@@ -254,9 +335,10 @@ export class OrderBuilder {
       const validSizeDown = Number((shares / sharesStep) * sharesStep) / 1e6;
       const validSizeUp = Number(this.divCeil(shares, sharesStep) * sharesStep) / 1e6;
 
-      throw new Error(
+      throw new OrderValidationError(
         `Invalid size: ${size}. Size must produce contracts divisible by ${sharesStep} (sharesStep). ` +
-          `Try ${validSizeDown} (rounded down) or ${validSizeUp} (rounded up) instead.`
+          `Try ${validSizeDown} (rounded down) or ${validSizeUp} (rounded up) instead.`,
+        { size: validSizeDown > 0 ? validSizeDown : validSizeUp }
       );
     }
 
@@ -373,18 +455,52 @@ export class OrderBuilder {
       if (args.size <= 0) {
         throw new Error(`Invalid size: ${args.size}. Size must be positive.`);
       }
+    }
+  }
 
-      // Validate price has max 3 decimals (tick alignment check)
-      const priceStr = args.price.toString();
-      const decimalIndex = priceStr.indexOf('.');
-      if (decimalIndex !== -1) {
-        const decimalPlaces = priceStr.length - decimalIndex - 1;
-        if (decimalPlaces > 3) {
-          throw new Error(
-            `Invalid price: ${args.price}. Price must have max 3 decimal places (e.g., 0.380, 0.001).`
-          );
-        }
+  /**
+   * Validates the order size against the market minimum.
+   *
+   * @remarks
+   * GTC/FAK sizes and FOK SELL amounts are in shares and are checked directly.
+   * FOK BUY amounts are in USDC and are left to the exchange.
+   *
+   * @param args - Order arguments
+   * @param minSize - Minimum order size in shares (0 for none)
+   * @param priceTick - Market price tick size
+   * @throws OrderValidationError if the size is below the minimum
+   *
+   * @internal
+   */
+  private validateMinSize(args: OrderArgs, minSize: number, priceTick: number): void {
+    if (minSize <= 0) {
+      return;
+    }
+
+    let size: number;
+    if (this.isFOKOrder(args)) {
+      if (args.side !== Side.SELL) {
+        return;
       }
+      size = args.makerAmount;
+    } else {
+      size = args.size;
     }
+
+    if (size >= minSize) {
+      return;
+    }
+
+    // Round the minimum up to a size the tick accepts
+    const scale = 1_000_000n;
+    const sharesStep = scale / this.parseDecToInt(priceTick.toString(), scale);
+    const minShares = this.parseDecToInt(minSize.toString(), scale);
+    const suggestedSize = Number(this.divCeil(minShares, sharesStep) * sharesStep) / 1e6;
+
+    throw new OrderValidationError(
+      `Invalid size: ${size}. Minimum order size for this market is ${minSize} shares. ` +
+        `Try ${suggestedSize} instead.`,
+      { size: suggestedSize }
+    );
   }
 }
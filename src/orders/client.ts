@@ -3,7 +3,10 @@
  * @module orders/client
  */
 
+import { EventEmitter } from 'eventemitter3';
 import type { HttpClient } from '../api/http';
+import { APIError } from '../api/errors';
+import { withRetry } from '../api/retry';
 import type { ILogger } from '../types/logger';
 import { NoOpLogger } from '../types/logger';
 import type {
@@ -12,16 +15,239 @@ import type {
   OrderArgs,
   UnsignedOrder,
   OrderSigningConfig,
+  CreateOrderParams,
+  BatchOptions,
+  BatchOrderResult,
+  BatchOrderStage,
+  CancelEverythingOptions,
+  CancelManyOptions,
+  CancelOrderResult,
+  CancelOrdersFilter,
+  ClientOrderReconciliation,
+  ClientOrderRecord,
+  CreatedOrder,
+  MarketCancelResult,
+  MarketOrderOptions,
+  MarketOrderOutcome,
+  MarketOrderResult,
+  NonceInvalidationResult,
+  OrderClientEvents,
+  OrderDetails,
+  OrderPreview,
+  OrderStatus,
+  OpenOrdersParams,
+  ReplaceOrderLeg,
+  ReplaceOrderParams,
+  ReplaceOrderResult,
+  SignedOrderEnvelope,
 } from '../types/orders';
-import { OrderType } from '../types/orders';
+import { OrderType, Side, SignatureType } from '../types/orders';
+import type { MarketOrderConstraints, Venue } from '../types/markets';
+import type { HistoryEntry } from '../types/portfolio';
 import { OrderBuilder } from './builder';
 import { OrderSigner } from './signer';
+import { OrderValidationError, validateSignatureConfig } from './validator';
+import { parseSignedOrderEnvelope } from './envelope';
+import {
+  InsufficientLiquidityError,
+  buildOrderPreview,
+  orientOrderBook,
+  quoteMarketOrder,
+} from './preview';
 import type { ethers } from 'ethers';
 import type { UserData } from '../types/auth';
+import type { OrderSigningBackend } from '../types/signing';
 import { ZERO_ADDRESS } from '../utils/constants';
 import { toFiniteInteger, toFiniteNumber } from '../utils/number-flex';
 import { MarketFetcher } from '../markets/fetcher';
 import { PortfolioFetcher } from '../portfolio/fetcher';
+import type { NonceManager } from './nonce-manager';
+import { toRiskOrder, type RiskManager } from './risk-manager';
+import {
+  DeadMansSwitch,
+  type DeadMansSwitchConfig,
+  type DeadMansSwitchTrip,
+} from './dead-mans-switch';
+
+/**
+ * Default number of concurrent requests for batch operations.
+ */
+const DEFAULT_BATCH_CONCURRENCY = 5;
+
+/**
+ * Longest delay supported by setTimeout; later expirations are re-armed.
+ */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+/**
+ * Allowed clock skew when matching fills to a submission time.
+ */
+const FILL_MATCH_SKEW_MS = 60_000;
+
+/**
+ * Number of recent history entries checked during reconciliation.
+ */
+const RECONCILE_HISTORY_LIMIT = 50;
+
+/**
+ * Unsigned order with its signing config and risk reservation.
+ */
+interface PreparedOrder {
+  unsignedOrder: UnsignedOrder;
+  signingConfig: OrderSigningConfig;
+  /** Risk reservation to release once the order is submitted or dropped */
+  reservation?: string;
+}
+
+/**
+ * Error raised when a cancel-replace fails.
+ *
+ * @remarks
+ * `leg` tells which step failed and therefore what state the orders are in:
+ * on `prepare` and `cancel` the original order is still resting and nothing new
+ * was submitted; on `submit` the original order is gone and no replacement exists.
+ *
+ * @public
+ */
+export class OrderReplaceError extends Error {
+  /**
+   * Leg that failed
+   */
+  public readonly leg: ReplaceOrderLeg;
+
+  /**
+   * ID of the order being replaced
+   */
+  public readonly orderId: string;
+
+  /**
+   * Whether the original order was cancelled before the failure
+   */
+  public readonly originalCancelled: boolean;
+
+  /**
+   * Underlying error
+   */
+  public readonly cause: Error;
+
+  constructor(leg: ReplaceOrderLeg, orderId: string, cause: Error) {
+    super(`Replace of order ${orderId} failed at ${leg} leg: ${cause.message}`);
+    this.name = 'OrderReplaceError';
+    this.leg = leg;
+    this.orderId = orderId;
+    this.originalCancelled = leg === 'submit';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Error raised when a retried client order is found to have already filled.
+ *
+ * @remarks
+ * The order is not resubmitted. `reconciliation.fills` lists the matching fills.
+ *
+ * @public
+ */
+export class DuplicateOrderError extends Error {
+  /**
+   * Client order ID of the retried order
+   */
+  public readonly clientOrderId: string;
+
+  /**
+   * Reconciliation that found the earlier submission
+   */
+  public readonly reconciliation: ClientOrderReconciliation;
+
+  constructor(reconciliation: ClientOrderReconciliation) {
+    super(
+      `Order ${reconciliation.clientOrderId} already filled ` +
+        `(${reconciliation.fills.length} matching fill(s)); not resubmitting`
+    );
+    this.name = 'DuplicateOrderError';
+    this.clientOrderId = reconciliation.clientOrderId;
+    this.reconciliation = reconciliation;
+  }
+}
+
+/**
+ * Checks whether a submission error leaves the order state unknown.
+ *
+ * @remarks
+ * Network errors and 5xx responses may hide an accepted order; 4xx responses are definitive.
+ */
+function isAmbiguousSubmitError(error: unknown): boolean {
+  return !(error instanceof APIError) || error.status >= 500;
+}
+
+/**
+ * Normalizes unknown thrown values to Error instances.
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Parses side values returned by the API (0/1, "0"/"1" or "BUY"/"SELL").
+ */
+function parseSide(value: unknown): Side | undefined {
+  if (value === 'BUY') {
+    return Side.BUY;
+  }
+  if (value === 'SELL') {
+    return Side.SELL;
+  }
+
+  const numeric = toFiniteInteger(value);
+  return numeric === Side.BUY || numeric === Side.SELL ? numeric : undefined;
+}
+
+/**
+ * Normalizes API order status, deriving it from fill progress when absent.
+ */
+function parseOrderStatus(value: unknown, filledSize: number, remainingSize: number): OrderStatus {
+  switch (typeof value === 'string' ? value.toUpperCase() : undefined) {
+    case 'OPEN':
+    case 'LIVE':
+      return filledSize > 0 ? 'PARTIALLY_FILLED' : 'OPEN';
+    case 'PARTIALLY_FILLED':
+      return 'PARTIALLY_FILLED';
+    case 'FILLED':
+    case 'MATCHED':
+      return 'FILLED';
+    case 'CANCELLED':
+    case 'CANCELED':
+      return 'CANCELLED';
+    case 'EXPIRED':
+      return 'EXPIRED';
+  }
+
+  if (remainingSize <= 0) {
+    return 'FILLED';
+  }
+  return filledSize > 0 ? 'PARTIALLY_FILLED' : 'OPEN';
+}
+
+/**
+ * Runs an async worker over items with bounded concurrency.
+ */
+async function mapWithConcurrency<T>(
+  items: T[],
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  const limit = Math.max(1, Math.floor(concurrency));
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+
+  await Promise.all(runners);
+}
 
 /**
  * Configuration for the order client.
@@ -43,9 +269,13 @@ export interface OrderClientConfig {
   httpClient: HttpClient;
 
   /**
-   * Wallet for signing orders with EIP-712
+   * Wallet or signing backend for signing orders with EIP-712
+   *
+   * @remarks
+   * Accepts an `ethers.Wallet`, any `ethers.Signer`, or an {@link OrderSigningBackend}
+   * such as {@link Eip1193SigningBackend} or {@link CallbackSigningBackend}.
    */
-  wallet: ethers.Wallet;
+  wallet: ethers.Signer | OrderSigningBackend;
 
   /**
    * Custom signing configuration (optional)
@@ -56,6 +286,23 @@ export interface OrderClientConfig {
    */
   signingConfig?: OrderSigningConfig;
 
+  /**
+   * Funder (maker) address for smart-contract wallets (optional)
+   *
+   * @remarks
+   * Set to the proxy or Gnosis Safe address that holds funds when the signing
+   * key is its owner EOA. Orders are built with `maker` = funder and
+   * `signer` = signing address. Requires a non-EOA `signatureType`.
+   * The funder address is also used for the profile lookup.
+   */
+  funderAddress?: string;
+
+  /**
+   * Signature type for produced orders
+   * @defaultValue SignatureType.EOA
+   */
+  signatureType?: SignatureType;
+
   /**
    * Shared MarketFetcher instance for venue caching (optional)
    *
@@ -84,6 +331,40 @@ export interface OrderClientConfig {
    */
   marketFetcher?: MarketFetcher;
 
+  /**
+   * Exchange nonce tracking (optional)
+   *
+   * @remarks
+   * When provided, orders without an explicit `nonce` are stamped with the maker's
+   * current nonce on the market's venue exchange, and
+   * {@link OrderClient.invalidateAllOrders} becomes available.
+   * Without it, orders default to nonce 0.
+   */
+  nonceManager?: NonceManager;
+
+  /**
+   * Pre-trade risk checks (optional)
+   *
+   * @remarks
+   * When provided, every order is checked against the {@link RiskManager} limits
+   * after it is built and before it is signed, and rejected with a
+   * `RiskLimitError` on a breach. Submitted and cancelled orders update its
+   * local open-order state.
+   */
+  riskManager?: RiskManager;
+
+  /**
+   * Cancel good-till-date orders when they expire
+   *
+   * @remarks
+   * GTC orders created with an `expiration` are tracked locally and emit
+   * `orderExpired` when they lapse. With this option the client also cancels them
+   * through the API first, so they no longer appear among open orders.
+   *
+   * @defaultValue false
+   */
+  autoCancelExpired?: boolean;
+
   /**
    * Optional logger
    */
@@ -103,6 +384,8 @@ export interface OrderClientConfig {
  * Uses dynamic venue addressing for EIP-712 order signing. For best performance,
  * always call marketFetcher.getMarket() before creating orders to cache venue data.
  *
+ * Emits {@link OrderClientEvents}, such as `orderExpired` for good-till-date orders.
+ *
  * @example
  * ```typescript
  * import { ethers } from 'ethers';
@@ -126,13 +409,27 @@ export interface OrderClientConfig {
  *
  * @public
  */
-export class OrderClient {
+export class OrderClient extends EventEmitter<OrderClientEvents> {
   private httpClient: HttpClient;
-  private wallet: ethers.Wallet;
+  private wallet: ethers.Signer | OrderSigningBackend;
+  private address?: string;
+  private funderAddress?: string;
+  private signatureType: SignatureType;
   private orderBuilder?: OrderBuilder;
   private orderSigner: OrderSigner;
   private marketFetcher: MarketFetcher;
+  private nonceManager?: NonceManager;
+  private riskManager?: RiskManager;
   private cachedUserData?: UserData;
+  private clientOrders: Map<string, ClientOrderRecord> = new Map();
+  private expiryTimers: Map<
+    string,
+    { marketSlug: string; expiration: number; timer: ReturnType<typeof setTimeout> }
+  > = new Map();
+  /** GTC orders submitted through this client, mapped to their market slug */
+  private restingOrders: Map<string, string> = new Map();
+  private deadMansSwitch?: { config: DeadMansSwitchConfig; timers: DeadMansSwitch };
+  private autoCancelExpired: boolean;
   private signingConfig: OrderSigningConfig;
   private logger: ILogger;
 
@@ -142,13 +439,35 @@ export class OrderClient {
    * @param config - Order client configuration
    */
   constructor(config: OrderClientConfig) {
+    super();
     this.httpClient = config.httpClient;
     this.wallet = config.wallet;
     this.logger = config.logger || new NoOpLogger();
 
+    // Wallets expose their address synchronously; other backends resolve it lazily
+    const walletAddress = (config.wallet as { address?: unknown }).address;
+    if (typeof walletAddress === 'string') {
+      this.address = walletAddress;
+    }
+
+    this.funderAddress = config.funderAddress;
+    this.signatureType = config.signatureType ?? SignatureType.EOA;
+
+    // Fail fast on impossible maker/signer combinations when the signer is known
+    if (this.address) {
+      validateSignatureConfig(this.funderAddress ?? this.address, this.address, this.signatureType);
+    } else if (this.signatureType !== SignatureType.EOA && !this.funderAddress) {
+      throw new OrderValidationError(
+        `${SignatureType[this.signatureType]} signature type requires funderAddress.`
+      );
+    }
+
     this.orderSigner = new OrderSigner(config.wallet, this.logger);
 
     this.marketFetcher = config.marketFetcher || new MarketFetcher(config.httpClient, this.logger);
+    this.nonceManager = config.nonceManager;
+    this.riskManager = config.riskManager;
+    this.autoCancelExpired = config.autoCancelExpired ?? false;
 
     // Configure signing: use provided config or auto-configure
     if (config.signingConfig) {
@@ -183,12 +502,15 @@ export class OrderClient {
    */
   private async ensureUserData(): Promise<UserData> {
     if (!this.cachedUserData) {
+      const signerAddress = await this.getWalletAddress();
+      const walletAddress = this.funderAddress ?? signerAddress;
+
       this.logger.info('Fetching user profile for order client initialization...', {
-        walletAddress: this.wallet.address,
+        walletAddress,
       });
 
       const portfolioFetcher = new PortfolioFetcher(this.httpClient);
-      const profile = await portfolioFetcher.getProfile(this.wallet.address);
+      const profile = await portfolioFetcher.getProfile(walletAddress);
 
       const userId = toFiniteInteger(profile.id);
       const feeRateBps = toFiniteInteger(profile.rank?.feeRateBps) ?? 300;
@@ -201,11 +523,10 @@ export class OrderClient {
         feeRateBps,
       };
 
-      this.orderBuilder = new OrderBuilder(
-        this.wallet.address,
-        this.cachedUserData.feeRateBps,
-        0.001
-      );
+      this.orderBuilder = new OrderBuilder(walletAddress, this.cachedUserData.feeRateBps, 0.001, {
+        signerAddress,
+        signatureType: this.signatureType,
+      });
 
       this.logger.info('Order Client initialized', {
         walletAddress: profile.account,
@@ -230,10 +551,17 @@ export class OrderClient {
    * Performance best practice: Always call marketFetcher.getMarket(marketSlug)
    * before createOrder() to cache venue data and avoid additional API requests.
    *
+   * With `params.clientOrderId`, the signed order is kept in a local registry.
+   * If submission fails with a network error or 5xx response, calling createOrder()
+   * again with the same ID first reconciles against open orders and recent fills
+   * (see {@link OrderClient.reconcileClientOrder}) and only resubmits the same
+   * signed order when nothing was found.
+   *
    * @param params - Order parameters
    * @returns Promise resolving to order response
    *
    * @throws Error if order creation fails or venue not found
+   * @throws DuplicateOrderError if a retried client order already filled
    *
    * @example
    * ```typescript
@@ -252,211 +580,1660 @@ export class OrderClient {
    * console.log(`Order created: ${order.order.id}`);
    * ```
    */
-  async createOrder(
-    params: OrderArgs & {
-      orderType: OrderType;
-      marketSlug: string;
-    }
-  ): Promise<OrderResponse> {
+  async createOrder(params: CreateOrderParams): Promise<OrderResponse> {
     // Ensure user data is loaded (lazy loading with cache)
     const userData = await this.ensureUserData();
 
+    if (params.clientOrderId !== undefined) {
+      return this.createClientOrder(params.clientOrderId, params, userData);
+    }
+
     this.logger.info('Creating order', {
       side: params.side,
       orderType: params.orderType,
       marketSlug: params.marketSlug,
     });
 
-    let venue = this.marketFetcher.getVenue(params.marketSlug);
+    const prepared = await this.prepareOrder(params);
+    const payload = await this.signPrepared(params, prepared, userData);
 
-    if (!venue) {
-      this.logger.warn(
-        'Venue not cached, fetching market details. ' +
-          'For better performance, call marketFetcher.getMarket() before createOrder().',
-        { marketSlug: params.marketSlug }
-      );
+    return this.submitPayload(payload, prepared.reservation);
+  }
 
-      const market = await this.marketFetcher.getMarket(params.marketSlug);
+  /**
+   * Creates an order with a client order ID, reconciling earlier attempts first.
+   *
+   * @internal
+   */
+  private async createClientOrder(
+    clientOrderId: string,
+    params: CreateOrderParams,
+    userData: UserData
+  ): Promise<OrderResponse> {
+    const existing = this.clientOrders.get(clientOrderId);
 
-      if (!market.venue) {
-        throw new Error(
-          `Market ${params.marketSlug} does not have venue information. ` +
-            'Venue data is required for order signing.'
+    if (existing && existing.status !== 'rejected') {
+      const previous = existing.payload;
+      if (
+        previous.marketSlug !== params.marketSlug ||
+        previous.orderType !== params.orderType ||
+        previous.order.tokenId !== params.tokenId ||
+        previous.order.side !== params.side
+      ) {
+        throw new OrderValidationError(
+          `clientOrderId ${clientOrderId} is already used by a different order`
         );
       }
 
-      venue = market.venue;
-    }
-
-    const dynamicSigningConfig: OrderSigningConfig = {
-      ...this.signingConfig,
-      contractAddress: venue.exchange,
-    };
-
-    this.logger.debug('Using venue for order signing', {
-      marketSlug: params.marketSlug,
-      exchange: venue.exchange,
-      adapter: venue.adapter,
-    });
-
-    const unsignedOrder = this.orderBuilder!.buildOrder(params);
+      switch (existing.status) {
+        case 'acknowledged':
+          return existing.response!;
+        case 'pending':
+          throw new OrderValidationError(`Order ${clientOrderId} is already being submitted`);
+        case 'filled':
+          throw new DuplicateOrderError({
+            clientOrderId,
+            status: 'filled',
+            fills: [],
+          });
+      }
 
-    this.logger.debug('Built unsigned order', {
-      salt: unsignedOrder.salt,
-      makerAmount: unsignedOrder.makerAmount,
-      takerAmount: unsignedOrder.takerAmount,
-    });
+      const reconciliation = await this.reconcileClientOrder(clientOrderId);
+      if (reconciliation.status === 'open') {
+        return existing.response!;
+      }
+      if (reconciliation.status === 'filled') {
+        throw new DuplicateOrderError(reconciliation);
+      }
 
-    const signature = await this.orderSigner.signOrder(unsignedOrder, dynamicSigningConfig);
+      // Limits may have moved since the first attempt: check the order again
+      const reservation = await this.riskManager?.reserveOrder(
+        toRiskOrder(previous.marketSlug, previous.orderType, previous.order)
+      );
 
-    // Step 3: Prepare payload for API
-    const postOnly =
-      params.orderType === OrderType.GTC &&
-      'postOnly' in params &&
-      params.postOnly !== undefined
-        ? params.postOnly
-        : undefined;
+      this.logger.info('Resubmitting client order after reconciliation', {
+        clientOrderId,
+        attempts: existing.attempts,
+      });
+      return this.submitClientOrder(existing, reservation);
+    }
 
-    const payload: NewOrderPayload = {
-      order: {
-        ...unsignedOrder,
-        signature,
-      },
-      orderType: params.orderType,
-      marketSlug: params.marketSlug,
-      ownerId: userData.userId,
-      ...(postOnly !== undefined ? { postOnly } : {}),
+    const prepared = await this.prepareOrder(params);
+    const payload = await this.signPrepared(params, prepared, userData);
+    const record: ClientOrderRecord = {
+      clientOrderId,
+      status: 'pending',
+      payload,
+      salt: payload.order.salt,
+      signature: payload.order.signature,
+      submittedAt: Date.now(),
+      attempts: 0,
     };
+    this.clientOrders.set(clientOrderId, record);
 
-    // Step 4: Submit to API
-    this.logger.debug('Submitting order to API', payload);
-    const apiResponse = await this.httpClient.post<any>('/orders', payload);
-
-    this.logger.info('Order created successfully', {
-      orderId: apiResponse.order.id,
-    });
-
-    // Step 5: Transform API response to clean DTO
-    return this.transformOrderResponse(apiResponse);
+    return this.submitClientOrder(record, prepared.reservation);
   }
 
   /**
-   * Transforms raw API response to clean OrderResponse DTO.
-   *
-   * @param apiResponse - Raw API response with nested objects
-   * @returns Clean OrderResponse with only essential fields
+   * Submits a registered client order and records the outcome.
    *
    * @internal
    */
-  private transformOrderResponse(apiResponse: any): OrderResponse {
-    const order = apiResponse.order;
-
-    const cleanOrder: OrderResponse = {
-      order: {
-        id: order.id,
-        createdAt: order.createdAt,
-        makerAmount: toFiniteNumber(order.makerAmount) ?? order.makerAmount,
-        takerAmount: toFiniteNumber(order.takerAmount) ?? order.takerAmount,
-        expiration: order.expiration,
-        signatureType: order.signatureType,
-        salt: toFiniteInteger(order.salt) ?? order.salt,
-        maker: order.maker,
-        signer: order.signer,
-        taker: order.taker,
-        tokenId: order.tokenId,
-        side: order.side,
-        feeRateBps: order.feeRateBps,
-        nonce: order.nonce,
-        signature: order.signature,
-        orderType: order.orderType,
-        price: order.price === undefined || order.price === null ? order.price : toFiniteNumber(order.price) ?? order.price,
-        marketId: order.marketId,
-      },
-    };
+  private async submitClientOrder(
+    record: ClientOrderRecord,
+    reservation?: string
+  ): Promise<OrderResponse> {
+    record.status = 'pending';
+    record.attempts += 1;
 
-    // Add maker matches if present (FOK or partial GTC fills)
-    if (apiResponse.makerMatches && apiResponse.makerMatches.length > 0) {
-      cleanOrder.makerMatches = apiResponse.makerMatches.map((match: any) => ({
-        id: match.id,
-        createdAt: match.createdAt,
-        matchedSize: match.matchedSize,
-        orderId: match.orderId,
-      }));
+    try {
+      const response = await this.submitPayload(record.payload, reservation);
+      record.status = 'acknowledged';
+      record.orderId = response.order.id;
+      record.response = response;
+      record.error = undefined;
+      return response;
+    } catch (error) {
+      record.status = isAmbiguousSubmitError(error) ? 'unknown' : 'rejected';
+      record.error = toError(error);
+      this.logger.warn('Client order submission failed', {
+        clientOrderId: record.clientOrderId,
+        status: record.status,
+        error: record.error.message,
+      });
+      throw error;
     }
-
-    return cleanOrder;
   }
 
   /**
-   * Cancels an existing order by ID.
+   * Checks whether an order with a client order ID reached the exchange.
    *
-   * @param orderId - Order ID to cancel
-   * @returns Promise resolving to cancellation message
+   * @remarks
+   * Looks for the signed order (by salt or signature) among the market's open orders,
+   * then for fills in recent portfolio history on the same market, side and outcome
+   * since the first submission. Trade history carries no order IDs, so any such fill
+   * is attributed to this order: reconciliation errs on the side of not resubmitting.
    *
-   * @throws Error if cancellation fails
+   * When the order was in an unknown state, the registry entry is updated to
+   * `acknowledged` (open) or `filled`.
+   *
+   * @param clientOrderId - Client order ID passed to `createOrder()`
+   * @returns Promise resolving to the reconciliation result
+   *
+   * @throws Error if the client order ID is not in the registry
    *
    * @example
    * ```typescript
-   * const result = await orderClient.cancel('order-id-123');
-   * console.log(result.message); // "Order canceled successfully"
+   * try {
+   *   await orderClient.createOrder({ ...params, clientOrderId: 'rebalance-42' });
+   * } catch (error) {
+   *   const result = await orderClient.reconcileClientOrder('rebalance-42');
+   *   console.log(result.status); // 'open' | 'filled' | 'not_found'
+   * }
    * ```
    */
-  async cancel(orderId: string): Promise<{ message: string }> {
-    this.logger.info('Cancelling order', { orderId });
+  async reconcileClientOrder(clientOrderId: string): Promise<ClientOrderReconciliation> {
+    const record = this.clientOrders.get(clientOrderId);
+    if (!record) {
+      throw new Error(`Unknown clientOrderId: ${clientOrderId}`);
+    }
 
-    const response = await this.httpClient.delete<{ message: string }>(`/orders/${orderId}`);
+    const { marketSlug, order } = record.payload;
+    const openOrders = await this.getOpenOrders({ marketSlug, tokenId: order.tokenId });
+    const signature = record.signature.toLowerCase();
+    const openOrder = openOrders.find(
+      (candidate) =>
+        String(candidate.salt) === String(record.salt) ||
+        candidate.signature?.toLowerCase() === signature
+    );
 
-    this.logger.info('Order cancellation response', {
-      orderId,
-      message: response.message,
-    });
+    if (openOrder) {
+      if (record.status === 'unknown') {
+        record.status = 'acknowledged';
+        record.orderId = openOrder.id;
+        record.response = { order: openOrder };
+      }
+      this.logger.info('Client order found among open orders', {
+        clientOrderId,
+        orderId: openOrder.id,
+      });
+      return { clientOrderId, status: 'open', order: openOrder, fills: [] };
+    }
 
-    return response;
+    const fills = await this.findRecentFills(record);
+    if (fills.length > 0) {
+      if (record.status === 'unknown') {
+        record.status = 'filled';
+      }
+      this.logger.info('Client order matched recent fills', {
+        clientOrderId,
+        fills: fills.length,
+      });
+      return { clientOrderId, status: 'filled', fills };
+    }
+
+    return { clientOrderId, status: 'not_found', fills: [] };
   }
 
   /**
-   * Cancels all orders for a specific market.
+   * Gets the registry entry for a client order ID.
    *
-   * @param marketSlug - Market slug to cancel all orders for
-   * @returns Promise resolving to cancellation message
-   *
-   * @throws Error if cancellation fails
-   *
-   * @example
-   * ```typescript
-   * const result = await orderClient.cancelAll('market-slug-123');
-   * console.log(result.message); // "Orders canceled successfully"
-   * ```
+   * @param clientOrderId - Client order ID passed to `createOrder()`
+   * @returns Registry entry, or undefined if unknown
    */
-  async cancelAll(marketSlug: string): Promise<{ message: string }> {
-    this.logger.info('Cancelling all orders for market', { marketSlug });
+  getClientOrder(clientOrderId: string): ClientOrderRecord | undefined {
+    return this.clientOrders.get(clientOrderId);
+  }
 
-    const response = await this.httpClient.delete<{ message: string }>(`/orders/all/${marketSlug}`);
+  /**
+   * Finds recent history fills on the same market, side and outcome as a client order.
+   *
+   * @internal
+   */
+  private async findRecentFills(record: ClientOrderRecord): Promise<HistoryEntry[]> {
+    const { marketSlug, order } = record.payload;
+    const tokens = this.marketFetcher.getTokens(marketSlug);
+    const outcomeIndex =
+      tokens?.yes === order.tokenId ? 0 : tokens?.no === order.tokenId ? 1 : undefined;
+    const sideLabel = order.side === Side.BUY ? 'buy' : 'sell';
+    const since = record.submittedAt - FILL_MATCH_SKEW_MS;
 
-    this.logger.info('All orders cancellation response', {
-      marketSlug,
-      message: response.message,
-    });
+    const portfolioFetcher = new PortfolioFetcher(this.httpClient, this.logger);
+    const history = await portfolioFetcher.getUserHistory(undefined, RECONCILE_HISTORY_LIMIT);
 
-    return response;
+    return history.data.filter(
+      (entry) =>
+        entry.market?.slug === marketSlug &&
+        entry.blockTimestamp * 1000 >= since &&
+        (entry.strategy ?? '').toLowerCase().includes(sideLabel) &&
+        (outcomeIndex === undefined || entry.outcomeIndex === outcomeIndex)
+    );
   }
 
   /**
-   * Builds an unsigned order without submitting.
+   * Previews an order against the current orderbook without signing or submitting it.
    *
    * @remarks
-   * Useful for advanced use cases where you need the unsigned order
-   * before signing and submission.
+   * Builds the order with the same tick-aligned math as `createOrder()`, fetches the
+   * market orderbook and estimates the immediate fills, collateral, shares and fee.
+   * For FOK orders, `fullyFillable` reports whether the book can fill the order at all.
    *
    * @param params - Order parameters
-   * @returns Promise resolving to unsigned order
+   * @returns Promise resolving to the order preview
+   *
+   * @throws Error if the order arguments are invalid or the orderbook request fails
    *
    * @example
    * ```typescript
-   * const unsignedOrder = await orderClient.buildUnsignedOrder({
-   *   tokenId: '123456',
-   *   price: 0.65,
-   *   size: 100,
+   * const preview = await orderClient.previewOrder({
+   *   tokenId: market.tokens.yes,
+   *   makerAmount: 50,
+   *   side: Side.BUY,
+   *   orderType: OrderType.FOK,
+   *   marketSlug,
+   * });
+   *
+   * if (!preview.fullyFillable) {
+   *   console.warn(`Only ${preview.filledCollateral} USDC would fill`);
+   * }
+   * console.log(`~${preview.shares} shares @ ${preview.averageFillPrice}, fee ${preview.fee}`);
+   * ```
+   */
+  async previewOrder(params: CreateOrderParams): Promise<OrderPreview> {
+    await this.ensureUserData();
+
+    const constraints = await this.resolveOrderConstraints(params.marketSlug);
+    const orderBook = await this.marketFetcher.getOrderBook(params.marketSlug);
+    const unsignedOrder = this.orderBuilder!.buildOrder(params, constraints);
+    const preview = buildOrderPreview(params, unsignedOrder, orderBook);
+
+    this.logger.debug('Order preview', {
+      marketSlug: params.marketSlug,
+      collateral: preview.collateral,
+      shares: preview.shares,
+      fullyFillable: preview.fullyFillable,
+    });
+
+    return preview;
+  }
+
+  /**
+   * Buys an outcome with a slippage-protected market order.
+   *
+   * @remarks
+   * Walks the asks from `MarketFetcher.getOrderBook()`, derives the worst acceptable
+   * price from the best ask and `maxSlippageBps`, and submits:
+   * - FAK (default): a limit order at the worst price sized so its cost fits in `amount`;
+   *   the exchange never fills above the limit and kills the rest
+   * - FOK: the same limit order, submitted only when the current book fills the whole
+   *   amount within the limit; the exchange fills it entirely or not at all
+   *
+   * @param marketSlug - Market slug identifier
+   * @param outcome - Outcome to buy
+   * @param amount - USDC to spend
+   * @param options - Slippage limit and order type
+   * @returns Promise resolving to the quote and order response
+   *
+   * @throws OrderValidationError if the amount, slippage or order type is invalid
+   * @throws InsufficientLiquidityError if the book cannot fill within the limit price
+   *
+   * @example
+   * ```typescript
+   * const { quote, response } = await orderClient.marketBuy('btc-100k', 'YES', 25, {
+   *   maxSlippageBps: 150,
+   * });
+   * console.log(`Limit ${quote.limitPrice}, matched: ${response.makerMatches?.length ?? 0}`);
+   * ```
+   */
+  async marketBuy(
+    marketSlug: string,
+    outcome: MarketOrderOutcome,
+    amount: number,
+    options: MarketOrderOptions
+  ): Promise<MarketOrderResult> {
+    return this.placeMarketOrder(marketSlug, outcome, Side.BUY, amount, options);
+  }
+
+  /**
+   * Sells an outcome with a slippage-protected market order.
+   *
+   * @remarks
+   * Same as {@link OrderClient.marketBuy}, walking the bids; the limit price is the
+   * lowest acceptable price.
+   *
+   * @param marketSlug - Market slug identifier
+   * @param outcome - Outcome to sell
+   * @param amount - Shares to sell
+   * @param options - Slippage limit and order type
+   * @returns Promise resolving to the quote and order response
+   *
+   * @throws OrderValidationError if the amount, slippage or order type is invalid
+   * @throws InsufficientLiquidityError if the book cannot fill within the limit price
+   */
+  async marketSell(
+    marketSlug: string,
+    outcome: MarketOrderOutcome,
+    amount: number,
+    options: MarketOrderOptions
+  ): Promise<MarketOrderResult> {
+    return this.placeMarketOrder(marketSlug, outcome, Side.SELL, amount, options);
+  }
+
+  /**
+   * Quotes a market order from the live orderbook and submits it.
+   *
+   * @internal
+   */
+  private async placeMarketOrder(
+    marketSlug: string,
+    outcome: MarketOrderOutcome,
+    side: Side,
+    amount: number,
+    options: MarketOrderOptions
+  ): Promise<MarketOrderResult> {
+    const orderType = options.orderType ?? OrderType.FAK;
+    if (orderType !== OrderType.FAK && orderType !== OrderType.FOK) {
+      throw new OrderValidationError(
+        `Invalid orderType: ${orderType}. Market orders support FAK or FOK.`
+      );
+    }
+
+    const tokenId = await this.resolveOutcomeToken(marketSlug, outcome);
+    const { tickSize } = await this.resolveOrderConstraints(marketSlug);
+    const orderBook = await this.marketFetcher.getOrderBook(marketSlug);
+    const quote = quoteMarketOrder(
+      orientOrderBook(orderBook, tokenId),
+      side,
+      amount,
+      options.maxSlippageBps,
+      tickSize
+    );
+
+    if (orderType === OrderType.FOK && !quote.fullyFillable) {
+      throw new InsufficientLiquidityError(
+        `Orderbook cannot fill ${amount} within limit price ${quote.limitPrice} ` +
+          `(available: ${side === Side.BUY ? quote.filledCollateral : quote.filledShares})`,
+        side,
+        quote.limitPrice
+      );
+    }
+
+    this.logger.info('Placing market order', {
+      marketSlug,
+      outcome,
+      side,
+      orderType,
+      bestPrice: quote.bestPrice,
+      limitPrice: quote.limitPrice,
+    });
+
+    // Both types are signed as limit orders so the exchange enforces the limit price
+    const response = await this.createOrder({
+      tokenId,
+      side,
+      price: quote.limitPrice,
+      size: quote.size,
+      orderType,
+      marketSlug,
+    });
+
+    return { tokenId, quote, response };
+  }
+
+  /**
+   * Resolves the token ID of a binary market outcome.
+   *
+   * @internal
+   */
+  private async resolveOutcomeToken(
+    marketSlug: string,
+    outcome: MarketOrderOutcome
+  ): Promise<string> {
+    const tokens =
+      this.marketFetcher.getTokens(marketSlug) ??
+      (await this.marketFetcher.getMarket(marketSlug)).tokens;
+
+    if (!tokens) {
+      throw new Error(
+        `Market ${marketSlug} has no outcome tokens. ` +
+          'For group markets, trade the nested market slug instead.'
+      );
+    }
+
+    switch (outcome) {
+      case 'YES':
+        return tokens.yes;
+      case 'NO':
+        return tokens.no;
+      default:
+        throw new OrderValidationError(`Invalid outcome: ${outcome}. Must be YES or NO.`);
+    }
+  }
+
+  /**
+   * Creates and submits multiple orders.
+   *
+   * @remarks
+   * All orders are built and signed up front, then submitted concurrently
+   * (bounded by `options.concurrency`). A failure on one order does not abort
+   * the others: every input gets an entry in the returned array, in input order,
+   * describing either the created order or the stage (build, sign, submit) at
+   * which it failed. Entries with a `clientOrderId` fail at the build stage with
+   * an {@link OrderValidationError}; use createOrder() for idempotent submission.
+   *
+   * @param orders - Order parameters, one entry per order
+   * @param options - Batch options
+   * @returns Promise resolving to per-order results in input order
+   *
+   * @example
+   * ```typescript
+   * const results = await orderClient.createOrders([
+   *   { tokenId: yesId, price: 0.45, size: 10, side: Side.BUY, orderType: OrderType.GTC, marketSlug },
+   *   { tokenId: noId, price: 0.5, size: 10, side: Side.BUY, orderType: OrderType.GTC, marketSlug },
+   * ]);
+   *
+   * for (const result of results) {
+   *   if (result.success) {
+   *     console.log(`Order ${result.index} created: ${result.response.order.id}`);
+   *   } else {
+   *     console.error(`Order ${result.index} failed at ${result.stage}: ${result.error.message}`);
+   *   }
+   * }
+   * ```
+   */
+  async createOrders(
+    orders: CreateOrderParams[],
+    options: BatchOptions = {}
+  ): Promise<BatchOrderResult[]> {
+    const userData = await this.ensureUserData();
+    const results: BatchOrderResult[] = new Array(orders.length);
+    const signed: Array<{ index: number; payload: NewOrderPayload; reservation?: string }> = [];
+
+    this.logger.info('Creating order batch', { count: orders.length });
+
+    for (let index = 0; index < orders.length; index++) {
+      const params = orders[index];
+      let stage: BatchOrderStage = 'build';
+
+      try {
+        if (params.clientOrderId !== undefined) {
+          throw new OrderValidationError(
+            'clientOrderId is not supported in batches; ' +
+              'use createOrder() for idempotent submission'
+          );
+        }
+        const prepared = await this.prepareOrder(params);
+        stage = 'sign';
+        signed.push({
+          index,
+          payload: await this.signPrepared(params, prepared, userData),
+          reservation: prepared.reservation,
+        });
+      } catch (error) {
+        results[index] = { index, success: false, stage, error: toError(error) };
+      }
+    }
+
+    await mapWithConcurrency(
+      signed,
+      options.concurrency,
+      async ({ index, payload, reservation }) => {
+        try {
+          const response = await this.submitPayload(payload, reservation);
+          results[index] = { index, success: true, response };
+        } catch (error) {
+          results[index] = { index, success: false, stage: 'submit', error: toError(error) };
+        }
+      }
+    );
+
+    this.logger.info('Order batch completed', {
+      count: orders.length,
+      failed: results.filter((result) => !result.success).length,
+    });
+
+    return results;
+  }
+
+  /**
+   * Submits an order that was signed elsewhere.
+   *
+   * @remarks
+   * Accepts an envelope from `createSignedOrderEnvelope()` (or its JSON form).
+   * The envelope and signed order are checked with `validateSignedOrder` before
+   * anything is posted. When the envelope records its signing config, the chain ID
+   * and verifying contract are also checked against this client and the market venue.
+   *
+   * @param envelope - Signed-order envelope or its JSON serialization
+   * @returns Promise resolving to order response
+   *
+   * @throws OrderValidationError if the envelope is invalid or signed for another venue
+   *
+   * @example
+   * ```typescript
+   * // Hot server
+   * const envelope = fs.readFileSync('order.json', 'utf8');
+   * const order = await orderClient.submitSignedOrder(envelope);
+   * ```
+   */
+  async submitSignedOrder(envelope: SignedOrderEnvelope | string): Promise<OrderResponse> {
+    const parsed = parseSignedOrderEnvelope(envelope);
+
+    this.logger.info('Submitting pre-signed order', {
+      marketSlug: parsed.marketSlug,
+      orderType: parsed.orderType,
+      salt: parsed.order.salt,
+    });
+
+    if (parsed.signingConfig) {
+      const venue = await this.resolveVenue(parsed.marketSlug);
+
+      if (parsed.signingConfig.contractAddress.toLowerCase() !== venue.exchange.toLowerCase()) {
+        throw new OrderValidationError(
+          `Order was signed for exchange ${parsed.signingConfig.contractAddress}, ` +
+            `but market ${parsed.marketSlug} uses ${venue.exchange}`
+        );
+      }
+
+      if (parsed.signingConfig.chainId !== this.signingConfig.chainId) {
+        throw new OrderValidationError(
+          `Order was signed for chain ${parsed.signingConfig.chainId}, ` +
+            `but this client targets chain ${this.signingConfig.chainId}`
+        );
+      }
+    }
+
+    const payload: NewOrderPayload = {
+      order: parsed.order,
+      orderType: parsed.orderType,
+      marketSlug: parsed.marketSlug,
+      ownerId: parsed.ownerId,
+      ...(parsed.postOnly !== undefined ? { postOnly: parsed.postOnly } : {}),
+    };
+
+    const reservation = await this.riskManager?.reserveOrder(
+      toRiskOrder(payload.marketSlug, payload.orderType, payload.order)
+    );
+
+    return this.submitPayload(payload, reservation);
+  }
+
+  /**
+   * Atomically replaces a resting order with a new one (cancel-replace).
+   *
+   * @remarks
+   * The replacement is built and signed before anything is sent, so a bad price
+   * or signer failure leaves the original order untouched. The original order is
+   * then cancelled, and the replacement is submitted only after the cancel
+   * succeeds, which avoids double exposure. Failures are raised as
+   * {@link OrderReplaceError} with the failing `leg`.
+   *
+   * The original order is fetched first; a replacement for a different market
+   * or token is rejected in the `prepare` leg with an {@link OrderValidationError}.
+   * Venue resolution uses `marketSlug` exactly like createOrder().
+   *
+   * @param orderId - ID of the resting order to replace
+   * @param params - Replacement order parameters
+   * @returns Promise resolving to cancellation and replacement details
+   *
+   * @throws OrderReplaceError if any leg fails
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   const result = await orderClient.replaceOrder(order.order.id, {
+   *     tokenId: market.tokens.yes,
+   *     price: 0.66,
+   *     size: 100,
+   *     side: Side.BUY,
+   *     marketSlug: 'bitcoin-2024',
+   *   });
+   *   console.log(`Replaced with ${result.order.order.id}`);
+   * } catch (error) {
+   *   if (error instanceof OrderReplaceError && error.originalCancelled) {
+   *     console.warn('Original cancelled but replacement rejected');
+   *   }
+   * }
+   * ```
+   */
+  async replaceOrder(orderId: string, params: ReplaceOrderParams): Promise<ReplaceOrderResult> {
+    const createParams: CreateOrderParams = {
+      ...params,
+      orderType: params.orderType ?? OrderType.GTC,
+    };
+
+    this.logger.info('Replacing order', {
+      orderId,
+      marketSlug: createParams.marketSlug,
+      orderType: createParams.orderType,
+    });
+
+    let payload: NewOrderPayload;
+    let reservation: string | undefined;
+    try {
+      if (createParams.clientOrderId !== undefined) {
+        throw new OrderValidationError(
+          'clientOrderId is not supported by replaceOrder(); ' +
+            'use createOrder() for idempotent submission'
+        );
+      }
+      const userData = await this.ensureUserData();
+      const original = await this.getOrder(orderId);
+      if (
+        String(original.tokenId) !== createParams.tokenId ||
+        (original.marketSlug !== undefined && original.marketSlug !== createParams.marketSlug)
+      ) {
+        throw new OrderValidationError(
+          `Replacement must target the original order's market and token ` +
+            `(${original.marketSlug ?? createParams.marketSlug}, token ${original.tokenId})`
+        );
+      }
+      const prepared = await this.prepareOrder(createParams, orderId);
+      payload = await this.signPrepared(createParams, prepared, userData);
+      reservation = prepared.reservation;
+    } catch (error) {
+      throw this.replaceFailure('prepare', orderId, error);
+    }
+
+    let cancelMessage: string;
+    try {
+      cancelMessage = (await this.cancel(orderId)).message;
+    } catch (error) {
+      this.releaseReservation(reservation);
+      throw this.replaceFailure('cancel', orderId, error);
+    }
+
+    try {
+      const order = await this.submitPayload(payload, reservation);
+      return { cancelledOrderId: orderId, cancelMessage, order };
+    } catch (error) {
+      throw this.replaceFailure('submit', orderId, error);
+    }
+  }
+
+  /**
+   * Logs and wraps a cancel-replace failure.
+   *
+   * @internal
+   */
+  private replaceFailure(leg: ReplaceOrderLeg, orderId: string, error: unknown): OrderReplaceError {
+    const replaceError = new OrderReplaceError(leg, orderId, toError(error));
+    this.logger.error('Order replace failed', replaceError, { orderId, leg });
+    return replaceError;
+  }
+
+  /**
+   * Resolves venue for a market from cache, fetching the market when missing.
+   *
+   * @param marketSlug - Market slug identifier
+   * @returns Promise resolving to market venue
+   *
+   * @throws Error if the market has no venue information
+   *
+   * @internal
+   */
+  private async resolveVenue(marketSlug: string): Promise<Venue> {
+    const venue = this.marketFetcher.getVenue(marketSlug);
+    if (venue) {
+      return venue;
+    }
+
+    this.logger.warn(
+      'Venue not cached, fetching market details. ' +
+        'For better performance, call marketFetcher.getMarket() before createOrder().',
+      { marketSlug }
+    );
+
+    const market = await this.marketFetcher.getMarket(marketSlug);
+
+    if (!market.venue) {
+      throw new Error(
+        `Market ${marketSlug} does not have venue information. ` +
+          'Venue data is required for order signing.'
+      );
+    }
+
+    return market.venue;
+  }
+
+  /**
+   * Resolves tick size, minimum size and max spread for a market.
+   *
+   * @remarks
+   * Uses constraints cached by `MarketFetcher` from market settings or the orderbook,
+   * fetching the market (which also caches its venue) on first use.
+   *
+   * @param marketSlug - Market slug identifier
+   * @returns Promise resolving to market order constraints
+   *
+   * @internal
+   */
+  private async resolveOrderConstraints(marketSlug: string): Promise<MarketOrderConstraints> {
+    const cached = this.marketFetcher.getOrderConstraints(marketSlug);
+    if (cached) {
+      return cached;
+    }
+
+    await this.marketFetcher.getMarket(marketSlug);
+    if (!this.marketFetcher.getOrderConstraints(marketSlug)) {
+      // Market without settings: fall back to the orderbook's minSize/maxSpread
+      await this.marketFetcher.getOrderBook(marketSlug);
+    }
+
+    const constraints = this.marketFetcher.getOrderConstraints(marketSlug);
+    if (!constraints) {
+      throw new Error(`Could not resolve order constraints for market ${marketSlug}`);
+    }
+
+    this.logger.debug('Resolved market order constraints', { marketSlug, ...constraints });
+    return constraints;
+  }
+
+  /**
+   * Resolves the venue and builds an unsigned order with its signing config.
+   *
+   * With a risk manager, the order's notional is reserved once it passes the
+   * risk checks; the reservation is released by `signPrepared()` or `submitPayload()`.
+   *
+   * @param params - Order parameters
+   * @param replacesOrderId - Order being replaced, excluded from risk exposure
+   * @returns Promise resolving to unsigned order, venue-specific signing config and reservation
+   *
+   * @throws RiskLimitError if the order breaches a configured risk limit
+   *
+   * @internal
+   */
+  private async prepareOrder(
+    params: CreateOrderParams,
+    replacesOrderId?: string
+  ): Promise<PreparedOrder> {
+    const constraints = await this.resolveOrderConstraints(params.marketSlug);
+    const venue = await this.resolveVenue(params.marketSlug);
+
+    const signingConfig: OrderSigningConfig = {
+      ...this.signingConfig,
+      contractAddress: venue.exchange,
+    };
+
+    this.logger.debug('Using venue for order signing', {
+      marketSlug: params.marketSlug,
+      exchange: venue.exchange,
+      adapter: venue.adapter,
+    });
+
+    let unsignedOrder = this.orderBuilder!.buildOrder(params, constraints);
+    const reservation = await this.riskManager?.reserveOrder(
+      toRiskOrder(params.marketSlug, params.orderType, unsignedOrder, replacesOrderId)
+    );
+    if (this.nonceManager && params.nonce === undefined) {
+      try {
+        unsignedOrder = await this.nonceManager.stampOrder(unsignedOrder, venue.exchange);
+      } catch (error) {
+        this.releaseReservation(reservation);
+        throw error;
+      }
+    }
+
+    this.logger.debug('Built unsigned order', {
+      salt: unsignedOrder.salt,
+      nonce: unsignedOrder.nonce,
+      makerAmount: unsignedOrder.makerAmount,
+      takerAmount: unsignedOrder.takerAmount,
+    });
+
+    return { unsignedOrder, signingConfig, reservation };
+  }
+
+  /**
+   * Signs a prepared order and assembles its payload, releasing the order's
+   * risk reservation when signing fails.
+   *
+   * @internal
+   */
+  private async signPrepared(
+    params: CreateOrderParams,
+    prepared: PreparedOrder,
+    userData: UserData
+  ): Promise<NewOrderPayload> {
+    try {
+      const signature = await this.orderSigner.signOrder(
+        prepared.unsignedOrder,
+        prepared.signingConfig
+      );
+      return this.assemblePayload(params, prepared.unsignedOrder, signature, userData);
+    } catch (error) {
+      this.releaseReservation(prepared.reservation);
+      throw error;
+    }
+  }
+
+  /**
+   * Releases a risk reservation taken by `prepareOrder()`.
+   *
+   * @internal
+   */
+  private releaseReservation(reservation: string | undefined): void {
+    if (reservation !== undefined) {
+      this.riskManager?.releaseReservation(reservation);
+    }
+  }
+
+  /**
+   * Assembles the API payload for a signed order.
+   *
+   * @param params - Order parameters
+   * @param unsignedOrder - Built order
+   * @param signature - EIP-712 signature
+   * @param userData - Cached user data
+   * @returns Payload ready for submission
+   *
+   * @internal
+   */
+  private assemblePayload(
+    params: CreateOrderParams,
+    unsignedOrder: UnsignedOrder,
+    signature: string,
+    userData: UserData
+  ): NewOrderPayload {
+    const postOnly =
+      params.orderType === OrderType.GTC &&
+      'postOnly' in params &&
+      params.postOnly !== undefined
+        ? params.postOnly
+        : undefined;
+
+    return {
+      order: {
+        ...unsignedOrder,
+        signature,
+      },
+      orderType: params.orderType,
+      marketSlug: params.marketSlug,
+      ownerId: userData.userId,
+      ...(postOnly !== undefined ? { postOnly } : {}),
+    };
+  }
+
+  /**
+   * Submits a signed order payload and normalizes the response.
+   *
+   * @param payload - Signed order payload
+   * @param reservation - Risk reservation of the order, released once the API answers
+   * @returns Promise resolving to order response
+   *
+   * @internal
+   */
+  private async submitPayload(
+    payload: NewOrderPayload,
+    reservation?: string
+  ): Promise<OrderResponse> {
+    this.logger.debug('Submitting order to API', payload);
+    let apiResponse: any;
+    try {
+      apiResponse = await this.httpClient.post<any>('/orders', payload);
+    } finally {
+      // Submitted GTC orders are recorded as open below, in the same step
+      this.releaseReservation(reservation);
+    }
+
+    this.logger.info('Order created successfully', {
+      orderId: apiResponse.order.id,
+    });
+
+    const response = this.transformOrderResponse(apiResponse);
+    this.riskManager?.recordOrder(
+      response.order.id,
+      toRiskOrder(payload.marketSlug, payload.orderType, payload.order)
+    );
+    if (payload.orderType === OrderType.GTC) {
+      this.restingOrders.set(response.order.id, payload.marketSlug);
+    }
+    if (payload.orderType === OrderType.GTC && payload.order.expiration !== '0') {
+      this.trackExpiry(response.order.id, payload.marketSlug, Number(payload.order.expiration));
+    }
+
+    return response;
+  }
+
+  /**
+   * Schedules the local expiry of a good-till-date order.
+   *
+   * @internal
+   */
+  private trackExpiry(orderId: string, marketSlug: string, expiration: number): void {
+    const existing = this.expiryTimers.get(orderId);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const delay = Math.min(Math.max(expiration * 1000 - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    const timer = setTimeout(() => void this.handleExpiry(orderId), delay);
+    // Expiry tracking alone should not keep the process alive
+    (timer as { unref?: () => void }).unref?.();
+
+    this.expiryTimers.set(orderId, { marketSlug, expiration, timer });
+  }
+
+  /**
+   * Emits `orderExpired` for a lapsed order, cancelling it first when configured.
+   *
+   * @internal
+   */
+  private async handleExpiry(orderId: string): Promise<void> {
+    const entry = this.expiryTimers.get(orderId);
+    if (!entry) {
+      return;
+    }
+
+    const { marketSlug, expiration } = entry;
+    if (expiration * 1000 > Date.now()) {
+      // Expiration was beyond the longest timer delay
+      this.trackExpiry(orderId, marketSlug, expiration);
+      return;
+    }
+
+    this.expiryTimers.delete(orderId);
+    this.restingOrders.delete(orderId);
+    this.logger.info('Order expired', { orderId, marketSlug, expiration });
+
+    let cancelled = false;
+    let error: Error | undefined;
+    if (this.autoCancelExpired) {
+      try {
+        await this.cancel(orderId);
+        cancelled = true;
+      } catch (cancelError) {
+        error = toError(cancelError);
+        this.logger.warn('Failed to cancel expired order', { orderId, error: error.message });
+      }
+    }
+
+    this.emit('orderExpired', {
+      orderId,
+      marketSlug,
+      expiration,
+      cancelled,
+      ...(error ? { error } : {}),
+    });
+  }
+
+  /**
+   * Transforms raw API response to clean OrderResponse DTO.
+   *
+   * @param apiResponse - Raw API response with nested objects
+   * @returns Clean OrderResponse with only essential fields
+   *
+   * @internal
+   */
+  private transformOrderResponse(apiResponse: any): OrderResponse {
+    const cleanOrder: OrderResponse = {
+      order: this.transformOrder(apiResponse.order),
+    };
+
+    // Add maker matches if present (FOK or partial GTC fills)
+    if (apiResponse.makerMatches && apiResponse.makerMatches.length > 0) {
+      cleanOrder.makerMatches = apiResponse.makerMatches.map((match: any) => ({
+        id: match.id,
+        createdAt: match.createdAt,
+        matchedSize: match.matchedSize,
+        orderId: match.orderId,
+      }));
+    }
+
+    return cleanOrder;
+  }
+
+  /**
+   * Normalizes a raw API order to a clean CreatedOrder DTO.
+   *
+   * @param order - Raw order object from API
+   * @returns Clean order with numeric amounts
+   *
+   * @internal
+   */
+  private transformOrder(order: any): CreatedOrder {
+    return {
+      id: order.id,
+      createdAt: order.createdAt,
+      makerAmount: toFiniteNumber(order.makerAmount) ?? order.makerAmount,
+      takerAmount: toFiniteNumber(order.takerAmount) ?? order.takerAmount,
+      expiration: order.expiration,
+      signatureType: order.signatureType,
+      salt: toFiniteInteger(order.salt) ?? order.salt,
+      maker: order.maker,
+      signer: order.signer,
+      taker: order.taker,
+      tokenId: order.tokenId,
+      side: order.side,
+      feeRateBps: order.feeRateBps,
+      nonce: order.nonce,
+      signature: order.signature,
+      orderType: order.orderType,
+      price:
+        order.price === undefined || order.price === null
+          ? order.price
+          : (toFiniteNumber(order.price) ?? order.price),
+      marketId: order.marketId,
+    };
+  }
+
+  /**
+   * Normalizes a raw API order to an OrderDetails DTO with fill progress.
+   *
+   * @remarks
+   * Size fields fall back to the order amounts when the API omits them:
+   * original size is `takerAmount` for BUY and `makerAmount` for SELL.
+   *
+   * @param raw - Raw order object from API
+   * @param marketSlug - Market slug, when known from the query
+   * @returns Order details with status and sizes
+   *
+   * @internal
+   */
+  private transformOrderDetails(raw: any, marketSlug?: string): OrderDetails {
+    const order = this.transformOrder(raw);
+    const side = parseSide(raw.side) ?? order.side;
+
+    const size =
+      toFiniteNumber(raw.originalSize) ??
+      toFiniteNumber(raw.size) ??
+      (side === Side.BUY ? order.takerAmount : order.makerAmount);
+    const reportedFilled = toFiniteNumber(raw.filledSize ?? raw.filled);
+    const remainingSize =
+      toFiniteNumber(raw.remainingSize) ??
+      (reportedFilled !== undefined ? Math.max(size - reportedFilled, 0) : size);
+    const filledSize = reportedFilled ?? Math.max(size - remainingSize, 0);
+
+    const slug = marketSlug ?? raw.marketSlug ?? raw.market?.slug;
+
+    return {
+      ...order,
+      side,
+      status: parseOrderStatus(raw.status, filledSize, remainingSize),
+      size,
+      filledSize,
+      remainingSize,
+      ...(slug ? { marketSlug: slug } : {}),
+    };
+  }
+
+  /**
+   * Gets open orders, optionally filtered by market, token and side.
+   *
+   * @remarks
+   * With `marketSlug`, orders are read from the market's user-orders endpoint.
+   * Without it, live orders are collected across all CLOB positions in the
+   * portfolio. Only OPEN and PARTIALLY_FILLED orders are returned.
+   *
+   * @param params - Query filters
+   * @returns Promise resolving to open orders
+   *
+   * @throws Error if API request fails
+   *
+   * @example
+   * ```typescript
+   * const orders = await orderClient.getOpenOrders({
+   *   marketSlug: 'bitcoin-2024',
+   *   side: Side.BUY,
+   * });
+   *
+   * for (const order of orders) {
+   *   console.log(`${order.id}: ${order.filledSize}/${order.size} filled`);
+   * }
+   * ```
+   */
+  async getOpenOrders(params: OpenOrdersParams = {}): Promise<OrderDetails[]> {
+    this.logger.debug('Fetching open orders', { ...params });
+
+    const orders = params.marketSlug
+      ? await this.fetchMarketOrders(params.marketSlug)
+      : await this.fetchPortfolioOrders();
+
+    return orders.filter(
+      (order) =>
+        (order.status === 'OPEN' || order.status === 'PARTIALLY_FILLED') &&
+        (params.tokenId === undefined || order.tokenId === params.tokenId) &&
+        (params.side === undefined || order.side === params.side)
+    );
+  }
+
+  /**
+   * Gets a single order by ID via `GET /orders/{orderId}`.
+   *
+   * @param orderId - Order ID (URL-encoded into the path)
+   * @returns Promise resolving to order details
+   *
+   * @throws Error if API request fails or order not found
+   *
+   * @example
+   * ```typescript
+   * const order = await orderClient.getOrder('order-id-123');
+   * console.log(`${order.status}: ${order.remainingSize} remaining`);
+   * ```
+   */
+  async getOrder(orderId: string): Promise<OrderDetails> {
+    this.logger.debug('Fetching order', { orderId });
+
+    const response = await this.httpClient.get<any>(`/orders/${encodeURIComponent(orderId)}`);
+    const raw = response?.order ?? response;
+
+    return this.transformOrderDetails(raw);
+  }
+
+  /**
+   * Fetches the user's orders for one market.
+   *
+   * @internal
+   */
+  private async fetchMarketOrders(marketSlug: string): Promise<OrderDetails[]> {
+    const response = await this.httpClient.get<any>(`/markets/${marketSlug}/user-orders`);
+
+    // Handle both array response and object with orders property
+    const orders: any[] = Array.isArray(response) ? response : response.orders || [];
+
+    return orders.map((order) => this.transformOrderDetails(order, marketSlug));
+  }
+
+  /**
+   * Collects live orders across all CLOB positions in the portfolio.
+   *
+   * @internal
+   */
+  private async fetchPortfolioOrders(): Promise<OrderDetails[]> {
+    const portfolioFetcher = new PortfolioFetcher(this.httpClient, this.logger);
+    const positions = await portfolioFetcher.getCLOBPositions();
+
+    return positions.flatMap((position) =>
+      (position.orders?.liveOrders || []).map((order) =>
+        this.transformOrderDetails(order, position.market.slug)
+      )
+    );
+  }
+
+  /**
+   * Cancels an existing order by ID.
+   *
+   * @param orderId - Order ID to cancel
+   * @returns Promise resolving to cancellation message
+   *
+   * @throws Error if cancellation fails
+   *
+   * @example
+   * ```typescript
+   * const result = await orderClient.cancel('order-id-123');
+   * console.log(result.message); // "Order canceled successfully"
+   * ```
+   */
+  async cancel(orderId: string): Promise<{ message: string }> {
+    this.logger.info('Cancelling order', { orderId });
+
+    const response = await this.httpClient.delete<{ message: string }>(`/orders/${orderId}`);
+    this.stopExpiryTracking(orderId);
+    this.restingOrders.delete(orderId);
+    this.riskManager?.releaseOrder(orderId);
+
+    this.logger.info('Order cancellation response', {
+      orderId,
+      message: response.message,
+    });
+
+    return response;
+  }
+
+  /**
+   * Cancels multiple orders by ID.
+   *
+   * @remarks
+   * Cancellations are sent concurrently (bounded by `options.concurrency`).
+   * With `options.retry`, transient API failures are retried with `withRetry`.
+   * Each order ID gets an entry in the returned array, in input order; a failed
+   * cancellation is reported in its entry rather than thrown.
+   *
+   * @param orderIds - Order IDs to cancel
+   * @param options - Batch options
+   * @returns Promise resolving to per-order cancellation results
+   *
+   * @example
+   * ```typescript
+   * const results = await orderClient.cancelOrders(['order-1', 'order-2']);
+   * const failed = results.filter((result) => !result.success);
+   * ```
+   */
+  async cancelOrders(
+    orderIds: string[],
+    options: CancelManyOptions = {}
+  ): Promise<CancelOrderResult[]> {
+    this.logger.info('Cancelling order batch', { count: orderIds.length });
+
+    const results: CancelOrderResult[] = new Array(orderIds.length);
+
+    await mapWithConcurrency(
+      orderIds.map((orderId, index) => ({ orderId, index })),
+      options.concurrency,
+      async ({ orderId, index }) => {
+        try {
+          const response = options.retry
+            ? await withRetry(() => this.cancel(orderId), options.retry, this.logger)
+            : await this.cancel(orderId);
+          results[index] = { orderId, success: true, message: response.message };
+        } catch (error) {
+          this.logger.warn('Order cancellation failed', { orderId });
+          results[index] = { orderId, success: false, error: toError(error) };
+        }
+      }
+    );
+
+    return results;
+  }
+
+  /**
+   * Cancels all orders for a specific market.
+   *
+   * @param marketSlug - Market slug to cancel all orders for
+   * @returns Promise resolving to cancellation message
+   *
+   * @throws Error if cancellation fails
+   *
+   * @example
+   * ```typescript
+   * const result = await orderClient.cancelAll('market-slug-123');
+   * console.log(result.message); // "Orders canceled successfully"
+   * ```
+   */
+  async cancelAll(marketSlug: string): Promise<{ message: string }> {
+    this.logger.info('Cancelling all orders for market', { marketSlug });
+
+    const response = await this.httpClient.delete<{ message: string }>(`/orders/all/${marketSlug}`);
+    for (const [orderId, entry] of this.expiryTimers) {
+      if (entry.marketSlug === marketSlug) {
+        this.stopExpiryTracking(orderId);
+      }
+    }
+    for (const [orderId, orderMarket] of this.restingOrders) {
+      if (orderMarket === marketSlug) {
+        this.restingOrders.delete(orderId);
+      }
+    }
+    this.riskManager?.releaseMarket(marketSlug);
+
+    this.logger.info('All orders cancellation response', {
+      marketSlug,
+      message: response.message,
+    });
+
+    return response;
+  }
+
+  /**
+   * Cancels open orders on every market (incident kill switch).
+   *
+   * @remarks
+   * Markets are collected from live orders in the portfolio, markets with GTC
+   * orders submitted through this client, and `options.marketSlugs`. Each market is then
+   * cancelled with {@link OrderClient.cancelAll}, concurrently (bounded by
+   * `options.concurrency`). Transient API failures (429 and 5xx by default) are
+   * retried with `withRetry` using `options.retry`. A market that still fails is
+   * reported in its result rather than thrown.
+   *
+   * Orders on the same venue can also be invalidated on-chain with
+   * {@link OrderClient.invalidateAllOrders}.
+   *
+   * @param options - Extra markets, concurrency and retry settings
+   * @returns Promise resolving to one result per market
+   *
+   * @throws Error if the portfolio cannot be fetched
+   *
+   * @example
+   * ```typescript
+   * const results = await orderClient.cancelEverything();
+   * for (const market of results.filter((r) => !r.success)) {
+   *   console.error(`${market.marketSlug}: ${market.error?.message}`);
+   * }
+   * ```
+   */
+  async cancelEverything(options: CancelEverythingOptions = {}): Promise<MarketCancelResult[]> {
+    this.logger.info('Cancelling orders across all markets');
+
+    const openOrders = await withRetry(
+      () => this.fetchPortfolioOrders(),
+      options.retry,
+      this.logger
+    );
+
+    const markets = new Map<string, string[]>();
+    const addMarket = (marketSlug: string): string[] => {
+      if (!markets.has(marketSlug)) {
+        markets.set(marketSlug, []);
+      }
+      return markets.get(marketSlug)!;
+    };
+    for (const order of openOrders) {
+      if (order.marketSlug) {
+        addMarket(order.marketSlug).push(order.id);
+      }
+    }
+    for (const marketSlug of [...this.restingOrders.values(), ...(options.marketSlugs ?? [])]) {
+      addMarket(marketSlug);
+    }
+
+    return this.cancelMarkets(markets, options);
+  }
+
+  /**
+   * Cancels each market with {@link OrderClient.cancelAll}, retrying transient
+   * failures and reporting the rest per market.
+   *
+   * @param markets - Market slugs mapped to their known open order IDs
+   * @param options - Concurrency and retry settings
+   *
+   * @internal
+   */
+  private async cancelMarkets(
+    markets: Map<string, string[]>,
+    options: CancelManyOptions
+  ): Promise<MarketCancelResult[]> {
+    const targets = [...markets].map(([marketSlug, orderIds], index) => ({
+      marketSlug,
+      orderIds,
+      index,
+    }));
+    const results: MarketCancelResult[] = new Array(targets.length);
+
+    await mapWithConcurrency(targets, options.concurrency, async (target) => {
+      const { marketSlug, orderIds, index } = target;
+      try {
+        const response = await withRetry(
+          () => this.cancelAll(marketSlug),
+          options.retry,
+          this.logger
+        );
+        results[index] = {
+          marketSlug,
+          success: true,
+          message: response.message,
+          orders: orderIds.map((orderId) => ({
+            orderId,
+            success: true,
+            message: response.message,
+          })),
+        };
+      } catch (error) {
+        const err = toError(error);
+        this.logger.warn('Market cancellation failed', { marketSlug, error: err.message });
+        results[index] = {
+          marketSlug,
+          success: false,
+          orders: orderIds.map((orderId) => ({ orderId, success: false, error: err })),
+          error: err,
+        };
+      }
+    });
+
+    this.logger.info('Cancelled orders across markets', {
+      markets: results.length,
+      failed: results.filter((result) => !result.success).length,
+    });
+
+    return results;
+  }
+
+  /**
+   * Cancels the open orders of one market that match a token and/or side.
+   *
+   * @remarks
+   * Open orders are read with {@link OrderClient.getOpenOrders} and cancelled one
+   * by one, concurrently (bounded by `options.concurrency`). The lookup and each
+   * cancellation are retried on transient API failures with `withRetry`. Failures
+   * are reported in the result rather than thrown. Without a filter, every open
+   * order of the market is cancelled individually; prefer
+   * {@link OrderClient.cancelAll} for that.
+   *
+   * @param marketSlug - Market slug
+   * @param filter - Token ID and/or side to match
+   * @param options - Concurrency and retry settings
+   * @returns Promise resolving to the market result with one entry per order
+   *
+   * @example
+   * ```typescript
+   * // Pull every bid on the YES token
+   * const result = await orderClient.cancelMarketOrders('bitcoin-2024', {
+   *   tokenId: market.tokens.yes,
+   *   side: Side.BUY,
+   * });
+   * console.log(`${result.orders.length} orders, success: ${result.success}`);
+   * ```
+   */
+  async cancelMarketOrders(
+    marketSlug: string,
+    filter: CancelOrdersFilter = {},
+    options: CancelManyOptions = {}
+  ): Promise<MarketCancelResult> {
+    this.logger.info('Cancelling filtered market orders', { marketSlug, ...filter });
+
+    let orders: OrderDetails[];
+    try {
+      orders = await withRetry(
+        () => this.getOpenOrders({ marketSlug, ...filter }),
+        options.retry,
+        this.logger
+      );
+    } catch (error) {
+      const err = toError(error);
+      this.logger.warn('Open order lookup failed', { marketSlug, error: err.message });
+      return { marketSlug, success: false, orders: [], error: err };
+    }
+
+    const results: CancelOrderResult[] = new Array(orders.length);
+    await mapWithConcurrency(
+      orders.map((order, index) => ({ orderId: order.id, index })),
+      options.concurrency,
+      async ({ orderId, index }) => {
+        try {
+          const response = await withRetry(
+            () => this.cancel(orderId),
+            options.retry,
+            this.logger
+          );
+          results[index] = { orderId, success: true, message: response.message };
+        } catch (error) {
+          this.logger.warn('Order cancellation failed', { orderId });
+          results[index] = { orderId, success: false, error: toError(error) };
+        }
+      }
+    );
+
+    return {
+      marketSlug,
+      success: results.every((result) => result.success),
+      orders: results,
+    };
+  }
+
+  /**
+   * Arms a dead-man's switch that cancels orders when the application goes silent.
+   *
+   * @remarks
+   * Call {@link OrderClient.heartbeat} more often than `config.timeoutMs`. The
+   * switch trips when no heartbeat arrives in time, or when `config.wsClient`
+   * stays disconnected for `config.disconnectTimeoutMs`. It then cancels the
+   * GTC orders submitted through this client by ID, leaving orders placed
+   * elsewhere on the same markets (or every market with `scope: 'all'`, like
+   * {@link OrderClient.cancelEverything}), and emits `deadMansSwitch` with the
+   * results. The next heartbeat re-arms it.
+   *
+   * Enabling again replaces the previous switch. Enabling counts as a heartbeat.
+   *
+   * @param config - Timeouts, WebSocket client and cancellation scope
+   *
+   * @throws Error if a timeout is not a positive number
+   *
+   * @example
+   * ```typescript
+   * orderClient.on('deadMansSwitch', (event) => {
+   *   console.error(`Dead-man's switch tripped (${event.reason})`, event.results);
+   * });
+   * orderClient.enableDeadMansSwitch({ timeoutMs: 30_000, wsClient });
+   *
+   * setInterval(() => orderClient.heartbeat(), 10_000);
+   * ```
+   */
+  enableDeadMansSwitch(config: DeadMansSwitchConfig): void {
+    const timers = new DeadMansSwitch(
+      config,
+      (trip) => void this.tripDeadMansSwitch(trip, config),
+      this.logger
+    );
+    this.disableDeadMansSwitch();
+    this.deadMansSwitch = { config, timers };
+    timers.start();
+    this.logger.info('Dead-man\'s switch enabled', {
+      timeoutMs: config.timeoutMs,
+      scope: config.scope ?? 'tracked',
+    });
+  }
+
+  /**
+   * Signals that the application is alive, resetting the dead-man's switch.
+   *
+   * @remarks
+   * Does nothing while no switch is enabled.
+   */
+  heartbeat(): void {
+    this.deadMansSwitch?.timers.heartbeat();
+  }
+
+  /**
+   * Disarms the dead-man's switch, if enabled.
+   */
+  disableDeadMansSwitch(): void {
+    this.deadMansSwitch?.timers.stop();
+    this.deadMansSwitch = undefined;
+  }
+
+  /**
+   * Cancels orders for a tripped dead-man's switch and emits `deadMansSwitch`.
+   *
+   * @internal
+   */
+  private async tripDeadMansSwitch(
+    trip: DeadMansSwitchTrip,
+    config: DeadMansSwitchConfig
+  ): Promise<void> {
+    const options = { concurrency: config.concurrency, retry: config.retry };
+    let results: MarketCancelResult[] = [];
+    let error: Error | undefined;
+
+    try {
+      results =
+        config.scope === 'all'
+          ? await this.cancelEverything(options)
+          : await this.cancelTrackedOrders(options);
+    } catch (cancelError) {
+      error = toError(cancelError);
+      this.logger.error('Dead-man\'s switch cancellation failed', error);
+    }
+
+    this.emit('deadMansSwitch', { ...trip, results, ...(error ? { error } : {}) });
+  }
+
+  /**
+   * Cancels the GTC orders submitted through this client by ID, with results
+   * grouped per market.
+   *
+   * @internal
+   */
+  private async cancelTrackedOrders(options: CancelManyOptions): Promise<MarketCancelResult[]> {
+    const tracked = [...this.restingOrders];
+    const cancelled = await this.cancelOrders(
+      tracked.map(([orderId]) => orderId),
+      { ...options, retry: options.retry ?? {} }
+    );
+
+    const markets = new Map<string, CancelOrderResult[]>();
+    cancelled.forEach((result, index) => {
+      const marketSlug = tracked[index][1];
+      if (!markets.has(marketSlug)) {
+        markets.set(marketSlug, []);
+      }
+      markets.get(marketSlug)!.push(result);
+    });
+
+    return [...markets].map(([marketSlug, orders]) => ({
+      marketSlug,
+      success: orders.every((order) => order.success),
+      orders,
+    }));
+  }
+
+  /**
+   * Stops local expiry tracking of good-till-date orders.
+   *
+   * @remarks
+   * Orders are untracked automatically when cancelled through this client. Call
+   * without an order ID to clear all expiry timers, e.g. on shutdown.
+   *
+   * @param orderId - Order to untrack (default: all orders)
+   */
+  stopExpiryTracking(orderId?: string): void {
+    const orderIds = orderId === undefined ? [...this.expiryTimers.keys()] : [orderId];
+
+    for (const id of orderIds) {
+      const entry = this.expiryTimers.get(id);
+      if (entry) {
+        clearTimeout(entry.timer);
+        this.expiryTimers.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Invalidates every order of the maker on a market's venue exchange on-chain.
+   *
+   * @remarks
+   * Emergency kill switch: increments the maker's nonce on `venue.exchange`
+   * through the configured {@link NonceManager}. Unlike {@link OrderClient.cancelAll},
+   * this does not depend on the API, and it also invalidates orders on every other
+   * market that shares the venue, including signed orders not yet submitted.
+   * New orders are stamped with the new nonce.
+   *
+   * @param marketSlug - Market whose venue exchange to invalidate
+   * @returns Promise resolving to the previous and new nonce
+   *
+   * @throws Error if no nonceManager is configured or the transaction fails
+   *
+   * @example
+   * ```typescript
+   * const result = await orderClient.invalidateAllOrders('bitcoin-2024');
+   * console.log(`Nonce ${result.previousNonce} -> ${result.nonce}`);
+   * ```
+   */
+  async invalidateAllOrders(marketSlug: string): Promise<NonceInvalidationResult> {
+    if (!this.nonceManager) {
+      throw new Error('invalidateAllOrders requires a nonceManager in OrderClientConfig');
+    }
+
+    await this.ensureUserData();
+    const venue = await this.resolveVenue(marketSlug);
+
+    return this.nonceManager.invalidateAll(this.makerAddress, venue.exchange);
+  }
+
+  /**
+   * Builds an unsigned order without submitting.
+   *
+   * @remarks
+   * Useful for advanced use cases where you need the unsigned order
+   * before signing and submission.
+   *
+   * @param params - Order parameters
+   * @returns Promise resolving to unsigned order
+   *
+   * @example
+   * ```typescript
+   * const unsignedOrder = await orderClient.buildUnsignedOrder({
+   *   tokenId: '123456',
+   *   price: 0.65,
+   *   size: 100,
    *   side: Side.BUY
    * });
    * ```
@@ -486,11 +2263,35 @@ export class OrderClient {
     return await this.orderSigner.signOrder(order, this.signingConfig);
   }
 
+  /**
+   * Resolves the signer address, querying the signing backend on first call.
+   *
+   * @returns Promise resolving to the signer address
+   *
+   * @example
+   * ```typescript
+   * const address = await orderClient.getWalletAddress();
+   * ```
+   */
+  async getWalletAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = await this.wallet.getAddress();
+    }
+
+    return this.address;
+  }
+
   /**
    * Gets the wallet address.
    *
+   * @remarks
+   * Available immediately for `ethers.Wallet`. For other signing backends the
+   * address is known after the first order or a call to getWalletAddress().
+   *
    * @returns Ethereum address of the wallet
    *
+   * @throws Error if the backend address has not been resolved yet
+   *
    * @example
    * ```typescript
    * const address = orderClient.walletAddress;
@@ -498,7 +2299,25 @@ export class OrderClient {
    * ```
    */
   get walletAddress(): string {
-    return this.wallet.address;
+    if (!this.address) {
+      throw new Error(
+        'Signer address not resolved yet. Call getWalletAddress() before reading walletAddress.'
+      );
+    }
+
+    return this.address;
+  }
+
+  /**
+   * Gets the maker address used on orders.
+   *
+   * @remarks
+   * This is the funder (proxy or Safe) address when configured, otherwise the wallet address.
+   *
+   * @returns Maker address
+   */
+  get makerAddress(): string {
+    return this.funderAddress ?? this.walletAddress;
   }
 
   /**
@@ -0,0 +1,231 @@
+/**
+ * Heartbeat-based dead-man's switch for resting orders.
+ * @module orders/dead-mans-switch
+ */
+
+import type { RetryConfigOptions } from '../api/retry';
+import { systemClock } from '../execution/clock';
+import type { ExecutionClock, ExecutionTimer } from '../types/execution';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+import type { DeadMansSwitchEvent, DeadMansSwitchReason } from '../types/orders';
+import type { WebSocketClient } from '../websocket/client';
+
+/**
+ * Configuration for `OrderClient.enableDeadMansSwitch()`.
+ * @public
+ */
+export interface DeadMansSwitchConfig {
+  /**
+   * Maximum time between heartbeats, in milliseconds
+   */
+  timeoutMs: number;
+
+  /**
+   * WebSocket client watched for disconnects (optional)
+   */
+  wsClient?: WebSocketClient;
+
+  /**
+   * Maximum time the WebSocket may stay disconnected, in milliseconds
+   * @defaultValue timeoutMs
+   */
+  disconnectTimeoutMs?: number;
+
+  /**
+   * Orders to cancel when the switch trips: `tracked` cancels the GTC orders
+   * submitted through this client by ID (other orders on the same markets are
+   * left alone), `all` behaves like `OrderClient.cancelEverything()`
+   * @defaultValue 'tracked'
+   */
+  scope?: 'tracked' | 'all';
+
+  /**
+   * Maximum number of concurrent cancellations (orders with `tracked`, markets with `all`)
+   */
+  concurrency?: number;
+
+  /**
+   * Retry settings for the cancellations
+   */
+  retry?: RetryConfigOptions;
+
+  /**
+   * Clock used for the timers (default: system clock)
+   */
+  clock?: ExecutionClock;
+}
+
+/**
+ * Trip details passed to the {@link DeadMansSwitch} callback.
+ * @internal
+ */
+export type DeadMansSwitchTrip = Pick<
+  DeadMansSwitchEvent,
+  'reason' | 'lastHeartbeatAt' | 'triggeredAt'
+>;
+
+/**
+ * Timers and WebSocket listeners behind the dead-man's switch.
+ *
+ * @remarks
+ * Calls `onTrip` once when no heartbeat arrives within `timeoutMs`, or when the
+ * WebSocket stays disconnected for `disconnectTimeoutMs`. The switch then stays
+ * tripped until the next heartbeat re-arms it.
+ *
+ * @internal
+ */
+export class DeadMansSwitch {
+  private readonly clock: ExecutionClock;
+  private readonly logger: ILogger;
+  private readonly timeoutMs: number;
+  private readonly disconnectTimeoutMs: number;
+  private readonly wsClient?: WebSocketClient;
+  private readonly onTrip: (trip: DeadMansSwitchTrip) => void;
+  private heartbeatTimer: ExecutionTimer = undefined;
+  private disconnectTimer: ExecutionTimer = undefined;
+  private lastHeartbeatAt = 0;
+  private running = false;
+  private tripped = false;
+
+  /**
+   * @param config - Timeouts, WebSocket client and clock
+   * @param onTrip - Called when the switch trips
+   * @param logger - Optional logger
+   *
+   * @throws Error if a timeout is not a positive number
+   */
+  constructor(
+    config: DeadMansSwitchConfig,
+    onTrip: (trip: DeadMansSwitchTrip) => void,
+    logger?: ILogger
+  ) {
+    const disconnectTimeoutMs = config.disconnectTimeoutMs ?? config.timeoutMs;
+    if (!(config.timeoutMs > 0) || !(disconnectTimeoutMs > 0)) {
+      throw new Error("Dead-man's switch timeouts must be positive numbers of milliseconds");
+    }
+
+    this.clock = config.clock ?? systemClock;
+    this.logger = logger || new NoOpLogger();
+    this.timeoutMs = config.timeoutMs;
+    this.disconnectTimeoutMs = disconnectTimeoutMs;
+    this.wsClient = config.wsClient;
+    this.onTrip = onTrip;
+  }
+
+  /**
+   * Arms the switch, counting the call as the first heartbeat.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.wsClient?.on('connect', this.handleConnect);
+    this.wsClient?.on('disconnect', this.handleDisconnect);
+    this.heartbeat();
+  }
+
+  /**
+   * Disarms the switch and removes its listeners.
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.wsClient?.off('connect', this.handleConnect);
+    this.wsClient?.off('disconnect', this.handleDisconnect);
+    this.clearTimers();
+  }
+
+  /**
+   * Records a heartbeat, re-arming the switch if it had tripped.
+   */
+  heartbeat(): void {
+    if (!this.running) {
+      return;
+    }
+    this.lastHeartbeatAt = this.clock.now();
+
+    if (this.tripped) {
+      this.tripped = false;
+      this.logger.info("Dead-man's switch re-armed");
+    }
+
+    this.clock.clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = this.clock.setTimeout(
+      () => this.trip('heartbeatTimeout'),
+      this.timeoutMs
+    );
+
+    if (this.wsClient && !this.wsClient.isConnected()) {
+      this.startDisconnectTimer();
+    }
+  }
+
+  /**
+   * @returns True once the switch has tripped and until the next heartbeat
+   */
+  isTripped(): boolean {
+    return this.tripped;
+  }
+
+  /**
+   * @internal
+   */
+  private readonly handleConnect = (): void => {
+    this.clock.clearTimeout(this.disconnectTimer);
+    this.disconnectTimer = undefined;
+  };
+
+  /**
+   * @internal
+   */
+  private readonly handleDisconnect = (): void => {
+    if (!this.tripped) {
+      this.startDisconnectTimer();
+    }
+  };
+
+  /**
+   * Starts the disconnect countdown unless one is already running.
+   *
+   * @internal
+   */
+  private startDisconnectTimer(): void {
+    if (this.disconnectTimer !== undefined) {
+      return;
+    }
+    this.disconnectTimer = this.clock.setTimeout(
+      () => this.trip('disconnected'),
+      this.disconnectTimeoutMs
+    );
+  }
+
+  /**
+   * @internal
+   */
+  private trip(reason: DeadMansSwitchReason): void {
+    if (!this.running || this.tripped) {
+      return;
+    }
+    this.tripped = true;
+    this.clearTimers();
+    this.logger.warn("Dead-man's switch tripped", {
+      reason,
+      lastHeartbeatAt: this.lastHeartbeatAt,
+    });
+    this.onTrip({ reason, lastHeartbeatAt: this.lastHeartbeatAt, triggeredAt: this.clock.now() });
+  }
+
+  /**
+   * @internal
+   */
+  private clearTimers(): void {
+    this.clock.clearTimeout(this.heartbeatTimer);
+    this.clock.clearTimeout(this.disconnectTimer);
+    this.heartbeatTimer = undefined;
+    this.disconnectTimer = undefined;
+  }
+}
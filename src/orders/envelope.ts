@@ -0,0 +1,179 @@
+/**
+ * Portable signed-order envelopes for offline signing.
+ * @module orders/envelope
+ */
+
+import { ethers } from 'ethers';
+import { OrderType } from '../types/orders';
+import type { SignedOrder, SignedOrderEnvelope, SignedOrderEnvelopeParams } from '../types/orders';
+import { OrderValidationError, validateSignedOrder } from './validator';
+
+/**
+ * Envelope type marker for signed orders.
+ * @public
+ */
+export const SIGNED_ORDER_ENVELOPE_TYPE = 'limitless-signed-order';
+
+/**
+ * Current signed-order envelope format version.
+ * @public
+ */
+export const SIGNED_ORDER_ENVELOPE_VERSION = 1;
+
+/**
+ * Wraps a signed order and its submission metadata in a portable envelope.
+ *
+ * @remarks
+ * Use on the signing machine (which may be offline), then transfer the
+ * serialized envelope to a networked machine and submit it with
+ * `OrderClient.submitSignedOrder()`.
+ *
+ * @param order - Signed order
+ * @param params - Submission metadata (market, order type, owner ID)
+ * @returns Validated envelope
+ *
+ * @throws OrderValidationError if the order or metadata is invalid
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * // Air-gapped machine
+ * const builder = new OrderBuilder(wallet.address, feeRateBps);
+ * const unsignedOrder = builder.buildOrder({ tokenId, price: 0.55, size: 10, side: Side.BUY });
+ * const signingConfig = { chainId: 8453, contractAddress: venue.exchange };
+ * const signature = await new OrderSigner(wallet).signOrder(unsignedOrder, signingConfig);
+ *
+ * const envelope = createSignedOrderEnvelope(
+ *   { ...unsignedOrder, signature },
+ *   { marketSlug, orderType: OrderType.GTC, ownerId, signingConfig }
+ * );
+ * fs.writeFileSync('order.json', serializeSignedOrderEnvelope(envelope));
+ * ```
+ */
+export function createSignedOrderEnvelope(
+  order: SignedOrder,
+  params: SignedOrderEnvelopeParams
+): SignedOrderEnvelope {
+  const envelope: SignedOrderEnvelope = {
+    type: SIGNED_ORDER_ENVELOPE_TYPE,
+    version: SIGNED_ORDER_ENVELOPE_VERSION,
+    createdAt: new Date().toISOString(),
+    order: { ...order },
+    orderType: params.orderType,
+    marketSlug: params.marketSlug,
+    ownerId: params.ownerId,
+    ...(params.postOnly !== undefined ? { postOnly: params.postOnly } : {}),
+    ...(params.signingConfig ? { signingConfig: { ...params.signingConfig } } : {}),
+  };
+
+  validateSignedOrderEnvelope(envelope);
+  return envelope;
+}
+
+/**
+ * Serializes an envelope to JSON.
+ *
+ * @param envelope - Signed-order envelope
+ * @returns JSON string
+ *
+ * @public
+ */
+export function serializeSignedOrderEnvelope(envelope: SignedOrderEnvelope): string {
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Parses and validates a serialized envelope.
+ *
+ * @param input - JSON string or already-parsed object
+ * @returns Validated envelope
+ *
+ * @throws OrderValidationError if the input is not a valid envelope
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * const envelope = parseSignedOrderEnvelope(fs.readFileSync('order.json', 'utf8'));
+ * ```
+ */
+export function parseSignedOrderEnvelope(input: string | unknown): SignedOrderEnvelope {
+  let value: unknown = input;
+
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new OrderValidationError(`Invalid signed order envelope: ${(error as Error).message}`);
+    }
+  }
+
+  validateSignedOrderEnvelope(value);
+  return value;
+}
+
+/**
+ * Validates a signed-order envelope, including the signed order itself.
+ *
+ * @param envelope - Value to validate
+ * @throws OrderValidationError if validation fails
+ *
+ * @public
+ */
+export function validateSignedOrderEnvelope(
+  envelope: unknown
+): asserts envelope is SignedOrderEnvelope {
+  if (!envelope || typeof envelope !== 'object') {
+    throw new OrderValidationError('Signed order envelope must be an object');
+  }
+
+  const value = envelope as Record<string, any>;
+
+  if (value.type !== SIGNED_ORDER_ENVELOPE_TYPE) {
+    throw new OrderValidationError(`Unknown envelope type: ${value.type}`);
+  }
+
+  if (value.version !== SIGNED_ORDER_ENVELOPE_VERSION) {
+    throw new OrderValidationError(
+      `Unsupported envelope version: ${value.version}. ` +
+        `This SDK supports version ${SIGNED_ORDER_ENVELOPE_VERSION}.`
+    );
+  }
+
+  if (typeof value.marketSlug !== 'string' || value.marketSlug.length === 0) {
+    throw new OrderValidationError('Envelope marketSlug is required');
+  }
+
+  if (!Object.values(OrderType).includes(value.orderType)) {
+    throw new OrderValidationError(`Invalid envelope orderType: ${value.orderType}`);
+  }
+
+  if (!Number.isInteger(value.ownerId) || value.ownerId <= 0) {
+    throw new OrderValidationError(`Invalid envelope ownerId: ${value.ownerId}`);
+  }
+
+  if (value.postOnly !== undefined) {
+    if (typeof value.postOnly !== 'boolean') {
+      throw new OrderValidationError('Envelope postOnly must be a boolean');
+    }
+    if (value.orderType !== OrderType.GTC) {
+      throw new OrderValidationError('postOnly is supported only for GTC orders');
+    }
+  }
+
+  if (value.signingConfig !== undefined) {
+    const { chainId, contractAddress } = value.signingConfig ?? {};
+    if (!Number.isInteger(chainId) || !ethers.isAddress(contractAddress)) {
+      throw new OrderValidationError(
+        'Envelope signingConfig must have chainId and contractAddress'
+      );
+    }
+  }
+
+  if (!value.order || typeof value.order !== 'object') {
+    throw new OrderValidationError('Envelope order is required');
+  }
+
+  validateSignedOrder(value.order);
+}
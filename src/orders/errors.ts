@@ -0,0 +1,32 @@
+/**
+ * Order error types.
+ * @module orders/errors
+ */
+
+/**
+ * Order validation error class for client-side validation.
+ *
+ * @remarks
+ * Tick-size and minimum-size failures carry a corrected price and/or size
+ * that the market would accept.
+ *
+ * @public
+ */
+export class OrderValidationError extends Error {
+  /**
+   * Nearest valid price, when the price was rejected
+   */
+  public readonly suggestedPrice?: number;
+
+  /**
+   * Nearest valid size, when the size was rejected
+   */
+  public readonly suggestedSize?: number;
+
+  constructor(message: string, suggestion: { price?: number; size?: number } = {}) {
+    super(message);
+    this.name = 'OrderValidationError';
+    this.suggestedPrice = suggestion.price;
+    this.suggestedSize = suggestion.size;
+  }
+}
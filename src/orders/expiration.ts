@@ -0,0 +1,164 @@
+/**
+ * Good-till-date order expiration helpers.
+ * @module orders/expiration
+ */
+
+import type { OrderExpiration } from '../types/orders';
+import { OrderValidationError } from './errors';
+
+/**
+ * Seconds per duration unit.
+ */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3_600,
+  d: 86_400,
+  w: 604_800,
+};
+
+/**
+ * Duration format: a positive number followed by s, m, h, d or w (e.g. "15m", "1.5h").
+ */
+const DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*([smhdw])$/;
+
+/**
+ * Unix timestamps at or above this value are treated as milliseconds by mistake.
+ */
+const MILLISECONDS_THRESHOLD = 1e11;
+
+/**
+ * Parses a duration such as "15m", "2h" or "7d" into seconds.
+ *
+ * @param duration - Duration string
+ * @returns Duration in seconds, or undefined if the string is not a duration
+ *
+ * @public
+ */
+export function parseDuration(duration: string): number | undefined {
+  const match = DURATION_PATTERN.exec(duration.trim().toLowerCase());
+  if (!match) {
+    return undefined;
+  }
+
+  return Math.round(Number(match[1]) * DURATION_UNITS[match[2]]);
+}
+
+/**
+ * Resolves an order expiration to the unix-seconds string signed into the order.
+ *
+ * @remarks
+ * Accepted inputs:
+ * - `Date`: converted to unix seconds (rounded down)
+ * - duration string (`"30s"`, `"15m"`, `"2h"`, `"1d"`, `"1w"`): relative to `now`
+ * - unix timestamp in seconds, as a number or numeric string
+ * - `undefined`, `0` or `"0"`: no expiration
+ *
+ * Only the format is checked here; use {@link validateOrderExpiration} to check
+ * that the result lies in the future.
+ *
+ * @param expiration - Expiration input
+ * @param now - Current time in milliseconds (default: `Date.now()`)
+ * @returns Unix timestamp in seconds as a string, or `'0'` for no expiration
+ *
+ * @throws OrderValidationError if the input cannot be parsed
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * resolveOrderExpiration('15m');                             // now + 900 seconds
+ * resolveOrderExpiration(new Date('2026-12-31T00:00:00Z'));  // '1798675200'
+ * resolveOrderExpiration(1798675200);                        // '1798675200'
+ * ```
+ */
+export function resolveOrderExpiration(
+  expiration: OrderExpiration | undefined,
+  now: number = Date.now()
+): string {
+  if (expiration === undefined) {
+    return '0';
+  }
+
+  if (expiration instanceof Date) {
+    const time = expiration.getTime();
+    if (Number.isNaN(time)) {
+      throw new OrderValidationError('Invalid expiration: invalid Date');
+    }
+    return String(Math.floor(time / 1000));
+  }
+
+  if (typeof expiration === 'number') {
+    if (!Number.isSafeInteger(expiration) || expiration < 0) {
+      throw new OrderValidationError(
+        `Invalid expiration: ${expiration}. Use a non-negative unix timestamp in seconds.`
+      );
+    }
+    return checkSeconds(String(expiration));
+  }
+
+  if (typeof expiration === 'string') {
+    if (/^\d+$/.test(expiration)) {
+      return checkSeconds(String(BigInt(expiration)));
+    }
+
+    const seconds = parseDuration(expiration);
+    if (seconds !== undefined && seconds > 0) {
+      return String(Math.floor(now / 1000) + seconds);
+    }
+  }
+
+  throw new OrderValidationError(
+    `Invalid expiration format: ${String(expiration)}. ` +
+      'Use a Date, a unix timestamp in seconds, or a duration such as "15m".'
+  );
+}
+
+/**
+ * Checks that a resolved expiration lies in the future and before the market expires.
+ *
+ * @param expiration - Unix timestamp in seconds (`'0'` for no expiration, which always passes)
+ * @param options - Current time and market expiration, both in milliseconds
+ *
+ * @throws OrderValidationError if the expiration is in the past or after the market expires
+ *
+ * @public
+ */
+export function validateOrderExpiration(
+  expiration: string,
+  options: { now?: number; marketExpirationTimestamp?: number } = {}
+): void {
+  const seconds = Number(expiration);
+  if (seconds === 0) {
+    return;
+  }
+
+  const now = options.now ?? Date.now();
+  if (seconds * 1000 <= now) {
+    throw new OrderValidationError(
+      `Expiration ${new Date(seconds * 1000).toISOString()} is not in the future.`
+    );
+  }
+
+  const marketExpiration = options.marketExpirationTimestamp;
+  if (marketExpiration !== undefined && seconds * 1000 > marketExpiration) {
+    throw new OrderValidationError(
+      `Expiration ${new Date(seconds * 1000).toISOString()} is after the market expires ` +
+        `(${new Date(marketExpiration).toISOString()}).`
+    );
+  }
+}
+
+/**
+ * Rejects timestamps that look like milliseconds.
+ *
+ * @internal
+ */
+function checkSeconds(expiration: string): string {
+  if (Number(expiration) >= MILLISECONDS_THRESHOLD) {
+    throw new OrderValidationError(
+      `Invalid expiration: ${expiration} looks like milliseconds. Use unix seconds.`
+    );
+  }
+  return expiration;
+}
@@ -5,5 +5,14 @@
 
 export * from './builder';
 export * from './signer';
+export * from './signing-backends';
 export * from './validator';
+export * from './envelope';
+export * from './expiration';
+export * from './preview';
+export * from './nonce-manager';
+export * from './tracker';
+export * from './risk-manager';
+export * from './dead-mans-switch';
+export * from './neg-risk';
 export * from './client';
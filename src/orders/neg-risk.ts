@@ -0,0 +1,534 @@
+/**
+ * Trading helpers for NegRisk group markets.
+ * @module orders/neg-risk
+ */
+
+import { ethers } from 'ethers';
+import { systemClock } from '../execution/clock';
+import type { MarketFetcher } from '../markets/fetcher';
+import type { ExecutionClock } from '../types/execution';
+import type { Market } from '../types/market-class';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+import type {
+  ConditionalTokensApprovalContract,
+  NegRiskBasketLeg,
+  NegRiskBasketQuote,
+  NegRiskOrderParams,
+  NegRiskOutcome,
+  NegRiskSellApprovals,
+} from '../types/neg-risk';
+import type { CreateOrderParams, OrderResponse } from '../types/orders';
+import { Side } from '../types/orders';
+import { DEFAULT_CHAIN_ID, getContractAddress } from '../utils/constants';
+import type { OrderClient } from './client';
+import { orientOrderBook, quoteOrderBookFill } from './preview';
+import { OrderValidationError } from './validator';
+
+/**
+ * Human-readable ABI of the Conditional Tokens approval read.
+ * @public
+ */
+export const CONDITIONAL_TOKENS_APPROVAL_ABI = [
+  'function isApprovedForAll(address owner, address operator) view returns (bool)',
+] as const;
+
+/**
+ * Default lifetime of cached granted approvals.
+ */
+const DEFAULT_APPROVAL_CACHE_TTL_MS = 60_000;
+
+/**
+ * Configuration for {@link NegRiskClient}.
+ * @public
+ */
+export interface NegRiskClientConfig {
+  /**
+   * Runner for the default `ethers.Contract` binding used for approval checks
+   */
+  runner?: ethers.ContractRunner;
+
+  /**
+   * Custom Conditional Tokens binding (optional)
+   *
+   * @remarks
+   * Takes precedence over `runner`. Without either, SELL orders are rejected
+   * unless `skipApprovalCheck` is set.
+   */
+  contractFactory?: (address: string) => ConditionalTokensApprovalContract;
+
+  /**
+   * Submit SELL orders without an approval check when neither `runner` nor
+   * `contractFactory` is configured (a warning is logged for each one)
+   * @defaultValue false
+   */
+  skipApprovalCheck?: boolean;
+
+  /**
+   * How long granted approvals are reused before being read again, in milliseconds
+   * @defaultValue 60000
+   */
+  approvalCacheTtlMs?: number;
+
+  /**
+   * Clock used for the approval cache (default: system clock)
+   */
+  clock?: ExecutionClock;
+
+  /**
+   * Conditional Tokens contract address
+   * @defaultValue the CTF address for `chainId`
+   */
+  conditionalTokens?: string;
+
+  /**
+   * Chain ID used to look up the Conditional Tokens address
+   * @defaultValue 8453
+   */
+  chainId?: number;
+
+  /**
+   * Optional logger
+   */
+  logger?: ILogger;
+}
+
+/**
+ * Error thrown when a NegRisk SELL is missing Conditional Tokens approvals.
+ * @public
+ */
+export class NegRiskApprovalError extends Error {
+  /**
+   * Approval state that failed the check
+   */
+  public readonly approvals: NegRiskSellApprovals;
+
+  constructor(approvals: NegRiskSellApprovals) {
+    super(
+      `NegRisk SELL requires Conditional Tokens approval (setApprovalForAll) for ` +
+        `${approvals.missing.join(' and ')} from ${approvals.owner}`
+    );
+    this.name = 'NegRiskApprovalError';
+    this.approvals = approvals;
+  }
+}
+
+/**
+ * Group-aware trading on NegRisk markets.
+ *
+ * @remarks
+ * A NegRisk group market has no tokens of its own: each outcome is a child market
+ * with YES and NO tokens, traded under the child slug. This client resolves
+ * outcomes by label, so orders can target "outcome X, YES" on the group slug.
+ *
+ * SELL orders are checked for the two Conditional Tokens approvals NegRisk
+ * venues need (`venue.exchange` and `venue.adapter`) before they are signed,
+ * which requires a `runner` or `contractFactory` (or `skipApprovalCheck`).
+ * Granted approvals are cached for `approvalCacheTtlMs`; call
+ * {@link NegRiskClient.clearApprovalCache} after revoking one.
+ *
+ * @example
+ * ```typescript
+ * const negRisk = new NegRiskClient(orderClient, marketFetcher, { runner: provider });
+ *
+ * const outcomes = await negRisk.getOutcomes('largest-company-end-of-2025');
+ * await negRisk.createOrder('largest-company-end-of-2025', {
+ *   outcome: 'Apple',
+ *   token: 'YES',
+ *   side: Side.BUY,
+ *   price: 0.3,
+ *   size: 20,
+ *   orderType: OrderType.GTC,
+ * });
+ * ```
+ *
+ * @public
+ */
+export class NegRiskClient {
+  private readonly orderClient: OrderClient;
+  private readonly marketFetcher: MarketFetcher;
+  private readonly contractFactory?: (address: string) => ConditionalTokensApprovalContract;
+  private readonly conditionalTokens?: string;
+  private readonly chainId: number;
+  private readonly logger: ILogger;
+  private readonly skipApprovalCheck: boolean;
+  private readonly approvalCacheTtlMs: number;
+  private readonly clock: ExecutionClock;
+  /** Granted approvals by `owner:operator`, mapped to the time they were read */
+  private readonly grantedApprovals: Map<string, number> = new Map();
+
+  /**
+   * Creates a NegRisk client.
+   *
+   * @param orderClient - Order client used to submit orders
+   * @param marketFetcher - Market fetcher, ideally shared with the order client
+   * @param config - Approval check settings and logger
+   */
+  constructor(
+    orderClient: OrderClient,
+    marketFetcher: MarketFetcher,
+    config: NegRiskClientConfig = {}
+  ) {
+    this.orderClient = orderClient;
+    this.marketFetcher = marketFetcher;
+    this.conditionalTokens = config.conditionalTokens;
+    this.chainId = config.chainId ?? DEFAULT_CHAIN_ID;
+    this.logger = config.logger || new NoOpLogger();
+    this.skipApprovalCheck = config.skipApprovalCheck ?? false;
+    this.approvalCacheTtlMs = config.approvalCacheTtlMs ?? DEFAULT_APPROVAL_CACHE_TTL_MS;
+    this.clock = config.clock ?? systemClock;
+
+    if (config.contractFactory) {
+      this.contractFactory = config.contractFactory;
+    } else if (config.runner) {
+      const runner = config.runner;
+      this.contractFactory = (address) =>
+        new ethers.Contract(
+          address,
+          CONDITIONAL_TOKENS_APPROVAL_ABI,
+          runner
+        ) as unknown as ConditionalTokensApprovalContract;
+    }
+  }
+
+  /**
+   * Lists the outcomes of a group market with their tokens and prices.
+   *
+   * @remarks
+   * The group is fetched on every call, so prices are current. Child markets
+   * returned without token IDs are fetched individually.
+   *
+   * @param groupSlug - Group market slug
+   * @returns Promise resolving to the outcomes in group order
+   *
+   * @throws Error if the market is not a group market or an outcome has no tokens
+   */
+  async getOutcomes(groupSlug: string): Promise<NegRiskOutcome[]> {
+    const group = await this.marketFetcher.getMarket(groupSlug);
+    if (!group.markets?.length) {
+      throw new Error(`Market ${groupSlug} is not a NegRisk group market`);
+    }
+
+    const children = [...group.markets].sort(
+      (a, b) => (a.orderInGroup ?? 0) - (b.orderInGroup ?? 0)
+    );
+
+    return Promise.all(children.map((child) => this.toOutcome(child, group)));
+  }
+
+  /**
+   * Finds a group outcome by label or child market slug.
+   *
+   * @param groupSlug - Group market slug
+   * @param outcome - Outcome label (case-insensitive) or child market slug
+   * @returns Promise resolving to the outcome
+   *
+   * @throws OrderValidationError if no outcome, or more than one, matches
+   */
+  async findOutcome(groupSlug: string, outcome: string): Promise<NegRiskOutcome> {
+    const outcomes = await this.getOutcomes(groupSlug);
+    return this.matchOutcome(groupSlug, outcomes, outcome);
+  }
+
+  /**
+   * Places an order on a group outcome chosen by label.
+   *
+   * @remarks
+   * Resolves the child market slug and the YES or NO token, then submits through
+   * `OrderClient.createOrder()`. SELL orders are first checked with
+   * {@link NegRiskClient.checkSellApprovals}.
+   *
+   * @param groupSlug - Group market slug
+   * @param params - Outcome, token and order arguments
+   * @returns Promise resolving to the order response
+   *
+   * @throws OrderValidationError if the outcome or token is invalid
+   * @throws NegRiskApprovalError if a SELL is missing approvals
+   * @throws Error if a SELL cannot be checked (no runner or contractFactory) and
+   * `skipApprovalCheck` is not set
+   *
+   * @example
+   * ```typescript
+   * await negRisk.createOrder(groupSlug, {
+   *   outcome: 'Nvidia',
+   *   token: 'NO',
+   *   side: Side.SELL,
+   *   price: 0.8,
+   *   size: 15,
+   *   orderType: OrderType.GTC,
+   * });
+   * ```
+   */
+  async createOrder(groupSlug: string, params: NegRiskOrderParams): Promise<OrderResponse> {
+    const { outcome: label, token, ...orderArgs } = params;
+    const outcome = await this.findOutcome(groupSlug, label);
+
+    let tokenId: string;
+    switch (token) {
+      case 'YES':
+        tokenId = outcome.tokens.yes;
+        break;
+      case 'NO':
+        tokenId = outcome.tokens.no;
+        break;
+      default:
+        throw new OrderValidationError(`Invalid token: ${token}. Must be YES or NO.`);
+    }
+
+    if (params.side === Side.SELL) {
+      if (this.contractFactory) {
+        const approvals = await this.checkSellApprovals(outcome.marketSlug);
+        if (!approvals.approved) {
+          throw new NegRiskApprovalError(approvals);
+        }
+      } else if (this.skipApprovalCheck) {
+        this.logger.warn('Submitting NegRisk SELL without an approval check', {
+          marketSlug: outcome.marketSlug,
+        });
+      } else {
+        throw new Error(
+          'NegRisk SELL orders require a runner or contractFactory in NegRiskClientConfig ' +
+            'for the approval check (or skipApprovalCheck: true)'
+        );
+      }
+    }
+
+    this.logger.info('Placing NegRisk outcome order', {
+      groupSlug,
+      outcome: outcome.label,
+      marketSlug: outcome.marketSlug,
+      token,
+      side: params.side,
+    });
+
+    const createParams: CreateOrderParams = {
+      ...orderArgs,
+      tokenId,
+      marketSlug: outcome.marketSlug,
+    };
+    return this.orderClient.createOrder(createParams);
+  }
+
+  /**
+   * Checks the Conditional Tokens approvals a NegRisk SELL needs.
+   *
+   * @remarks
+   * Reads `isApprovedForAll(owner, operator)` for the market's `venue.exchange`
+   * and `venue.adapter`. Approvals found granted are cached per owner and
+   * operator for `approvalCacheTtlMs`; missing ones are read again on the next call.
+   *
+   * @param marketSlug - Child market slug
+   * @param owner - Token holder (default: the order client's maker address)
+   * @returns Promise resolving to the approval state
+   *
+   * @throws Error if no runner or contractFactory is configured, or the market has no
+   * venue adapter
+   */
+  async checkSellApprovals(marketSlug: string, owner?: string): Promise<NegRiskSellApprovals> {
+    if (!this.contractFactory) {
+      throw new Error(
+        'checkSellApprovals requires a runner or contractFactory in NegRiskClientConfig'
+      );
+    }
+
+    const venue =
+      this.marketFetcher.getVenue(marketSlug) ??
+      (await this.marketFetcher.getMarket(marketSlug)).venue;
+    if (!venue) {
+      throw new Error(`Market ${marketSlug} has no venue data`);
+    }
+    if (!venue.adapter) {
+      throw new Error(`Market ${marketSlug} has no venue adapter; it is not a NegRisk market`);
+    }
+
+    const holder = owner ?? (await this.resolveMaker());
+    const contract = this.contractFactory(
+      this.conditionalTokens ?? getContractAddress('CTF', this.chainId)
+    );
+
+    const exchangeApproved = await this.isApproved(contract, holder, venue.exchange);
+    const adapterApproved = await this.isApproved(contract, holder, venue.adapter);
+
+    const missing: string[] = [];
+    if (!exchangeApproved) {
+      missing.push(venue.exchange);
+    }
+    if (!adapterApproved) {
+      missing.push(venue.adapter);
+    }
+
+    return {
+      owner: holder,
+      exchange: venue.exchange,
+      adapter: venue.adapter,
+      exchangeApproved,
+      adapterApproved,
+      approved: missing.length === 0,
+      missing,
+    };
+  }
+
+  /**
+   * Forgets cached granted approvals, so the next check reads them on-chain.
+   *
+   * @remarks
+   * Call after revoking an approval with `setApprovalForAll(operator, false)`.
+   */
+  clearApprovalCache(): void {
+    this.grantedApprovals.clear();
+  }
+
+  /**
+   * Quotes buying `size` NO shares on every outcome of a group.
+   *
+   * @remarks
+   * Each outcome's NO asks are derived from its YES book (a YES bid at `p` is a
+   * NO ask at `1 - p`) and walked for `size` shares. Exactly one outcome
+   * resolves YES, so the full basket pays `size * (n - 1)` USDC.
+   *
+   * @param groupSlug - Group market slug
+   * @param size - NO shares per outcome
+   * @returns Promise resolving to the basket quote
+   *
+   * @throws OrderValidationError if the size is not positive
+   *
+   * @example
+   * ```typescript
+   * const quote = await negRisk.quoteBuyAllNo(groupSlug, 10);
+   * if (quote.profit !== null && quote.profit > 0) {
+   *   console.log(`Basket costs ${quote.totalCost}, pays ${quote.payout}`);
+   * }
+   * ```
+   */
+  async quoteBuyAllNo(groupSlug: string, size: number): Promise<NegRiskBasketQuote> {
+    if (!Number.isFinite(size) || size <= 0) {
+      throw new OrderValidationError(`Invalid size: ${size}. Size must be positive.`);
+    }
+
+    const outcomes = await this.getOutcomes(groupSlug);
+    const legs = await Promise.all(
+      outcomes.map(async (outcome): Promise<NegRiskBasketLeg> => {
+        const orderBook = await this.marketFetcher.getOrderBook(outcome.marketSlug);
+        const book = orientOrderBook(orderBook, outcome.tokens.no);
+        const fill = quoteOrderBookFill(book, Side.BUY, size);
+
+        return {
+          label: outcome.label,
+          marketSlug: outcome.marketSlug,
+          tokenId: outcome.tokens.no,
+          bestPrice: book.asks.length > 0 ? Number(book.asks[0].price) : null,
+          ...fill,
+        };
+      })
+    );
+
+    const totalCost = roundMicros(legs.reduce((sum, leg) => sum + leg.filledCollateral, 0));
+    const payout = roundMicros(size * (outcomes.length - 1));
+    const fullyFillable = legs.every((leg) => leg.fullyFillable);
+
+    return {
+      groupSlug,
+      size,
+      legs,
+      totalCost,
+      payout,
+      profit: fullyFillable ? roundMicros(payout - totalCost) : null,
+      fullyFillable,
+    };
+  }
+
+  /**
+   * Builds an outcome from a child market, fetching it when tokens are missing.
+   *
+   * @internal
+   */
+  private async toOutcome(child: Market, group: Market): Promise<NegRiskOutcome> {
+    let tokens = child.tokens ?? this.marketFetcher.getTokens(child.slug);
+    let venue = child.venue ?? this.marketFetcher.getVenue(child.slug);
+
+    if (!tokens) {
+      const detailed = await this.marketFetcher.getMarket(child.slug);
+      tokens = detailed.tokens;
+      venue = venue ?? detailed.venue;
+    }
+    if (!tokens) {
+      throw new Error(`Outcome market ${child.slug} has no outcome tokens`);
+    }
+
+    return {
+      label: child.title,
+      marketSlug: child.slug,
+      marketId: child.id,
+      ...(child.orderInGroup !== undefined ? { orderInGroup: child.orderInGroup } : {}),
+      tokens,
+      prices: { yes: child.prices?.[0] ?? null, no: child.prices?.[1] ?? null },
+      status: child.status,
+      ...((venue ?? group.venue) ? { venue: venue ?? group.venue } : {}),
+    };
+  }
+
+  /**
+   * @internal
+   */
+  private matchOutcome(
+    groupSlug: string,
+    outcomes: NegRiskOutcome[],
+    outcome: string
+  ): NegRiskOutcome {
+    const bySlug = outcomes.find((candidate) => candidate.marketSlug === outcome);
+    if (bySlug) {
+      return bySlug;
+    }
+
+    const wanted = outcome.trim().toLowerCase();
+    const matches = outcomes.filter((candidate) => candidate.label.trim().toLowerCase() === wanted);
+    if (matches.length === 1) {
+      return matches[0];
+    }
+
+    throw new OrderValidationError(
+      matches.length === 0
+        ? `Unknown outcome "${outcome}" in ${groupSlug}. ` +
+            `Outcomes: ${outcomes.map((candidate) => candidate.label).join(', ')}`
+        : `Outcome "${outcome}" is ambiguous in ${groupSlug}; use the market slug instead`
+    );
+  }
+
+  /**
+   * @internal
+   */
+  private async isApproved(
+    contract: ConditionalTokensApprovalContract,
+    owner: string,
+    operator: string
+  ): Promise<boolean> {
+    const key = `${owner.toLowerCase()}:${operator.toLowerCase()}`;
+    const grantedAt = this.grantedApprovals.get(key);
+    if (grantedAt !== undefined && this.clock.now() - grantedAt < this.approvalCacheTtlMs) {
+      return true;
+    }
+
+    const approved = await contract.isApprovedForAll(owner, operator);
+    if (approved) {
+      this.grantedApprovals.set(key, this.clock.now());
+    } else {
+      this.grantedApprovals.delete(key);
+    }
+    return approved;
+  }
+
+  /**
+   * @internal
+   */
+  private async resolveMaker(): Promise<string> {
+    await this.orderClient.getWalletAddress();
+    return this.orderClient.makerAddress;
+  }
+}
+
+/**
+ * Rounds a USDC amount to 6 decimals.
+ */
+function roundMicros(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,271 @@
+/**
+ * Exchange nonce tracking and on-chain order invalidation.
+ * @module orders/nonce-manager
+ */
+
+import { ethers } from 'ethers';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+import type {
+  ExchangeNonceContract,
+  NonceInvalidationResult,
+  UnsignedOrder,
+} from '../types/orders';
+
+/**
+ * Human-readable ABI of the exchange nonce functions.
+ * @public
+ */
+export const EXCHANGE_NONCE_ABI = [
+  'function nonces(address) view returns (uint256)',
+  'function incrementNonce()',
+] as const;
+
+/**
+ * Creates the nonce contract binding for an exchange address.
+ * @public
+ */
+export type ExchangeNonceContractFactory = (exchange: string) => ExchangeNonceContract;
+
+/**
+ * Configuration for {@link NonceManager}.
+ * @public
+ */
+export interface NonceManagerConfig {
+  /**
+   * Runner for the default `ethers.Contract` binding
+   *
+   * @remarks
+   * A provider is enough for reading nonces; {@link NonceManager.invalidateAll}
+   * needs a signer for the maker address.
+   */
+  runner?: ethers.ContractRunner;
+
+  /**
+   * Custom contract binding (optional)
+   *
+   * @remarks
+   * Takes precedence over `runner`. Useful for in-memory stubs in tests or
+   * for routing calls through a smart-contract wallet.
+   */
+  contractFactory?: ExchangeNonceContractFactory;
+
+  /**
+   * Optional logger
+   */
+  logger?: ILogger;
+}
+
+/**
+ * Tracks the current exchange nonce per maker and venue.
+ *
+ * @remarks
+ * Orders are only fillable while their nonce equals the maker's nonce on the
+ * venue exchange contract. The manager reads that nonce once per maker/exchange
+ * pair, caches it, and stamps it onto orders. {@link NonceManager.invalidateAll}
+ * increments the on-chain nonce, which invalidates every outstanding order of the
+ * maker on that exchange, and updates the cache so new orders use the new nonce.
+ *
+ * @example
+ * ```typescript
+ * const nonceManager = new NonceManager({ runner: wallet.connect(provider) });
+ * const orderClient = new OrderClient({ httpClient, wallet, nonceManager });
+ *
+ * // Orders are stamped with the current exchange nonce
+ * await orderClient.createOrder({ ... });
+ *
+ * // Emergency kill switch: invalidate every order on the market's venue
+ * await orderClient.invalidateAllOrders('bitcoin-2024');
+ * ```
+ *
+ * @public
+ */
+export class NonceManager {
+  private readonly contractFactory: ExchangeNonceContractFactory;
+  private readonly logger: ILogger;
+  private readonly contracts: Map<string, ExchangeNonceContract> = new Map();
+  private readonly nonces: Map<string, Promise<number>> = new Map();
+
+  /**
+   * Creates a new nonce manager.
+   *
+   * @param config - Contract runner or factory and optional logger
+   *
+   * @throws Error if neither `runner` nor `contractFactory` is provided
+   */
+  constructor(config: NonceManagerConfig) {
+    this.logger = config.logger || new NoOpLogger();
+
+    if (config.contractFactory) {
+      this.contractFactory = config.contractFactory;
+    } else if (config.runner) {
+      const runner = config.runner;
+      this.contractFactory = (exchange) =>
+        new ethers.Contract(
+          exchange,
+          EXCHANGE_NONCE_ABI,
+          runner
+        ) as unknown as ExchangeNonceContract;
+    } else {
+      throw new Error('NonceManager requires a runner or contractFactory');
+    }
+  }
+
+  /**
+   * Gets the current nonce of a maker on an exchange.
+   *
+   * @remarks
+   * The first call per maker/exchange pair reads the contract; later calls use the
+   * cached value. Concurrent calls share one read.
+   *
+   * @param maker - Maker address
+   * @param exchange - Venue exchange contract address
+   * @returns Promise resolving to the current nonce
+   *
+   * @throws Error if the contract read fails
+   */
+  async getNonce(maker: string, exchange: string): Promise<number> {
+    const key = this.getKey(maker, exchange);
+    let nonce = this.nonces.get(key);
+
+    if (!nonce) {
+      const read = this.readNonce(maker, exchange);
+      this.nonces.set(key, read);
+      // Do not cache failed reads, unless a later read already replaced this one
+      read.catch(() => {
+        if (this.nonces.get(key) === read) {
+          this.nonces.delete(key);
+        }
+      });
+      nonce = read;
+    }
+
+    return nonce;
+  }
+
+  /**
+   * Re-reads the nonce of a maker from the contract, replacing the cached value.
+   *
+   * @param maker - Maker address
+   * @param exchange - Venue exchange contract address
+   * @returns Promise resolving to the current nonce
+   *
+   * @throws Error if the contract read fails
+   */
+  async refresh(maker: string, exchange: string): Promise<number> {
+    this.nonces.delete(this.getKey(maker, exchange));
+    return this.getNonce(maker, exchange);
+  }
+
+  /**
+   * Returns a copy of an order stamped with the maker's current nonce.
+   *
+   * @param order - Unsigned order (the nonce is read for `order.maker`)
+   * @param exchange - Venue exchange contract address
+   * @returns Promise resolving to the stamped order
+   *
+   * @throws Error if the contract read fails
+   */
+  async stampOrder(order: UnsignedOrder, exchange: string): Promise<UnsignedOrder> {
+    const nonce = await this.getNonce(order.maker, exchange);
+    return { ...order, nonce };
+  }
+
+  /**
+   * Invalidates every outstanding order of a maker on an exchange.
+   *
+   * @remarks
+   * Sends `incrementNonce()` from the contract runner, waits for it to be mined,
+   * and reads the new nonce back. The contract increments the nonce of the
+   * transaction sender, so the runner must be the maker: for smart-contract
+   * wallets, pass a `contractFactory` that routes the call through the wallet.
+   *
+   * Signed orders that were not yet submitted are invalidated as well.
+   *
+   * @param maker - Maker address
+   * @param exchange - Venue exchange contract address
+   * @returns Promise resolving to the previous and new nonce
+   *
+   * @throws Error if the transaction fails or the nonce did not change
+   */
+  async invalidateAll(maker: string, exchange: string): Promise<NonceInvalidationResult> {
+    const contract = this.getContract(exchange);
+    const previousNonce = await this.refresh(maker, exchange);
+
+    this.logger.warn('Invalidating all orders on exchange', { maker, exchange, previousNonce });
+
+    const transaction = await contract.incrementNonce();
+    await transaction.wait();
+
+    const nonce = await this.refresh(maker, exchange);
+    if (nonce <= previousNonce) {
+      throw new Error(
+        `Exchange nonce for ${maker} did not increase (still ${nonce}). ` +
+          'The increment must be sent by the maker address.'
+      );
+    }
+
+    this.logger.info('Exchange nonce incremented', {
+      maker,
+      exchange,
+      nonce,
+      transactionHash: transaction.hash,
+    });
+
+    return {
+      exchange,
+      maker,
+      previousNonce,
+      nonce,
+      ...(transaction.hash ? { transactionHash: transaction.hash } : {}),
+    };
+  }
+
+  /**
+   * Clears cached nonces.
+   */
+  clear(): void {
+    this.nonces.clear();
+  }
+
+  /**
+   * Reads and normalizes a nonce from the contract.
+   *
+   * @internal
+   */
+  private async readNonce(maker: string, exchange: string): Promise<number> {
+    const raw = await this.getContract(exchange).nonces(maker);
+    const nonce = Number(raw);
+
+    if (!Number.isSafeInteger(nonce) || nonce < 0) {
+      throw new Error(`Invalid exchange nonce for ${maker}: ${raw}`);
+    }
+
+    this.logger.debug('Read exchange nonce', { maker, exchange, nonce });
+    return nonce;
+  }
+
+  /**
+   * Gets or creates the contract binding for an exchange.
+   *
+   * @internal
+   */
+  private getContract(exchange: string): ExchangeNonceContract {
+    const key = exchange.toLowerCase();
+    let contract = this.contracts.get(key);
+
+    if (!contract) {
+      contract = this.contractFactory(exchange);
+      this.contracts.set(key, contract);
+    }
+
+    return contract;
+  }
+
+  /**
+   * @internal
+   */
+  private getKey(maker: string, exchange: string): string {
+    return `${exchange.toLowerCase()}:${maker.toLowerCase()}`;
+  }
+}
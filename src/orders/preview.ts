@@ -0,0 +1,422 @@
+/**
+ * Order previews against the current orderbook.
+ * @module orders/preview
+ */
+
+import type { OrderBook, OrderbookEntry } from '../types/markets';
+import type {
+  CreateOrderParams,
+  MarketOrderQuote,
+  OrderBookFill,
+  OrderPreview,
+  OrderPreviewFill,
+  UnsignedOrder,
+} from '../types/orders';
+import { OrderType, Side } from '../types/orders';
+import { toFiniteNumber } from '../utils/number-flex';
+import { OrderValidationError } from './validator';
+
+/**
+ * Scale of 6-decimal collateral, share and price amounts.
+ */
+const SCALE = 1_000_000n;
+
+/**
+ * Default price tick size (0.001 = 3 decimal places).
+ */
+const DEFAULT_PRICE_TICK = 0.001;
+
+/**
+ * Error raised when the orderbook cannot fill an order within its price limit.
+ * @public
+ */
+export class InsufficientLiquidityError extends Error {
+  /**
+   * Side of the order
+   */
+  public readonly side: Side;
+
+  /**
+   * Worst acceptable price (null when the book side is empty)
+   */
+  public readonly limitPrice: number | null;
+
+  constructor(message: string, side: Side, limitPrice: number | null) {
+    super(message);
+    this.name = 'InsufficientLiquidityError';
+    this.side = side;
+    this.limitPrice = limitPrice;
+  }
+}
+
+/**
+ * Orderbook level in 6-decimal integer units.
+ * @internal
+ */
+interface BookLevel {
+  price: bigint;
+  size: bigint;
+}
+
+/**
+ * Bids and asks for a single outcome token.
+ * @public
+ */
+export interface OutcomeOrderBook {
+  /**
+   * Token ID the levels are quoted for
+   */
+  tokenId: string;
+
+  /**
+   * Bids sorted by price descending
+   */
+  bids: OrderbookEntry[];
+
+  /**
+   * Asks sorted by price ascending
+   */
+  asks: OrderbookEntry[];
+}
+
+/**
+ * Result of walking orderbook levels.
+ * @internal
+ */
+interface BookWalk {
+  fills: OrderPreviewFill[];
+  filledShares: bigint;
+  filledCollateral: bigint;
+  /** True when the walk stopped because the budget ran out */
+  depleted: boolean;
+}
+
+function toMicros(value: number): bigint {
+  return BigInt(Math.round(value * 1e6));
+}
+
+function fromMicros(value: bigint): number {
+  return Number(value) / 1e6;
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function averagePrice(walk: BookWalk): number | null {
+  return walk.filledShares > 0n
+    ? fromMicros((walk.filledCollateral * SCALE) / walk.filledShares)
+    : null;
+}
+
+/**
+ * Orients an orderbook to the given outcome token.
+ *
+ * @remarks
+ * The API returns the book of the market's YES token. For any other token of the
+ * market (the NO token), levels are mirrored: a YES bid at `p` is a NO ask at `1 - p`
+ * and a YES ask at `p` is a NO bid at `1 - p`. Levels are sorted best first.
+ *
+ * @param orderBook - Orderbook from `MarketFetcher.getOrderBook()`
+ * @param tokenId - Outcome token to quote
+ * @returns Bids and asks for the token
+ *
+ * @public
+ */
+export function orientOrderBook(orderBook: OrderBook, tokenId: string): OutcomeOrderBook {
+  const complement = Boolean(orderBook.tokenId) && orderBook.tokenId !== tokenId;
+
+  const mirror = (entries: OrderbookEntry[], side: string): OrderbookEntry[] =>
+    entries.map((entry) => ({
+      ...entry,
+      price: fromMicros(SCALE - toMicros(Number(entry.price))),
+      side,
+    }));
+
+  const bids = complement ? mirror(orderBook.asks ?? [], 'BUY') : [...(orderBook.bids ?? [])];
+  const asks = complement ? mirror(orderBook.bids ?? [], 'SELL') : [...(orderBook.asks ?? [])];
+
+  return {
+    tokenId,
+    bids: bids.sort((a, b) => Number(b.price) - Number(a.price)),
+    asks: asks.sort((a, b) => Number(a.price) - Number(b.price)),
+  };
+}
+
+/**
+ * Converts orderbook entries to integer levels, dropping malformed entries.
+ *
+ * @internal
+ */
+function toLevels(entries: OrderbookEntry[]): BookLevel[] {
+  const levels: BookLevel[] = [];
+
+  for (const entry of entries) {
+    const price = toFiniteNumber(entry.price);
+    const size = toFiniteNumber(entry.size);
+    if (price === undefined || size === undefined || price <= 0 || size <= 0) {
+      continue;
+    }
+    levels.push({ price: toMicros(price), size: toMicros(size) });
+  }
+
+  return levels;
+}
+
+/**
+ * Walks levels until the share or collateral budget is used up or the limit price is crossed.
+ *
+ * @internal
+ */
+function walkLevels(
+  levels: BookLevel[],
+  side: Side,
+  budget: { shares: bigint } | { collateral: bigint },
+  limitPrice?: bigint
+): BookWalk {
+  const walk: BookWalk = { fills: [], filledShares: 0n, filledCollateral: 0n, depleted: false };
+  let remaining = 'shares' in budget ? budget.shares : budget.collateral;
+
+  for (const level of levels) {
+    if (
+      limitPrice !== undefined &&
+      (side === Side.BUY ? level.price > limitPrice : level.price < limitPrice)
+    ) {
+      break;
+    }
+
+    const size =
+      'shares' in budget
+        ? minBigInt(remaining, level.size)
+        : minBigInt((remaining * SCALE) / level.price, level.size);
+    if (size > 0n) {
+      const cost = (size * level.price) / SCALE;
+      remaining -= 'shares' in budget ? size : cost;
+
+      walk.fills.push({
+        price: fromMicros(level.price),
+        size: fromMicros(size),
+        cost: fromMicros(cost),
+      });
+      walk.filledShares += size;
+      walk.filledCollateral += cost;
+    }
+
+    if (size < level.size || remaining <= 0n) {
+      walk.depleted = true;
+      break;
+    }
+  }
+
+  return walk;
+}
+
+/**
+ * Builds an order preview from a built order and the current orderbook.
+ *
+ * @remarks
+ * BUY orders walk the asks and SELL orders walk the bids. GTC and FAK orders
+ * stop at their limit price; FOK orders have no price limit and are fully
+ * fillable only when the book covers the whole amount. Orderbook sizes are read
+ * as shares, as documented on `OrderbookEntry`.
+ *
+ * @param params - Order parameters
+ * @param order - Unsigned order built from `params`
+ * @param orderBook - Orderbook from `MarketFetcher.getOrderBook()`
+ * @returns Order preview
+ *
+ * @public
+ */
+export function buildOrderPreview(
+  params: CreateOrderParams,
+  order: UnsignedOrder,
+  orderBook: OrderBook
+): OrderPreview {
+  const book = orientOrderBook(orderBook, params.tokenId);
+  const levels = toLevels(params.side === Side.BUY ? book.asks : book.bids);
+  const makerAmount = BigInt(order.makerAmount);
+  const takerAmount = BigInt(order.takerAmount);
+  const isFOK = params.orderType === OrderType.FOK;
+
+  let walk: BookWalk;
+  let shares: bigint;
+  let collateral: bigint;
+
+  if (isFOK) {
+    if (params.side === Side.BUY) {
+      walk = walkLevels(levels, params.side, { collateral: makerAmount });
+      collateral = makerAmount;
+      shares = walk.filledShares;
+    } else {
+      walk = walkLevels(levels, params.side, { shares: makerAmount });
+      shares = makerAmount;
+      collateral = walk.filledCollateral;
+    }
+  } else {
+    shares = params.side === Side.BUY ? takerAmount : makerAmount;
+    collateral = params.side === Side.BUY ? makerAmount : takerAmount;
+    walk = walkLevels(levels, params.side, { shares }, toMicros(order.price ?? 0));
+  }
+
+  const restingShares = params.orderType === OrderType.GTC ? shares - walk.filledShares : 0n;
+  const fee = (collateral * BigInt(order.feeRateBps)) / 10_000n;
+
+  return {
+    marketSlug: params.marketSlug,
+    tokenId: params.tokenId,
+    side: params.side,
+    orderType: params.orderType,
+    price: order.price ?? null,
+    makerAmount: order.makerAmount,
+    takerAmount: order.takerAmount,
+    collateral: fromMicros(collateral),
+    shares: fromMicros(shares),
+    feeRateBps: order.feeRateBps,
+    fee: fromMicros(fee),
+    fills: walk.fills,
+    filledShares: fromMicros(walk.filledShares),
+    filledCollateral: fromMicros(walk.filledCollateral),
+    averageFillPrice: averagePrice(walk),
+    restingShares: fromMicros(restingShares),
+    fullyFillable: walk.depleted,
+  };
+}
+
+/**
+ * Fills a share amount against one side of an outcome orderbook.
+ *
+ * @remarks
+ * BUY walks the asks and SELL walks the bids, best level first, with no price
+ * limit. Orderbook sizes are read as shares.
+ *
+ * @param book - Outcome orderbook from {@link orientOrderBook}
+ * @param side - Order side
+ * @param shares - Shares to buy or sell
+ * @returns Expected fills and totals
+ *
+ * @throws OrderValidationError if the share amount is not positive
+ *
+ * @public
+ */
+export function quoteOrderBookFill(
+  book: OutcomeOrderBook,
+  side: Side,
+  shares: number
+): OrderBookFill {
+  if (!Number.isFinite(shares) || shares <= 0) {
+    throw new OrderValidationError(`Invalid size: ${shares}. Size must be positive.`);
+  }
+
+  const levels = toLevels(side === Side.BUY ? book.asks : book.bids);
+  const walk = walkLevels(levels, side, { shares: toMicros(shares) });
+
+  return {
+    fills: walk.fills,
+    filledShares: fromMicros(walk.filledShares),
+    filledCollateral: fromMicros(walk.filledCollateral),
+    averagePrice: averagePrice(walk),
+    fullyFillable: walk.depleted,
+  };
+}
+
+/**
+ * Quotes a slippage-protected market order against an outcome orderbook.
+ *
+ * @remarks
+ * The worst acceptable price is the best level moved by `maxSlippageBps`
+ * (up for BUY, down for SELL), aligned to the tick so it never exceeds the
+ * allowed slippage. The book is then walked up to that price:
+ * - BUY: `amount` is the USDC to spend; `size` is the largest tick-aligned share
+ *   count whose cost at the limit price fits in `amount`
+ * - SELL: `amount` is the number of shares to sell and is used as `size`
+ *
+ * @param book - Outcome orderbook from {@link orientOrderBook}
+ * @param side - Order side
+ * @param amount - USDC to spend (BUY) or shares to sell (SELL)
+ * @param maxSlippageBps - Maximum price move from the best level, in basis points
+ * @param priceTick - Price tick size (default: 0.001)
+ * @returns Market order quote
+ *
+ * @throws OrderValidationError if the amount or slippage is invalid
+ * @throws InsufficientLiquidityError if nothing can fill within the limit price
+ *
+ * @public
+ */
+export function quoteMarketOrder(
+  book: OutcomeOrderBook,
+  side: Side,
+  amount: number,
+  maxSlippageBps: number,
+  priceTick: number = DEFAULT_PRICE_TICK
+): MarketOrderQuote {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new OrderValidationError(`Invalid amount: ${amount}. Amount must be positive.`);
+  }
+  if (!Number.isInteger(maxSlippageBps) || maxSlippageBps < 0 || maxSlippageBps > 10_000) {
+    throw new OrderValidationError(
+      `Invalid maxSlippageBps: ${maxSlippageBps}. Must be an integer between 0 and 10000.`
+    );
+  }
+
+  const levels = toLevels(side === Side.BUY ? book.asks : book.bids);
+  if (levels.length === 0) {
+    throw new InsufficientLiquidityError(
+      `No ${side === Side.BUY ? 'asks' : 'bids'} on the orderbook for token ${book.tokenId}`,
+      side,
+      null
+    );
+  }
+
+  const tick = toMicros(priceTick);
+  const bestPrice = levels[0].price;
+  const bps = BigInt(maxSlippageBps);
+
+  let limitPrice: bigint;
+  if (side === Side.BUY) {
+    limitPrice = ((bestPrice * (10_000n + bps)) / 10_000n / tick) * tick;
+    limitPrice = minBigInt(limitPrice, SCALE - tick);
+  } else {
+    const raw = bestPrice * (10_000n - bps);
+    limitPrice = ((raw + 10_000n * tick - 1n) / (10_000n * tick)) * tick;
+    limitPrice = limitPrice < tick ? tick : limitPrice;
+  }
+
+  const amountMicros = toMicros(amount);
+  const walk =
+    side === Side.BUY
+      ? walkLevels(levels, side, { collateral: amountMicros }, limitPrice)
+      : walkLevels(levels, side, { shares: amountMicros }, limitPrice);
+
+  if (walk.filledShares === 0n) {
+    throw new InsufficientLiquidityError(
+      `No liquidity within ${maxSlippageBps} bps of best price ${fromMicros(bestPrice)} ` +
+        `(limit ${fromMicros(limitPrice)})`,
+      side,
+      fromMicros(limitPrice)
+    );
+  }
+
+  let size = amountMicros;
+  if (side === Side.BUY) {
+    const sharesStep = SCALE / tick;
+    size = ((amountMicros * SCALE) / limitPrice / sharesStep) * sharesStep;
+    if (size === 0n) {
+      throw new OrderValidationError(
+        `Invalid amount: ${amount}. Too small to buy ${fromMicros(sharesStep)} shares ` +
+          `at limit price ${fromMicros(limitPrice)}.`
+      );
+    }
+  }
+
+  return {
+    side,
+    bestPrice: fromMicros(bestPrice),
+    limitPrice: fromMicros(limitPrice),
+    size: fromMicros(size),
+    fills: walk.fills,
+    filledShares: fromMicros(walk.filledShares),
+    filledCollateral: fromMicros(walk.filledCollateral),
+    averagePrice: averagePrice(walk),
+    fullyFillable: walk.depleted,
+  };
+}
@@ -0,0 +1,696 @@
+/**
+ * Pre-trade risk checks for orders built by OrderClient.
+ * @module orders/risk-manager
+ */
+
+import { systemClock } from '../execution/clock';
+import type { MarketFetcher } from '../markets/fetcher';
+import type { PortfolioFetcher } from '../portfolio/fetcher';
+import type { ExecutionClock } from '../types/execution';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+import type {
+  OrderDetails,
+  RiskLimitName,
+  RiskLimits,
+  RiskOrder,
+  TrackedOrder,
+  UnsignedOrder,
+} from '../types/orders';
+import { OrderType, Side } from '../types/orders';
+import { orientOrderBook } from './preview';
+import type { OrderTracker } from './tracker';
+
+/**
+ * Default lifetime of cached portfolio positions.
+ */
+const DEFAULT_POSITIONS_TTL_MS = 5_000;
+
+/**
+ * Tolerance for floating-point limit comparisons.
+ */
+const EPSILON = 1e-9;
+
+/**
+ * Configuration for {@link RiskManager}.
+ * @public
+ */
+export interface RiskManagerConfig {
+  /**
+   * Limits to enforce
+   */
+  limits: RiskLimits;
+
+  /**
+   * Portfolio source, required for `maxMarketExposure` and `maxDailyLoss`
+   */
+  portfolioFetcher?: PortfolioFetcher;
+
+  /**
+   * Orderbook source, required for `priceBand`
+   */
+  marketFetcher?: MarketFetcher;
+
+  /**
+   * Order tracker keeping local open orders up to date with fills and cancels
+   */
+  orderTracker?: OrderTracker;
+
+  /**
+   * How long fetched positions are reused, in milliseconds
+   * @defaultValue 5000
+   */
+  positionsTtlMs?: number;
+
+  /**
+   * Clock used for caching and the daily loss window (default: system clock)
+   */
+  clock?: ExecutionClock;
+
+  /**
+   * Optional logger
+   */
+  logger?: ILogger;
+}
+
+/**
+ * Error thrown when an order breaches a risk limit.
+ * @public
+ */
+export class RiskLimitError extends Error {
+  /**
+   * Limit that tripped
+   */
+  public readonly limit: RiskLimitName;
+
+  /**
+   * Configured limit value
+   */
+  public readonly limitValue: number;
+
+  /**
+   * Value that breached the limit
+   */
+  public readonly actual: number;
+
+  /**
+   * Market of the rejected order
+   */
+  public readonly marketSlug: string;
+
+  constructor(
+    limit: RiskLimitName,
+    limitValue: number,
+    actual: number,
+    marketSlug: string,
+    detail: string
+  ) {
+    super(`Risk limit ${limit} exceeded on ${marketSlug}: ${detail}`);
+    this.name = 'RiskLimitError';
+    this.limit = limit;
+    this.limitValue = limitValue;
+    this.actual = actual;
+    this.marketSlug = marketSlug;
+  }
+}
+
+/**
+ * Open order counted towards market exposure.
+ */
+interface OpenOrderEntry {
+  marketSlug: string;
+  side: Side;
+  notional: number;
+  initialNotional: number;
+}
+
+/**
+ * Portfolio figures derived from CLOB positions.
+ */
+interface PortfolioSnapshot {
+  fetchedAt: number;
+  marketValue: Map<string, number>;
+  /** P&L of open positions plus the last seen P&L of positions closed today */
+  pnl: number;
+}
+
+/**
+ * Start-of-day P&L and the positions seen since, for `maxDailyLoss`.
+ */
+interface DailyBaseline {
+  /** UTC day (YYYY-MM-DD) */
+  day: string;
+  /** Total position P&L at the first fetch of the day */
+  pnl: number;
+  /** P&L per market at the latest fetch */
+  marketPnl: Map<string, number>;
+  /** Last seen P&L of positions that have since closed or been redeemed */
+  closedPnl: number;
+}
+
+/**
+ * Describes a built order for risk checks.
+ *
+ * @param marketSlug - Market slug
+ * @param orderType - Order type
+ * @param order - Built (or signed) order
+ * @param replacesOrderId - Order being replaced, if any
+ * @returns Risk view of the order
+ *
+ * @public
+ */
+export function toRiskOrder(
+  marketSlug: string,
+  orderType: OrderType,
+  order: UnsignedOrder,
+  replacesOrderId?: string
+): RiskOrder {
+  const makerAmount = Number(order.makerAmount) / 1e6;
+  // SELL orders move makerAmount shares; unpriced (FOK) sells are valued at the
+  // highest possible price here and at the mid by RiskManager
+  const notional = order.side === Side.BUY ? makerAmount : makerAmount * (order.price ?? 1);
+  const unpricedSell = order.side === Side.SELL && order.price === undefined;
+
+  return {
+    marketSlug,
+    tokenId: order.tokenId,
+    side: order.side,
+    orderType,
+    ...(order.price !== undefined ? { price: order.price } : {}),
+    notional,
+    ...(unpricedSell ? { shares: makerAmount } : {}),
+    ...(replacesOrderId !== undefined ? { replacesOrderId } : {}),
+  };
+}
+
+/**
+ * Sums a list of 6-decimal amount strings into collateral units.
+ */
+function sumMicros(values: Array<string | undefined>): number {
+  return values.reduce((total, value) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? total + parsed / 1e6 : total;
+  }, 0);
+}
+
+/**
+ * Pre-trade guardrails consulted by {@link OrderClient} before signing.
+ *
+ * @remarks
+ * Pass a `RiskManager` as `OrderClientConfig.riskManager` and every order is
+ * checked after it is built and before it is signed, including orders created
+ * through `createOrders()`, `replaceOrder()` and `submitSignedOrder()`. A breach
+ * throws a {@link RiskLimitError} naming the limit.
+ *
+ * - `maxOrderNotional`: collateral paid (BUY) or received (SELL) by the order;
+ *   SELL orders without a limit price are valued at the mid when a
+ *   `marketFetcher` is configured, and at 1 per share otherwise
+ * - `priceBand`: distance between the limit price and the mid from
+ *   `MarketFetcher.getOrderBook()`; orders without a limit price are not checked
+ * - `maxMarketExposure`: market value of the market's positions from
+ *   `PortfolioFetcher.getCLOBPositions()`, plus open BUY orders recorded
+ *   locally, plus the new BUY order. SELL orders reduce exposure and pass.
+ * - `maxDailyLoss`: drop in total position P&L since the first check of the
+ *   UTC day. Once reached, BUY orders are rejected and SELL orders still pass.
+ *   `getCLOBPositions()` only lists open positions, so a position that closes
+ *   or is redeemed keeps its P&L from the last fetch before it disappeared.
+ *   Price moves between that fetch and the close, and positions opened and
+ *   closed between two fetches, are not counted.
+ *
+ * Local open orders are GTC orders submitted through the client. They are
+ * released when cancelled through the client, and updated from fills and
+ * final statuses when an `orderTracker` is configured. Orders placed
+ * elsewhere can be added with {@link RiskManager.loadOpenOrders}. The client
+ * reserves each order's notional when it passes the checks and releases the
+ * reservation once the order is submitted or fails, so concurrent orders and
+ * orders in one `createOrders()` batch count towards each other's exposure.
+ *
+ * @example
+ * ```typescript
+ * const riskManager = new RiskManager({
+ *   limits: { maxOrderNotional: 500, maxMarketExposure: 2_000, maxDailyLoss: 250, priceBand: 0.1 },
+ *   portfolioFetcher: new PortfolioFetcher(httpClient),
+ *   marketFetcher,
+ * });
+ *
+ * const orderClient = new OrderClient({ httpClient, wallet, marketFetcher, riskManager });
+ *
+ * try {
+ *   await orderClient.createOrder(params);
+ * } catch (error) {
+ *   if (error instanceof RiskLimitError) {
+ *     console.warn(`${error.limit}: ${error.actual} > ${error.limitValue}`);
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class RiskManager {
+  private limits: RiskLimits;
+  private readonly portfolioFetcher?: PortfolioFetcher;
+  private readonly marketFetcher?: MarketFetcher;
+  private readonly positionsTtlMs: number;
+  private readonly clock: ExecutionClock;
+  private readonly logger: ILogger;
+  private readonly openOrders: Map<string, OpenOrderEntry> = new Map();
+  private readonly reservations: Map<string, OpenOrderEntry> = new Map();
+  private reservationCount = 0;
+  private portfolio?: PortfolioSnapshot;
+  private portfolioRequest?: Promise<PortfolioSnapshot>;
+  private dailyBaseline?: DailyBaseline;
+
+  /**
+   * Creates a risk manager.
+   *
+   * @param config - Limits and data sources
+   *
+   * @throws Error if a limit is invalid or its data source is missing
+   */
+  constructor(config: RiskManagerConfig) {
+    this.portfolioFetcher = config.portfolioFetcher;
+    this.marketFetcher = config.marketFetcher;
+    this.positionsTtlMs = config.positionsTtlMs ?? DEFAULT_POSITIONS_TTL_MS;
+    this.clock = config.clock ?? systemClock;
+    this.logger = config.logger || new NoOpLogger();
+    this.limits = this.validateLimits(config.limits);
+
+    config.orderTracker?.on('update', (order) => this.handleTrackedOrder(order));
+  }
+
+  /**
+   * Gets the configured limits.
+   */
+  getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Replaces the configured limits.
+   *
+   * @throws Error if a limit is invalid or its data source is missing
+   */
+  setLimits(limits: RiskLimits): void {
+    this.limits = this.validateLimits(limits);
+    this.logger.info('Risk limits updated', { ...this.limits });
+  }
+
+  /**
+   * Checks an order against every configured limit.
+   *
+   * @param order - Order to check (see {@link toRiskOrder})
+   *
+   * @throws RiskLimitError if a limit is breached
+   * @throws Error if positions or the orderbook cannot be fetched
+   */
+  async checkOrder(order: RiskOrder): Promise<void> {
+    await this.runChecks(order);
+  }
+
+  /**
+   * Checks an order and reserves its notional until it is submitted.
+   *
+   * @remarks
+   * The reservation counts towards `maxMarketExposure` in later checks. Release
+   * it with {@link RiskManager.releaseReservation} when the order is rejected,
+   * or after {@link RiskManager.recordOrder} when it was submitted.
+   *
+   * @param order - Order to check (see {@link toRiskOrder})
+   * @returns Reservation ID
+   *
+   * @throws RiskLimitError if a limit is breached (nothing is reserved)
+   * @throws Error if positions or the orderbook cannot be fetched
+   */
+  async reserveOrder(order: RiskOrder): Promise<string> {
+    const reservationId = `reservation-${++this.reservationCount}`;
+    await this.runChecks(order, reservationId);
+    return reservationId;
+  }
+
+  /**
+   * Releases a reservation made by {@link RiskManager.reserveOrder}.
+   *
+   * @returns True if the reservation was held
+   */
+  releaseReservation(reservationId: string): boolean {
+    return this.reservations.delete(reservationId);
+  }
+
+  /**
+   * Runs every configured check, then stores the reservation (if any) in the
+   * same synchronous step as the last exposure check.
+   *
+   * @internal
+   */
+  private async runChecks(order: RiskOrder, reservationId?: string): Promise<void> {
+    const { maxOrderNotional, maxMarketExposure, maxDailyLoss, priceBand } = this.limits;
+
+    if (maxOrderNotional !== undefined) {
+      const notional = await this.getNotional(order);
+      if (notional > maxOrderNotional + EPSILON) {
+        throw this.reject(
+          'maxOrderNotional',
+          maxOrderNotional,
+          notional,
+          order,
+          `order notional ${notional} exceeds ${maxOrderNotional}`
+        );
+      }
+    }
+
+    if (priceBand !== undefined && order.price !== undefined) {
+      const mid = await this.getMid(order.marketSlug, order.tokenId);
+      if (mid === undefined) {
+        this.logger.warn('No mid price, skipping price band check', {
+          marketSlug: order.marketSlug,
+        });
+      } else {
+        const distance = Math.abs(order.price - mid);
+        if (distance > priceBand + EPSILON) {
+          throw this.reject(
+            'priceBand',
+            priceBand,
+            distance,
+            order,
+            `price ${order.price} is ${distance.toFixed(4)} from mid ${mid} (band ${priceBand})`
+          );
+        }
+      }
+    }
+
+    if (
+      order.side === Side.BUY &&
+      (maxDailyLoss !== undefined || maxMarketExposure !== undefined)
+    ) {
+      const portfolio = await this.getPortfolio();
+
+      if (maxDailyLoss !== undefined) {
+        const loss = this.dailyBaseline!.pnl - portfolio.pnl;
+        if (loss >= maxDailyLoss - EPSILON) {
+          throw this.reject(
+            'maxDailyLoss',
+            maxDailyLoss,
+            loss,
+            order,
+            `daily loss ${loss} reached ${maxDailyLoss}; only SELL orders are allowed`
+          );
+        }
+      }
+
+      if (maxMarketExposure !== undefined) {
+        const exposure =
+          (portfolio.marketValue.get(order.marketSlug) ?? 0) +
+          this.getOpenExposure(order.marketSlug, order.replacesOrderId) +
+          order.notional;
+        if (exposure > maxMarketExposure + EPSILON) {
+          throw this.reject(
+            'maxMarketExposure',
+            maxMarketExposure,
+            exposure,
+            order,
+            `exposure ${exposure} would exceed ${maxMarketExposure}`
+          );
+        }
+      }
+    }
+
+    if (reservationId !== undefined) {
+      this.reservations.set(reservationId, {
+        marketSlug: order.marketSlug,
+        side: order.side,
+        notional: order.notional,
+        initialNotional: order.notional,
+      });
+    }
+  }
+
+  /**
+   * Records a submitted order as open. Only GTC orders rest on the book.
+   *
+   * @param orderId - Order ID returned by the API
+   * @param order - Order as checked
+   */
+  recordOrder(orderId: string, order: RiskOrder): void {
+    if (order.orderType !== OrderType.GTC) {
+      return;
+    }
+    if (order.replacesOrderId !== undefined) {
+      this.openOrders.delete(order.replacesOrderId);
+    }
+
+    this.openOrders.set(orderId, {
+      marketSlug: order.marketSlug,
+      side: order.side,
+      notional: order.notional,
+      initialNotional: order.notional,
+    });
+  }
+
+  /**
+   * Adds existing open orders, such as the result of `OrderClient.getOpenOrders()`.
+   *
+   * @param orders - Open orders; orders without a market slug or price are skipped
+   */
+  loadOpenOrders(orders: OrderDetails[]): void {
+    for (const order of orders) {
+      if (!order.marketSlug || order.price === null || order.price === undefined) {
+        continue;
+      }
+      const notional = (order.remainingSize / 1e6) * order.price;
+      this.openOrders.set(order.id, {
+        marketSlug: order.marketSlug,
+        side: order.side,
+        notional,
+        initialNotional: notional,
+      });
+    }
+  }
+
+  /**
+   * Removes an order from local open orders.
+   *
+   * @returns True if the order was recorded
+   */
+  releaseOrder(orderId: string): boolean {
+    return this.openOrders.delete(orderId);
+  }
+
+  /**
+   * Removes every local open order of a market.
+   *
+   * @returns Number of orders removed
+   */
+  releaseMarket(marketSlug: string): number {
+    let removed = 0;
+    for (const [orderId, entry] of this.openOrders) {
+      if (entry.marketSlug === marketSlug) {
+        this.openOrders.delete(orderId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Gets the notional of local open and reserved BUY orders in a market.
+   *
+   * @param marketSlug - Market slug
+   * @param excludeOrderId - Order to leave out, e.g. one being replaced
+   */
+  getOpenExposure(marketSlug: string, excludeOrderId?: string): number {
+    let total = 0;
+    for (const [orderId, entry] of [...this.openOrders, ...this.reservations]) {
+      if (
+        entry.marketSlug === marketSlug &&
+        entry.side === Side.BUY &&
+        orderId !== excludeOrderId
+      ) {
+        total += entry.notional;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Gets the loss since the start of the UTC day, fetching positions if stale.
+   *
+   * @returns Loss in collateral units (negative when in profit)
+   */
+  async getDailyLoss(): Promise<number> {
+    const portfolio = await this.getPortfolio();
+    return this.dailyBaseline!.pnl - portfolio.pnl;
+  }
+
+  /**
+   * Drops cached positions so the next check fetches them again.
+   */
+  invalidatePositions(): void {
+    this.portfolio = undefined;
+  }
+
+  /**
+   * Gets cached portfolio figures, fetching them when stale.
+   *
+   * @internal
+   */
+  private async getPortfolio(): Promise<PortfolioSnapshot> {
+    const now = this.clock.now();
+    if (this.portfolio && now - this.portfolio.fetchedAt < this.positionsTtlMs) {
+      return this.portfolio;
+    }
+
+    if (!this.portfolioRequest) {
+      this.portfolioRequest = this.fetchPortfolio().finally(() => {
+        this.portfolioRequest = undefined;
+      });
+    }
+    return this.portfolioRequest;
+  }
+
+  /**
+   * @internal
+   */
+  private async fetchPortfolio(): Promise<PortfolioSnapshot> {
+    const positions = await this.portfolioFetcher!.getCLOBPositions();
+    const marketValue = new Map<string, number>();
+    const marketPnl = new Map<string, number>();
+    let pnl = 0;
+
+    for (const position of positions) {
+      const { yes, no } = position.positions;
+      const slug = position.market.slug;
+      const value = sumMicros([yes?.marketValue, no?.marketValue]);
+      const positionPnl = sumMicros([
+        yes?.realisedPnl,
+        yes?.unrealizedPnl,
+        no?.realisedPnl,
+        no?.unrealizedPnl,
+      ]);
+      marketValue.set(slug, (marketValue.get(slug) ?? 0) + value);
+      marketPnl.set(slug, (marketPnl.get(slug) ?? 0) + positionPnl);
+      pnl += positionPnl;
+    }
+
+    const now = this.clock.now();
+    const day = new Date(now).toISOString().slice(0, 10);
+    const baseline = this.dailyBaseline;
+    if (baseline?.day !== day) {
+      this.dailyBaseline = { day, pnl, marketPnl, closedPnl: 0 };
+      this.logger.debug('Daily loss baseline set', { day, pnl });
+    } else {
+      // Closed and redeemed positions drop out of the list; keep their last P&L
+      for (const [slug, lastPnl] of baseline.marketPnl) {
+        if (!marketPnl.has(slug)) {
+          baseline.closedPnl += lastPnl;
+        }
+      }
+      baseline.marketPnl = marketPnl;
+    }
+
+    this.portfolio = { fetchedAt: now, marketValue, pnl: pnl + this.dailyBaseline!.closedPnl };
+    return this.portfolio;
+  }
+
+  /**
+   * Gets the notional of an order, valuing unpriced SELL orders at the mid.
+   *
+   * @internal
+   */
+  private async getNotional(order: RiskOrder): Promise<number> {
+    if (order.shares === undefined || !this.marketFetcher) {
+      return order.notional;
+    }
+
+    const mid = await this.getMid(order.marketSlug, order.tokenId);
+    if (mid === undefined) {
+      this.logger.warn('No mid price, valuing SELL order at 1 per share', {
+        marketSlug: order.marketSlug,
+      });
+      return order.notional;
+    }
+    return order.shares * mid;
+  }
+
+  /**
+   * Gets the mid price of a token from the market orderbook.
+   *
+   * @internal
+   */
+  private async getMid(marketSlug: string, tokenId: string): Promise<number | undefined> {
+    const orderBook = await this.marketFetcher!.getOrderBook(marketSlug);
+    const { bids, asks } = orientOrderBook(orderBook, tokenId);
+    const bestBid = Number(bids[0]?.price);
+    const bestAsk = Number(asks[0]?.price);
+
+    if (Number.isFinite(bestBid) && Number.isFinite(bestAsk)) {
+      return (bestBid + bestAsk) / 2;
+    }
+
+    const adjusted = Number(orderBook.adjustedMidpoint);
+    if (!Number.isFinite(adjusted) || adjusted <= 0) {
+      return undefined;
+    }
+    return orderBook.tokenId && orderBook.tokenId !== tokenId ? 1 - adjusted : adjusted;
+  }
+
+  /**
+   * Scales or releases a local open order as the tracker reports fills.
+   *
+   * @internal
+   */
+  private handleTrackedOrder(order: TrackedOrder): void {
+    const entry = this.openOrders.get(order.orderId);
+    if (!entry) {
+      return;
+    }
+
+    if (order.status === 'FILLED' || order.status === 'CANCELLED' || order.status === 'EXPIRED') {
+      this.openOrders.delete(order.orderId);
+    } else if (order.size > 0) {
+      entry.notional = entry.initialNotional * (order.remainingSize / order.size);
+      // Filled size now shows up in positions
+      this.invalidatePositions();
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private reject(
+    limit: RiskLimitName,
+    limitValue: number,
+    actual: number,
+    order: RiskOrder,
+    detail: string
+  ): RiskLimitError {
+    const error = new RiskLimitError(limit, limitValue, actual, order.marketSlug, detail);
+    this.logger.warn('Order rejected by risk limit', {
+      limit,
+      limitValue,
+      actual,
+      marketSlug: order.marketSlug,
+    });
+    return error;
+  }
+
+  /**
+   * @internal
+   */
+  private validateLimits(limits: RiskLimits): RiskLimits {
+    for (const [name, value] of Object.entries(limits)) {
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        throw new Error(`Invalid risk limit ${name}: ${value}. Must be a non-negative number.`);
+      }
+    }
+    if (
+      (limits.maxMarketExposure !== undefined || limits.maxDailyLoss !== undefined) &&
+      !this.portfolioFetcher
+    ) {
+      throw new Error('maxMarketExposure and maxDailyLoss require a portfolioFetcher');
+    }
+    if (limits.priceBand !== undefined && !this.marketFetcher) {
+      throw new Error('priceBand requires a marketFetcher');
+    }
+    return { ...limits };
+  }
+}
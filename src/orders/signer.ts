@@ -7,13 +7,220 @@ import { ethers } from 'ethers';
 import type { UnsignedOrder, OrderSigningConfig } from '../types/orders';
 import type { ILogger } from '../types/logger';
 import { NoOpLogger } from '../types/logger';
+import type {
+  OrderSigningBackend,
+  OrderTypedDataDomain,
+  OrderTypedDataInput,
+  TypedDataField,
+} from '../types/signing';
 
 /**
- * EIP-712 typed data field definition.
+ * EIP-712 domain name of the Limitless CTF Exchange.
+ * @public
+ */
+export const ORDER_DOMAIN_NAME = 'Limitless CTF Exchange';
+
+/**
+ * EIP-712 domain version of the Limitless CTF Exchange.
+ * @public
+ */
+export const ORDER_DOMAIN_VERSION = '1';
+
+/**
+ * Gets the EIP-712 domain for order signing.
+ *
+ * @param config - Signing configuration
+ * @returns EIP-712 domain object
+ *
+ * @public
+ */
+export function getOrderDomain(config: OrderSigningConfig): OrderTypedDataDomain {
+  return {
+    name: ORDER_DOMAIN_NAME,
+    version: ORDER_DOMAIN_VERSION,
+    chainId: config.chainId,
+    verifyingContract: config.contractAddress,
+  };
+}
+
+/**
+ * Gets the EIP-712 type definitions.
+ *
+ * @remarks
+ * This matches the order structure expected by the Limitless Exchange
+ * smart contracts.
+ *
+ * @returns EIP-712 types definition
+ *
+ * @public
+ */
+export function getOrderTypes(): Record<string, TypedDataField[]> {
+  return {
+    Order: [
+      { name: 'salt', type: 'uint256' },
+      { name: 'maker', type: 'address' },
+      { name: 'signer', type: 'address' },
+      { name: 'taker', type: 'address' },
+      { name: 'tokenId', type: 'uint256' },
+      { name: 'makerAmount', type: 'uint256' },
+      { name: 'takerAmount', type: 'uint256' },
+      { name: 'expiration', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'feeRateBps', type: 'uint256' },
+      { name: 'side', type: 'uint8' },
+      { name: 'signatureType', type: 'uint8' },
+    ],
+  };
+}
+
+/**
+ * Converts an order field to a uint decimal string.
+ *
+ * @internal
+ */
+function toUintString(value: number | string | bigint | null, field: string): string {
+  if (value === null || value === '') {
+    return '0';
+  }
+
+  if (field === 'side' && typeof value === 'string') {
+    const side = value.toUpperCase();
+    if (side === 'BUY') return '0';
+    if (side === 'SELL') return '1';
+  }
+
+  let parsed: bigint;
+  try {
+    parsed = BigInt(value);
+  } catch {
+    throw new Error(`Invalid order ${field}: ${value}`);
+  }
+
+  if (parsed < 0n) {
+    throw new Error(`Invalid order ${field}: ${value}`);
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Builds the EIP-712 `Order` struct value from an order.
+ *
+ * @remarks
+ * Extra fields (price, signature, API metadata) are dropped and numeric fields
+ * are normalized to decimal strings, so API orders and locally built orders
+ * with the same contents produce the same value.
+ *
+ * @param order - Locally built or API order
+ * @returns EIP-712 order value
+ *
+ * @throws Error if a numeric field is not a non-negative integer
+ *
+ * @public
+ */
+export function buildOrderTypedDataValue(order: OrderTypedDataInput): Record<string, string> {
+  return {
+    salt: toUintString(order.salt, 'salt'),
+    maker: order.maker,
+    signer: order.signer,
+    taker: order.taker,
+    tokenId: toUintString(order.tokenId, 'tokenId'),
+    makerAmount: toUintString(order.makerAmount, 'makerAmount'),
+    takerAmount: toUintString(order.takerAmount, 'takerAmount'),
+    expiration: toUintString(order.expiration, 'expiration'),
+    nonce: toUintString(order.nonce, 'nonce'),
+    feeRateBps: toUintString(order.feeRateBps, 'feeRateBps'),
+    side: toUintString(order.side, 'side'),
+    signatureType: toUintString(order.signatureType, 'signatureType'),
+  };
+}
+
+/**
+ * Computes the EIP-712 hash of an order.
+ *
+ * @remarks
+ * This is the digest the exchange contract verifies, so it can be used to
+ * audit an order before submission or to match it against on-chain events.
+ *
+ * @param order - Locally built or API order
+ * @param config - Signing configuration (chainId, exchange contract address)
+ * @returns 0x-prefixed 32-byte hash
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * const hash = hashOrder(signedOrder, { chainId: 8453, contractAddress: venue.exchange });
+ * ```
+ */
+export function hashOrder(order: OrderTypedDataInput, config: OrderSigningConfig): string {
+  return ethers.TypedDataEncoder.hash(
+    getOrderDomain(config),
+    getOrderTypes(),
+    buildOrderTypedDataValue(order)
+  );
+}
+
+/**
+ * Recovers the address that produced an order signature.
+ *
+ * @param order - Locally built or API order
+ * @param signature - EIP-712 signature
+ * @param config - Signing configuration (chainId, exchange contract address)
+ * @returns Checksummed signer address
+ *
+ * @throws Error if the signature is malformed
+ *
+ * @public
+ */
+export function recoverOrderSigner(
+  order: OrderTypedDataInput,
+  signature: string,
+  config: OrderSigningConfig
+): string {
+  return ethers.verifyTypedData(
+    getOrderDomain(config),
+    getOrderTypes(),
+    buildOrderTypedDataValue(order),
+    signature
+  );
+}
+
+/**
+ * Checks that an order signature was produced by the expected signer.
+ *
+ * @remarks
+ * Malformed signatures return `false` rather than throwing.
+ *
+ * @param order - Locally built or API order
+ * @param signature - EIP-712 signature
+ * @param config - Signing configuration (chainId, exchange contract address)
+ * @param expectedSigner - Address expected to have signed (default: `order.signer`)
+ * @returns True if the recovered signer matches
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * if (!verifyOrderSignature(order, order.signature, signingConfig)) {
+ *   throw new Error('Order signature does not match its signer');
+ * }
+ * ```
  */
-interface TypedDataField {
-  name: string;
-  type: string;
+export function verifyOrderSignature(
+  order: OrderTypedDataInput,
+  signature: string,
+  config: OrderSigningConfig,
+  expectedSigner: string = order.signer
+): boolean {
+  let recovered: string;
+  try {
+    recovered = recoverOrderSigner(order, signature, config);
+  } catch {
+    return false;
+  }
+
+  return recovered.toLowerCase() === expectedSigner.toLowerCase();
 }
 
 /**
@@ -26,16 +233,22 @@ interface TypedDataField {
  * Domain: "Limitless CTF Exchange"
  * Version: "1"
  *
+ * Use {@link hashOrder} and {@link recoverOrderSigner} to audit signatures
+ * against the same domain and types.
+ *
+ * Signing is delegated to an {@link OrderSigningBackend}: any `ethers.Signer`
+ * (including `ethers.Wallet`), an EIP-1193 provider adapter, or a callback adapter.
+ *
  * @public
  */
 export class OrderSigner {
-  private wallet: ethers.Wallet;
+  private backend: OrderSigningBackend;
   private logger: ILogger;
 
   /**
    * Creates a new order signer instance.
    *
-   * @param wallet - Ethers wallet for signing
+   * @param backend - Ethers wallet/signer or other signing backend
    * @param logger - Optional logger for debugging (default: no logging)
    *
    * @example
@@ -45,10 +258,13 @@ export class OrderSigner {
    *
    * const wallet = new ethers.Wallet(privateKey);
    * const signer = new OrderSigner(wallet);
+   *
+   * // Browser wallet
+   * const browserSigner = new OrderSigner(new Eip1193SigningBackend(window.ethereum));
    * ```
    */
-  constructor(wallet: ethers.Wallet, logger?: ILogger) {
-    this.wallet = wallet;
+  constructor(backend: OrderSigningBackend | ethers.Signer, logger?: ILogger) {
+    this.backend = backend;
     this.logger = logger || new NoOpLogger();
   }
 
@@ -59,7 +275,7 @@ export class OrderSigner {
    * @param config - Signing configuration (chainId, contract address, market type)
    * @returns Promise resolving to EIP-712 signature
    *
-   * @throws Error if wallet address doesn't match order signer
+   * @throws Error if signer address doesn't match order signer
    * @throws Error if signing fails
    *
    * @example
@@ -77,8 +293,8 @@ export class OrderSigner {
       verifyingContract: config.contractAddress,
     });
 
-    // Verify wallet address matches signer
-    const walletAddress = await this.wallet.getAddress();
+    // Verify backend address matches signer
+    const walletAddress = await this.backend.getAddress();
     if (walletAddress.toLowerCase() !== order.signer.toLowerCase()) {
       const error = `Wallet address mismatch! Signing with: ${walletAddress}, but order signer is: ${order.signer}`;
       this.logger.error(error);
@@ -86,37 +302,24 @@ export class OrderSigner {
     }
 
     // Get EIP-712 domain
-    const domain = this.getDomain(config);
+    const domain = getOrderDomain(config);
     this.logger.debug('EIP-712 Domain', domain);
 
     // Get EIP-712 types
-    const types = this.getTypes();
+    const types = getOrderTypes();
 
     // Prepare order value for signing (exclude price field)
-    const orderValue = {
-      salt: order.salt,
-      maker: order.maker,
-      signer: order.signer,
-      taker: order.taker,
-      tokenId: order.tokenId,
-      makerAmount: order.makerAmount,
-      takerAmount: order.takerAmount,
-      expiration: order.expiration,
-      nonce: order.nonce,
-      feeRateBps: order.feeRateBps,
-      side: order.side,
-      signatureType: order.signatureType,
-    };
+    const orderValue = buildOrderTypedDataValue(order);
 
     this.logger.debug('EIP-712 Order Value', orderValue);
     this.logger.debug('Full signing payload', {
       domain,
-      types: this.getTypes(),
+      types,
       value: orderValue,
     });
     try {
       // Sign with EIP-712
-      const signature = await this.wallet.signTypedData(domain, types, orderValue);
+      const signature = await this.backend.signTypedData(domain, types, orderValue);
       this.logger.info('Successfully generated EIP-712 signature', {
         signature: signature.slice(0, 10) + '...',
       });
@@ -126,56 +329,4 @@ export class OrderSigner {
       throw error;
     }
   }
-
-  /**
-   * Gets the EIP-712 domain for signing.
-   *
-   * @param config - Signing configuration
-   * @returns EIP-712 domain object
-   *
-   * @internal
-   */
-  private getDomain(config: OrderSigningConfig): {
-    name: string;
-    version: string;
-    chainId: number;
-    verifyingContract: string;
-  } {
-    return {
-      name: 'Limitless CTF Exchange',
-      version: '1',
-      chainId: config.chainId,
-      verifyingContract: config.contractAddress,
-    };
-  }
-
-  /**
-   * Gets the EIP-712 type definitions.
-   *
-   * @remarks
-   * This matches the order structure expected by the Limitless Exchange
-   * smart contracts.
-   *
-   * @returns EIP-712 types definition
-   *
-   * @internal
-   */
-  private getTypes(): Record<string, TypedDataField[]> {
-    return {
-      Order: [
-        { name: 'salt', type: 'uint256' },
-        { name: 'maker', type: 'address' },
-        { name: 'signer', type: 'address' },
-        { name: 'taker', type: 'address' },
-        { name: 'tokenId', type: 'uint256' },
-        { name: 'makerAmount', type: 'uint256' },
-        { name: 'takerAmount', type: 'uint256' },
-        { name: 'expiration', type: 'uint256' },
-        { name: 'nonce', type: 'uint256' },
-        { name: 'feeRateBps', type: 'uint256' },
-        { name: 'side', type: 'uint8' },
-        { name: 'signatureType', type: 'uint8' },
-      ],
-    };
-  }
 }
@@ -0,0 +1,175 @@
+/**
+ * Signing backend adapters for EIP-712 order signing.
+ * @module orders/signing-backends
+ */
+
+import { ethers } from 'ethers';
+import type {
+  CallbackSigningBackendConfig,
+  Eip1193Provider,
+  OrderSigningBackend,
+  OrderTypedDataDomain,
+  TypedDataField,
+  TypedDataSigningRequest,
+} from '../types/signing';
+
+/**
+ * Builds the `eth_signTypedData_v4` payload for the given typed data.
+ *
+ * @internal
+ */
+function buildSigningRequest(
+  domain: OrderTypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, any>
+): TypedDataSigningRequest {
+  return ethers.TypedDataEncoder.getPayload(domain, types, value) as TypedDataSigningRequest;
+}
+
+/**
+ * Signing backend backed by any ethers signer.
+ *
+ * @remarks
+ * `ethers.Wallet` and other `ethers.Signer` implementations can be passed directly
+ * wherever an {@link OrderSigningBackend} is accepted. This adapter exists for
+ * explicitness and for signers that only expose the `ethers.Signer` type.
+ *
+ * @example
+ * ```typescript
+ * const provider = new ethers.BrowserProvider(window.ethereum);
+ * const backend = new EthersSigningBackend(await provider.getSigner());
+ * ```
+ *
+ * @public
+ */
+export class EthersSigningBackend implements OrderSigningBackend {
+  private signer: ethers.Signer;
+
+  /**
+   * Creates a new ethers signing backend.
+   *
+   * @param signer - Ethers signer
+   */
+  constructor(signer: ethers.Signer) {
+    this.signer = signer;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  async signTypedData(
+    domain: OrderTypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.signer.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Signing backend for EIP-1193 providers such as browser wallets.
+ *
+ * @remarks
+ * Signs with `eth_signTypedData_v4`. When no address is given, the first
+ * account from `eth_requestAccounts` is used and cached.
+ *
+ * @example
+ * ```typescript
+ * const backend = new Eip1193SigningBackend(window.ethereum);
+ * const orderClient = new OrderClient({ httpClient, wallet: backend });
+ * ```
+ *
+ * @public
+ */
+export class Eip1193SigningBackend implements OrderSigningBackend {
+  private provider: Eip1193Provider;
+  private address?: string;
+
+  /**
+   * Creates a new EIP-1193 signing backend.
+   *
+   * @param provider - EIP-1193 provider
+   * @param address - Account to sign with (default: first requested account)
+   */
+  constructor(provider: Eip1193Provider, address?: string) {
+    this.provider = provider;
+    this.address = address;
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts = (await this.provider.request({ method: 'eth_requestAccounts' })) as string[];
+      if (!Array.isArray(accounts) || accounts.length === 0) {
+        throw new Error('EIP-1193 provider returned no accounts');
+      }
+      this.address = ethers.getAddress(accounts[0]);
+    }
+
+    return this.address;
+  }
+
+  async signTypedData(
+    domain: OrderTypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const address = await this.getAddress();
+    const request = buildSigningRequest(domain, types, value);
+
+    const signature = await this.provider.request({
+      method: 'eth_signTypedData_v4',
+      params: [address, JSON.stringify(request)],
+    });
+
+    if (typeof signature !== 'string') {
+      throw new Error('EIP-1193 provider returned an invalid signature');
+    }
+
+    return signature;
+  }
+}
+
+/**
+ * Signing backend that delegates to an async callback.
+ *
+ * @remarks
+ * Use for KMS/HSM keys or remote signing services. The callback receives the
+ * full `eth_signTypedData_v4` payload and must return the 65-byte hex signature.
+ *
+ * @example
+ * ```typescript
+ * const backend = new CallbackSigningBackend({
+ *   address: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+ *   sign: async (request) => kmsClient.signTypedData(keyId, request),
+ * });
+ * ```
+ *
+ * @public
+ */
+export class CallbackSigningBackend implements OrderSigningBackend {
+  private config: CallbackSigningBackendConfig;
+
+  /**
+   * Creates a new callback signing backend.
+   *
+   * @param config - Address and signing callback
+   */
+  constructor(config: CallbackSigningBackendConfig) {
+    this.config = config;
+  }
+
+  async getAddress(): Promise<string> {
+    return typeof this.config.address === 'string'
+      ? this.config.address
+      : await this.config.address();
+  }
+
+  async signTypedData(
+    domain: OrderTypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.config.sign(buildSigningRequest(domain, types, value));
+  }
+}
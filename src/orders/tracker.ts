@@ -0,0 +1,590 @@
+/**
+ * Order lifecycle tracking from WebSocket order and fill events.
+ * @module orders/tracker
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import { systemClock } from '../execution/clock';
+import type { ExecutionClock, ExecutionTimer } from '../types/execution';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+import type {
+  OrderExpiredEvent,
+  OrderResponse,
+  OrderStatus,
+  OrderTrackerEvents,
+  TrackedOrder,
+} from '../types/orders';
+import { Side } from '../types/orders';
+import type { FillEvent, OrderUpdate } from '../types/websocket';
+import type { WebSocketClient } from '../websocket/client';
+import type { OrderClient } from './client';
+
+/**
+ * Default interval between REST status checks while the WebSocket is down.
+ */
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+/**
+ * Statuses an order can never leave.
+ */
+const TERMINAL_STATUSES: ReadonlySet<OrderStatus> = new Set(['FILLED', 'CANCELLED', 'EXPIRED']);
+
+/**
+ * Configuration for {@link OrderTracker}.
+ * @public
+ */
+export interface OrderTrackerConfig {
+  /**
+   * Interval between REST status checks while the WebSocket is disconnected
+   * @defaultValue 5000
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Clock used for polling and wait timeouts (default: system clock)
+   */
+  clock?: ExecutionClock;
+
+  /**
+   * Optional logger
+   */
+  logger?: ILogger;
+}
+
+/**
+ * Error thrown by {@link OrderTracker.waitForFill} when an order will not fill
+ * in time.
+ * @public
+ */
+export class OrderWaitError extends Error {
+  /**
+   * Why the wait ended: the timeout elapsed, or the order was cancelled or expired
+   */
+  public readonly reason: 'timeout' | 'cancelled' | 'expired';
+
+  /**
+   * Order state when the wait ended
+   */
+  public readonly order: TrackedOrder;
+
+  constructor(reason: 'timeout' | 'cancelled' | 'expired', order: TrackedOrder) {
+    super(
+      reason === 'timeout'
+        ? `Timed out waiting for order ${order.orderId} to fill (status: ${order.status})`
+        : `Order ${order.orderId} was ${reason} before filling ` +
+            `(${order.filledSize}/${order.size} filled)`
+    );
+    this.name = 'OrderWaitError';
+    this.reason = reason;
+    this.order = order;
+  }
+}
+
+/**
+ * Pending {@link OrderTracker.waitForFill} call.
+ */
+interface FillWaiter {
+  resolve: (order: TrackedOrder) => void;
+  reject: (error: Error) => void;
+  timer?: ExecutionTimer;
+}
+
+/**
+ * Tracked order plus the fill IDs already counted.
+ */
+interface TrackedEntry {
+  order: TrackedOrder;
+  fillIds: Set<string>;
+  fillTotal: number;
+}
+
+/**
+ * Parses a numeric string or number, returning 0 for anything else.
+ */
+function toAmount(value: unknown): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Copies a tracked order so callers cannot mutate tracker state.
+ */
+function snapshot(order: TrackedOrder): TrackedOrder {
+  return { ...order, fills: [...order.fills] };
+}
+
+/**
+ * Follows submitted orders to a final status.
+ *
+ * @remarks
+ * Correlates `order` and `fill` events from {@link WebSocketClient} with
+ * tracked orders and keeps each one in a small state machine:
+ * OPEN → PARTIALLY_FILLED → FILLED, with CANCELLED and EXPIRED reachable from
+ * either live state. Final statuses never change, filled size never goes
+ * down, and duplicate fills (same `fillId`) are counted once.
+ *
+ * While the WebSocket is disconnected, tracked orders are polled over REST with
+ * `OrderClient.getOrder()`. After it reconnects, every live order is checked
+ * once more to catch events missed during the gap, and polling stops.
+ * `orderExpired` events from `OrderClient` mark good-till-date orders EXPIRED.
+ *
+ * The tracker does not subscribe by itself: subscribe to the `orders` and
+ * `fills` channels on an authenticated WebSocket client. Sizes are in share
+ * units with 6 decimals, as reported by the API.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new OrderTracker(wsClient, orderClient);
+ * tracker.start();
+ *
+ * const response = await orderClient.createOrder(params);
+ * tracker.track(response, params.marketSlug);
+ *
+ * const filled = await tracker.waitForFill(response.order.id, 60_000);
+ * console.log(`Filled ${filled.filledSize / 1e6} shares`);
+ * ```
+ *
+ * @public
+ */
+export class OrderTracker extends EventEmitter<OrderTrackerEvents> {
+  private readonly wsClient: WebSocketClient;
+  private readonly orderClient: OrderClient;
+  private readonly clock: ExecutionClock;
+  private readonly logger: ILogger;
+  private readonly pollIntervalMs: number;
+  private readonly orders: Map<string, TrackedEntry> = new Map();
+  private readonly waiters: Map<string, Set<FillWaiter>> = new Map();
+  private running = false;
+  private pollTimer: ExecutionTimer = undefined;
+  private polling = false;
+  private pollGeneration = 0;
+
+  /**
+   * Creates an order tracker.
+   *
+   * @param wsClient - WebSocket client delivering `order` and `fill` events
+   * @param orderClient - Order client used for REST status checks
+   * @param config - Polling interval, clock and logger
+   */
+  constructor(
+    wsClient: WebSocketClient,
+    orderClient: OrderClient,
+    config: OrderTrackerConfig = {}
+  ) {
+    super();
+    this.wsClient = wsClient;
+    this.orderClient = orderClient;
+    this.clock = config.clock ?? systemClock;
+    this.logger = config.logger || new NoOpLogger();
+    this.pollIntervalMs = config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Starts listening to WebSocket and order client events.
+   *
+   * @remarks
+   * If the WebSocket is not connected yet, REST polling starts right away.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.wsClient.on('order', this.handleOrderUpdate);
+    this.wsClient.on('fill', this.handleFill);
+    this.wsClient.on('connect', this.handleConnect);
+    this.wsClient.on('disconnect', this.handleDisconnect);
+    this.orderClient.on('orderExpired', this.handleOrderExpired);
+
+    if (!this.wsClient.isConnected()) {
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Stops listening and polling. Tracked orders and pending waits are kept.
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.wsClient.off('order', this.handleOrderUpdate);
+    this.wsClient.off('fill', this.handleFill);
+    this.wsClient.off('connect', this.handleConnect);
+    this.wsClient.off('disconnect', this.handleDisconnect);
+    this.orderClient.off('orderExpired', this.handleOrderExpired);
+    this.stopPolling();
+  }
+
+  /**
+   * Starts tracking an order.
+   *
+   * @remarks
+   * Pass the `createOrder()` response to seed size, side and any immediate
+   * matches. FOK and FAK orders are final once submitted: they are recorded as
+   * FILLED if fully matched, and CANCELLED otherwise. Tracking an order that is
+   * already tracked returns its current state.
+   *
+   * @param order - Order response, or an order ID to track by ID only
+   * @param marketSlug - Market slug of the order
+   * @returns Current state of the tracked order
+   */
+  track(order: OrderResponse | string, marketSlug?: string): TrackedOrder {
+    const orderId = typeof order === 'string' ? order : order.order.id;
+    const existing = this.orders.get(orderId);
+    if (existing) {
+      return snapshot(existing.order);
+    }
+
+    const tracked: TrackedOrder = {
+      orderId,
+      ...(marketSlug !== undefined ? { marketSlug } : {}),
+      status: 'OPEN',
+      size: 0,
+      filledSize: 0,
+      remainingSize: 0,
+      fills: [],
+      updatedAt: this.clock.now(),
+    };
+    const entry: TrackedEntry = { order: tracked, fillIds: new Set(), fillTotal: 0 };
+    this.orders.set(orderId, entry);
+    this.logger.debug('Tracking order', { orderId, marketSlug });
+
+    if (typeof order !== 'string') {
+      const created = order.order;
+      tracked.tokenId = created.tokenId;
+      tracked.side = created.side;
+      const matched = (order.makerMatches ?? []).reduce(
+        (total, match) => total + toAmount(match.matchedSize),
+        0
+      );
+      const immediate = created.orderType === 'FOK' || created.orderType === 'FAK';
+      // Unpriced FOK BUY orders sign a placeholder takerAmount; their size is what matched
+      const unpricedFokBuy =
+        created.orderType === 'FOK' &&
+        created.side === Side.BUY &&
+        (created.price === undefined || created.price === null);
+      const size = unpricedFokBuy
+        ? matched
+        : toAmount(created.side === Side.BUY ? created.takerAmount : created.makerAmount);
+
+      this.apply(entry, {
+        size,
+        filledSize: matched,
+        ...(immediate ? { status: matched > 0 && matched >= size ? 'FILLED' : 'CANCELLED' } : {}),
+      });
+    }
+
+    return snapshot(tracked);
+  }
+
+  /**
+   * Stops tracking an order. Pending waits for it are left to time out.
+   *
+   * @returns True if the order was tracked
+   */
+  untrack(orderId: string): boolean {
+    return this.orders.delete(orderId);
+  }
+
+  /**
+   * Removes orders in a final status.
+   *
+   * @returns Number of orders removed
+   */
+  prune(): number {
+    let removed = 0;
+    for (const [orderId, entry] of this.orders) {
+      if (TERMINAL_STATUSES.has(entry.order.status)) {
+        this.orders.delete(orderId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Gets the current state of a tracked order.
+   */
+  getOrder(orderId: string): TrackedOrder | undefined {
+    const entry = this.orders.get(orderId);
+    return entry ? snapshot(entry.order) : undefined;
+  }
+
+  /**
+   * Gets every tracked order.
+   */
+  getOrders(): TrackedOrder[] {
+    return [...this.orders.values()].map((entry) => snapshot(entry.order));
+  }
+
+  /**
+   * Waits until a tracked order is fully filled.
+   *
+   * @param orderId - Tracked order ID
+   * @param timeoutMs - Maximum wait in milliseconds (default: no timeout)
+   * @returns Promise resolving to the filled order
+   *
+   * @throws Error if the order is not tracked
+   * @throws OrderWaitError if the order is cancelled or expires, or the timeout elapses
+   */
+  waitForFill(orderId: string, timeoutMs?: number): Promise<TrackedOrder> {
+    const entry = this.orders.get(orderId);
+    if (!entry) {
+      return Promise.reject(new Error(`Order ${orderId} is not tracked`));
+    }
+
+    const { status } = entry.order;
+    if (status === 'FILLED') {
+      return Promise.resolve(snapshot(entry.order));
+    }
+    if (status === 'CANCELLED' || status === 'EXPIRED') {
+      return Promise.reject(this.createWaitError(entry.order));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: FillWaiter = { resolve, reject };
+      if (!this.waiters.has(orderId)) {
+        this.waiters.set(orderId, new Set());
+      }
+      this.waiters.get(orderId)!.add(waiter);
+
+      if (timeoutMs !== undefined) {
+        waiter.timer = this.clock.setTimeout(() => {
+          this.waiters.get(orderId)?.delete(waiter);
+          const current = this.orders.get(orderId)?.order ?? entry.order;
+          reject(new OrderWaitError('timeout', snapshot(current)));
+        }, timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * Checks every live tracked order over REST.
+   *
+   * @remarks
+   * Called automatically while the WebSocket is down and after it reconnects.
+   * Failed checks emit `error` and do not change the order.
+   */
+  async sync(): Promise<void> {
+    const live = [...this.orders.values()].filter(
+      (entry) => !TERMINAL_STATUSES.has(entry.order.status)
+    );
+
+    for (const entry of live) {
+      const { orderId } = entry.order;
+      try {
+        const details = await this.orderClient.getOrder(orderId);
+        if (this.orders.get(orderId) !== entry) {
+          continue;
+        }
+        if (details.marketSlug && !entry.order.marketSlug) {
+          entry.order.marketSlug = details.marketSlug;
+        }
+        this.apply(entry, {
+          status: details.status,
+          size: details.size,
+          filledSize: details.filledSize,
+        });
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.logger.warn('Order status check failed', { orderId, error: err.message });
+        this.emit('error', err, orderId);
+      }
+    }
+  }
+
+  /**
+   * Applies a status and size update, enforcing the state machine.
+   *
+   * @internal
+   */
+  private apply(
+    entry: TrackedEntry,
+    update: { status?: OrderStatus; size?: number; filledSize?: number }
+  ): void {
+    const order = entry.order;
+    const previousStatus = order.status;
+    if (TERMINAL_STATUSES.has(previousStatus)) {
+      return;
+    }
+
+    const previousFilled = order.filledSize;
+    if (update.size !== undefined && update.size > 0) {
+      order.size = update.size;
+    }
+    let filled = Math.max(order.filledSize, entry.fillTotal, update.filledSize ?? 0);
+
+    let status = update.status ?? previousStatus;
+    if (status === 'FILLED' || (order.size > 0 && filled >= order.size)) {
+      status = 'FILLED';
+      filled = Math.max(filled, order.size);
+    } else if (status === 'OPEN' && filled > 0) {
+      // Late OPEN updates must not undo a partial fill
+      status = 'PARTIALLY_FILLED';
+    }
+
+    order.filledSize = order.size > 0 ? Math.min(filled, order.size) : filled;
+    order.remainingSize = Math.max(order.size - order.filledSize, 0);
+    order.status = status;
+
+    if (status === previousStatus && order.filledSize === previousFilled) {
+      return;
+    }
+
+    order.updatedAt = this.clock.now();
+    this.logger.debug('Order updated', {
+      orderId: order.orderId,
+      status,
+      filledSize: order.filledSize,
+    });
+    this.emit('update', snapshot(order), previousStatus);
+
+    if (TERMINAL_STATUSES.has(status)) {
+      this.emit('done', snapshot(order));
+      this.settleWaiters(order);
+    }
+  }
+
+  /**
+   * Resolves or rejects pending waits for an order in a final status.
+   *
+   * @internal
+   */
+  private settleWaiters(order: TrackedOrder): void {
+    const waiters = this.waiters.get(order.orderId);
+    if (!waiters) {
+      return;
+    }
+    this.waiters.delete(order.orderId);
+
+    for (const waiter of waiters) {
+      this.clock.clearTimeout(waiter.timer);
+      if (order.status === 'FILLED') {
+        waiter.resolve(snapshot(order));
+      } else {
+        waiter.reject(this.createWaitError(order));
+      }
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private createWaitError(order: TrackedOrder): OrderWaitError {
+    return new OrderWaitError(
+      order.status === 'EXPIRED' ? 'expired' : 'cancelled',
+      snapshot(order)
+    );
+  }
+
+  /**
+   * @internal
+   */
+  private readonly handleOrderUpdate = (update: OrderUpdate): void => {
+    const entry = this.orders.get(update.orderId);
+    if (!entry) {
+      return;
+    }
+
+    if (!entry.order.marketSlug) {
+      entry.order.marketSlug = update.marketSlug;
+    }
+    this.apply(entry, {
+      status: update.status,
+      size: toAmount(update.size),
+      filledSize: toAmount(update.filled),
+    });
+  };
+
+  /**
+   * @internal
+   */
+  private readonly handleFill = (fill: FillEvent): void => {
+    const entry = this.orders.get(fill.orderId);
+    if (!entry || entry.fillIds.has(fill.fillId)) {
+      return;
+    }
+
+    entry.fillIds.add(fill.fillId);
+    entry.fillTotal += toAmount(fill.size);
+    entry.order.fills.push(fill);
+    this.apply(entry, {});
+    this.emit('fill', snapshot(entry.order), fill);
+  };
+
+  /**
+   * @internal
+   */
+  private readonly handleOrderExpired = (event: OrderExpiredEvent): void => {
+    const entry = this.orders.get(event.orderId);
+    if (!entry) {
+      return;
+    }
+
+    if (event.error) {
+      // The cancel failed, most likely because the order already filled
+      void this.sync();
+      return;
+    }
+    this.apply(entry, { status: 'EXPIRED' });
+  };
+
+  /**
+   * @internal
+   */
+  private readonly handleConnect = (): void => {
+    if (this.stopPolling()) {
+      this.logger.info('WebSocket reconnected, checking tracked orders');
+      void this.sync();
+    }
+  };
+
+  /**
+   * @internal
+   */
+  private readonly handleDisconnect = (): void => {
+    this.logger.info('WebSocket disconnected, polling tracked orders over REST');
+    this.startPolling();
+  };
+
+  /**
+   * Polls tracked orders until the WebSocket reconnects.
+   *
+   * @internal
+   */
+  private startPolling(): void {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    const generation = ++this.pollGeneration;
+
+    const poll = (): void => {
+      this.pollTimer = this.clock.setTimeout(async () => {
+        await this.sync();
+        if (this.polling && generation === this.pollGeneration) {
+          poll();
+        }
+      }, this.pollIntervalMs);
+    };
+    poll();
+  }
+
+  /**
+   * @returns True if polling was active
+   *
+   * @internal
+   */
+  private stopPolling(): boolean {
+    if (!this.polling) {
+      return false;
+    }
+    this.polling = false;
+    this.clock.clearTimeout(this.pollTimer);
+    this.pollTimer = undefined;
+    return true;
+  }
+}
@@ -11,17 +11,11 @@ import type {
   FOKOrderArgs,
   GTCOrderArgs,
 } from '../types/orders';
+import { SignatureType } from '../types/orders';
+import { resolveOrderExpiration } from './expiration';
+import { OrderValidationError } from './errors';
 
-/**
- * Order validation error class for client-side validation.
- * @public
- */
-export class OrderValidationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'OrderValidationError';
-  }
-}
+export { OrderValidationError };
 
 /**
  * Type guard to check if order arguments are for FOK order.
@@ -67,11 +61,9 @@ export function validateOrderArgs(args: OrderArgs): void {
     throw new OrderValidationError(`Invalid taker address: ${args.taker}`);
   }
 
-  // Validate expiration if provided
+  // Validate expiration format if provided (Date, unix seconds or duration)
   if (args.expiration !== undefined) {
-    if (!/^\d+$/.test(args.expiration)) {
-      throw new OrderValidationError(`Invalid expiration format: ${args.expiration}`);
-    }
+    resolveOrderExpiration(args.expiration);
   }
 
   // Validate nonce if provided
@@ -124,6 +116,64 @@ export function validateOrderArgs(args: OrderArgs): void {
   }
 }
 
+/**
+ * Validates a maker/signer/signature-type combination.
+ *
+ * @remarks
+ * - `EOA`: the signing key trades for itself, so maker and signer must match.
+ * - `POLY_PROXY` / `POLY_GNOSIS_SAFE`: the maker is the smart-contract wallet
+ *   holding the funds and the signer is its owner EOA, so they must differ.
+ *
+ * @param maker - Maker (funder) address
+ * @param signer - Signer address
+ * @param signatureType - Signature type
+ * @throws OrderValidationError if the combination cannot be settled
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * validateSignatureConfig(safeAddress, ownerAddress, SignatureType.POLY_GNOSIS_SAFE);
+ * ```
+ */
+export function validateSignatureConfig(
+  maker: string,
+  signer: string,
+  signatureType: SignatureType
+): void {
+  if (!ethers.isAddress(maker)) {
+    throw new OrderValidationError(`Invalid maker address: ${maker}`);
+  }
+
+  if (!ethers.isAddress(signer)) {
+    throw new OrderValidationError(`Invalid signer address: ${signer}`);
+  }
+
+  const sameAddress = maker.toLowerCase() === signer.toLowerCase();
+
+  switch (signatureType) {
+    case SignatureType.EOA:
+      if (!sameAddress) {
+        throw new OrderValidationError(
+          `EOA signature type requires maker and signer to match, got maker ${maker} and signer ${signer}. ` +
+            'Use POLY_PROXY or POLY_GNOSIS_SAFE to trade from a smart-contract wallet.'
+        );
+      }
+      break;
+    case SignatureType.POLY_PROXY:
+    case SignatureType.POLY_GNOSIS_SAFE:
+      if (sameAddress) {
+        throw new OrderValidationError(
+          `${SignatureType[signatureType]} signature type requires a funder (maker) address ` +
+            'different from the signer. Pass the proxy or Safe address as the funder.'
+        );
+      }
+      break;
+    default:
+      throw new OrderValidationError(`Unsupported signatureType: ${signatureType}`);
+  }
+}
+
 /**
  * Validates an unsigned order.
  *
@@ -197,10 +247,11 @@ export function validateUnsignedOrder(order: UnsignedOrder): void {
     throw new OrderValidationError(`Invalid side: ${order.side}. Must be 0 (BUY) or 1 (SELL)`);
   }
 
-  // Validate signatureType
+  // Validate signatureType and its maker/signer combination
   if (!Number.isInteger(order.signatureType) || order.signatureType < 0) {
     throw new OrderValidationError(`Invalid signatureType: ${order.signatureType}`);
   }
+  validateSignatureConfig(order.maker, order.signer, order.signatureType);
 
   // Validate price if present (for GTC orders)
   if (order.price !== undefined) {
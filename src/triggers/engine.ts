@@ -0,0 +1,503 @@
+/**
+ * Client-side stop-loss and take-profit triggers.
+ * @module triggers/engine
+ */
+
+import { EventEmitter } from 'eventemitter3';
+import type { OrderClient } from '../orders/client';
+import { OrderValidationError } from '../orders/validator';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+import { Side } from '../types/orders';
+import type {
+  Trigger,
+  TriggerEngineEvents,
+  TriggerEngineState,
+  TriggerParams,
+} from '../types/triggers';
+import type { NewPriceData, OrderbookUpdate } from '../types/websocket';
+import type { WebSocketClient } from '../websocket/client';
+
+/**
+ * Configuration for {@link TriggerEngine}.
+ * @public
+ */
+export interface TriggerEngineConfig {
+  /**
+   * State saved from a previous run (see {@link TriggerEngine.getState})
+   */
+  state?: TriggerEngineState;
+
+  /**
+   * Optional logger
+   */
+  logger?: ILogger;
+}
+
+/**
+ * Best bid and ask of the YES book, or undefined for an empty side.
+ */
+interface BookTop {
+  bestBid?: number;
+  bestAsk?: number;
+}
+
+/**
+ * Copies a trigger so callers cannot mutate engine state.
+ */
+function snapshot(trigger: Trigger): Trigger {
+  return { ...trigger, order: { ...trigger.order } };
+}
+
+/**
+ * Whether a trigger fires on a falling price (otherwise on a rising one).
+ */
+function firesOnFall(trigger: Trigger): boolean {
+  return (trigger.kind === 'stopLoss') === (trigger.order.side === Side.SELL);
+}
+
+/**
+ * Price of a trigger's outcome for an orderbook source, if the book has one.
+ */
+function bookPrice(trigger: Trigger, top: BookTop): number | undefined {
+  const { bestBid, bestAsk } = top;
+  const isNo = trigger.outcome === 'NO';
+
+  if (trigger.priceSource === 'bestBid') {
+    // The best NO bid is the complement of the best YES ask
+    const bid = isNo ? bestAsk : bestBid;
+    return bid === undefined ? undefined : isNo ? 1 - bid : bid;
+  }
+
+  if (bestBid === undefined || bestAsk === undefined) {
+    return undefined;
+  }
+  const mid = (bestBid + bestAsk) / 2;
+  return isNo ? 1 - mid : mid;
+}
+
+/**
+ * Watches WebSocket prices and submits pre-configured orders when stop-loss
+ * or take-profit conditions are met.
+ *
+ * @remarks
+ * Limitless has no native stop orders; this engine emulates them client-side,
+ * so triggers only fire while the process is running and the WebSocket is
+ * subscribed to the relevant markets. The engine listens to `orderbookUpdate`
+ * (`mid` and `bestBid` sources) and `newPriceData` (`lastTrade` source); it
+ * does not subscribe by itself. Subscribe to `subscribe_market_prices` for the
+ * watched markets before or after calling `start()`.
+ *
+ * Each trigger fires at most once. Triggers added as an OCO pair share a group:
+ * while one is firing the others are held, and once its order is accepted the
+ * others are cancelled. If the order is rejected, the trigger fails and its
+ * siblings stay active.
+ *
+ * Every state change emits `change` with a JSON-serializable snapshot. Pass a
+ * saved snapshot as `config.state` to restore triggers after a restart.
+ * Triggers that were `firing` when the state was saved are restored as
+ * `failed`, since their order may or may not have been accepted; check open
+ * orders before re-arming them.
+ *
+ * @example
+ * ```typescript
+ * const engine = new TriggerEngine(wsClient, orderClient);
+ * engine.on('fired', (trigger, response) => console.log(`${trigger.id}: ${response.order.id}`));
+ * engine.on('change', (state) => fs.writeFileSync('triggers.json', JSON.stringify(state)));
+ *
+ * // Sell 100 YES if the mid drops to 0.30, or take profit at 0.70
+ * const exit = {
+ *   marketSlug: 'bitcoin-2024',
+ *   tokenId: market.tokens.yes,
+ *   side: Side.SELL,
+ *   price: 0.01,
+ *   size: 100,
+ *   orderType: OrderType.FAK,
+ * };
+ * engine.addOcoPair(
+ *   { kind: 'stopLoss', triggerPrice: 0.3, outcome: 'YES', order: exit },
+ *   { kind: 'takeProfit', triggerPrice: 0.7, outcome: 'YES', order: { ...exit, price: 0.69 } }
+ * );
+ *
+ * await wsClient.subscribe('subscribe_market_prices', { marketSlugs: ['bitcoin-2024'] });
+ * engine.start();
+ * ```
+ *
+ * @public
+ */
+export class TriggerEngine extends EventEmitter<TriggerEngineEvents> {
+  private readonly wsClient: WebSocketClient;
+  private readonly orderClient: OrderClient;
+  private readonly logger: ILogger;
+  private readonly triggers: Map<string, Trigger> = new Map();
+  private running = false;
+  private nextId = 0;
+
+  /**
+   * Creates a trigger engine.
+   *
+   * @param wsClient - WebSocket client delivering price updates
+   * @param orderClient - Order client used to submit triggered orders
+   * @param config - Saved state and logger
+   */
+  constructor(
+    wsClient: WebSocketClient,
+    orderClient: OrderClient,
+    config: TriggerEngineConfig = {}
+  ) {
+    super();
+    this.wsClient = wsClient;
+    this.orderClient = orderClient;
+    this.logger = config.logger || new NoOpLogger();
+
+    for (const saved of config.state?.triggers ?? []) {
+      const trigger: Trigger = { ...saved, order: { ...saved.order } };
+      if (trigger.status === 'firing') {
+        trigger.status = 'failed';
+        trigger.error = 'Interrupted while firing; the order may have been submitted';
+      }
+      this.triggers.set(trigger.id, trigger);
+    }
+  }
+
+  /**
+   * Starts listening to price updates.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.wsClient.on('orderbookUpdate', this.handleOrderbookUpdate);
+    this.wsClient.on('newPriceData', this.handleNewPriceData);
+    this.logger.info('Trigger engine started', { active: this.getTriggers('active').length });
+  }
+
+  /**
+   * Stops listening to price updates. Triggers keep their state.
+   */
+  stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.wsClient.off('orderbookUpdate', this.handleOrderbookUpdate);
+    this.wsClient.off('newPriceData', this.handleNewPriceData);
+    this.logger.info('Trigger engine stopped');
+  }
+
+  /**
+   * Adds a trigger.
+   *
+   * @param params - Condition and the order to submit
+   * @returns The new trigger
+   *
+   * @throws OrderValidationError if the parameters are invalid or the ID is taken
+   */
+  addTrigger(params: TriggerParams): Trigger {
+    const [trigger] = this.register([params]);
+    return trigger;
+  }
+
+  /**
+   * Adds two triggers as a one-cancels-other pair.
+   *
+   * @remarks
+   * Typically a stop-loss and a take-profit closing the same position.
+   *
+   * @param first - First trigger
+   * @param second - Second trigger
+   * @returns Both triggers, sharing an `ocoGroupId`
+   *
+   * @throws OrderValidationError if either trigger is invalid
+   */
+  addOcoPair(first: TriggerParams, second: TriggerParams): [Trigger, Trigger] {
+    const ocoGroupId = `oco-${this.generateId()}`;
+    const [a, b] = this.register([first, second], ocoGroupId);
+    return [a, b];
+  }
+
+  /**
+   * Cancels an active trigger.
+   *
+   * @param id - Trigger ID
+   * @returns True if the trigger was active and is now cancelled
+   */
+  cancelTrigger(id: string): boolean {
+    const trigger = this.triggers.get(id);
+    if (!trigger || trigger.status !== 'active') {
+      return false;
+    }
+
+    this.cancel(trigger);
+    this.emitChange();
+    return true;
+  }
+
+  /**
+   * Gets a trigger by ID.
+   */
+  getTrigger(id: string): Trigger | undefined {
+    const trigger = this.triggers.get(id);
+    return trigger ? snapshot(trigger) : undefined;
+  }
+
+  /**
+   * Gets all triggers, optionally filtered by status.
+   */
+  getTriggers(status?: Trigger['status']): Trigger[] {
+    return [...this.triggers.values()]
+      .filter((trigger) => status === undefined || trigger.status === status)
+      .map(snapshot);
+  }
+
+  /**
+   * Gets a JSON-serializable snapshot of every trigger.
+   */
+  getState(): TriggerEngineState {
+    return { version: 1, triggers: this.getTriggers() };
+  }
+
+  /**
+   * Removes terminal triggers (fired, cancelled, failed) from the state.
+   *
+   * @returns Number of triggers removed
+   */
+  prune(): number {
+    let removed = 0;
+    for (const [id, trigger] of this.triggers) {
+      if (trigger.status !== 'active' && trigger.status !== 'firing') {
+        this.triggers.delete(id);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.emitChange();
+    }
+    return removed;
+  }
+
+  /**
+   * Validates and stores new triggers.
+   *
+   * @internal
+   */
+  private register(paramsList: TriggerParams[], ocoGroupId?: string): Trigger[] {
+    const triggers = paramsList.map((params) => {
+      const trigger: Trigger = {
+        id: params.id ?? `trigger-${this.generateId()}`,
+        kind: params.kind,
+        triggerPrice: params.triggerPrice,
+        priceSource: params.priceSource ?? 'mid',
+        outcome: params.outcome,
+        ...(params.marketAddress !== undefined ? { marketAddress: params.marketAddress } : {}),
+        order: { ...params.order },
+        status: 'active',
+        ...(ocoGroupId !== undefined ? { ocoGroupId } : {}),
+        createdAt: Date.now(),
+      };
+      this.validate(trigger);
+      return trigger;
+    });
+
+    if (triggers.length > 1 && triggers[0].id === triggers[1].id) {
+      throw new OrderValidationError(`Duplicate trigger ID: ${triggers[0].id}`);
+    }
+
+    for (const trigger of triggers) {
+      this.triggers.set(trigger.id, trigger);
+      this.logger.debug('Trigger added', {
+        id: trigger.id,
+        kind: trigger.kind,
+        triggerPrice: trigger.triggerPrice,
+        marketSlug: trigger.order.marketSlug,
+      });
+    }
+    this.emitChange();
+
+    return triggers.map(snapshot);
+  }
+
+  /**
+   * @internal
+   */
+  private validate(trigger: Trigger): void {
+    if (this.triggers.has(trigger.id)) {
+      throw new OrderValidationError(`Duplicate trigger ID: ${trigger.id}`);
+    }
+    if (trigger.kind !== 'stopLoss' && trigger.kind !== 'takeProfit') {
+      throw new OrderValidationError(`Invalid trigger kind: ${trigger.kind}`);
+    }
+    if (
+      !Number.isFinite(trigger.triggerPrice) ||
+      trigger.triggerPrice <= 0 ||
+      trigger.triggerPrice >= 1
+    ) {
+      throw new OrderValidationError(
+        `Invalid triggerPrice: ${trigger.triggerPrice}. Must be between 0 and 1 (exclusive).`
+      );
+    }
+    if (trigger.outcome !== 'YES' && trigger.outcome !== 'NO') {
+      throw new OrderValidationError(`Invalid outcome: ${trigger.outcome}`);
+    }
+    if (!['mid', 'bestBid', 'lastTrade'].includes(trigger.priceSource)) {
+      throw new OrderValidationError(`Invalid priceSource: ${trigger.priceSource}`);
+    }
+    if (trigger.priceSource === 'lastTrade' && !trigger.marketAddress) {
+      throw new OrderValidationError('marketAddress is required for the lastTrade price source');
+    }
+    if (!trigger.order?.marketSlug) {
+      throw new OrderValidationError('Trigger order must include a marketSlug');
+    }
+  }
+
+  /**
+   * Evaluates `mid` and `bestBid` triggers for the updated market.
+   *
+   * @internal
+   */
+  private readonly handleOrderbookUpdate = (update: OrderbookUpdate): void => {
+    const book = update.orderbook;
+    const bids = (book?.bids ?? []).map((entry) => Number(entry.price));
+    const asks = (book?.asks ?? []).map((entry) => Number(entry.price));
+    const top: BookTop = {
+      ...(bids.length > 0 ? { bestBid: Math.max(...bids) } : {}),
+      ...(asks.length > 0 ? { bestAsk: Math.min(...asks) } : {}),
+    };
+
+    for (const trigger of this.triggers.values()) {
+      if (trigger.priceSource !== 'lastTrade' && trigger.order.marketSlug === update.marketSlug) {
+        this.evaluate(trigger, bookPrice(trigger, top));
+      }
+    }
+  };
+
+  /**
+   * Evaluates `lastTrade` triggers for the updated AMM markets.
+   *
+   * @internal
+   */
+  private readonly handleNewPriceData = (data: NewPriceData): void => {
+    for (const entry of data.updatedPrices ?? []) {
+      const address = entry.marketAddress?.toLowerCase();
+
+      for (const trigger of this.triggers.values()) {
+        if (
+          trigger.priceSource === 'lastTrade' &&
+          trigger.marketAddress?.toLowerCase() === address
+        ) {
+          this.evaluate(trigger, trigger.outcome === 'YES' ? entry.yesPrice : entry.noPrice);
+        }
+      }
+    }
+  };
+
+  /**
+   * Fires an active trigger if its condition is met at the given price.
+   *
+   * @internal
+   */
+  private evaluate(trigger: Trigger, price: number | undefined): void {
+    if (trigger.status !== 'active' || price === undefined || !Number.isFinite(price)) {
+      return;
+    }
+
+    const met = firesOnFall(trigger)
+      ? price <= trigger.triggerPrice
+      : price >= trigger.triggerPrice;
+    if (!met || this.isGroupFiring(trigger)) {
+      return;
+    }
+
+    void this.fire(trigger, price);
+  }
+
+  /**
+   * Submits a trigger's order and settles its OCO group.
+   *
+   * @internal
+   */
+  private async fire(trigger: Trigger, price: number): Promise<void> {
+    trigger.status = 'firing';
+    trigger.triggeredAt = Date.now();
+    trigger.triggeredPrice = price;
+    this.logger.info('Trigger condition met', {
+      id: trigger.id,
+      kind: trigger.kind,
+      price,
+      triggerPrice: trigger.triggerPrice,
+    });
+    this.emit('triggered', snapshot(trigger));
+    this.emitChange();
+
+    let response;
+    try {
+      response = await this.orderClient.createOrder(trigger.order);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      trigger.status = 'failed';
+      trigger.error = err.message;
+      this.logger.error('Trigger order failed', err, { id: trigger.id });
+      this.emit('failed', snapshot(trigger), err);
+      this.emitChange();
+      return;
+    }
+
+    trigger.status = 'fired';
+    trigger.orderId = response.order.id;
+    this.emit('fired', snapshot(trigger), response);
+
+    if (trigger.ocoGroupId !== undefined) {
+      for (const sibling of this.triggers.values()) {
+        if (
+          sibling !== trigger &&
+          sibling.ocoGroupId === trigger.ocoGroupId &&
+          sibling.status === 'active'
+        ) {
+          this.cancel(sibling);
+        }
+      }
+    }
+    this.emitChange();
+  }
+
+  /**
+   * @internal
+   */
+  private cancel(trigger: Trigger): void {
+    trigger.status = 'cancelled';
+    this.logger.debug('Trigger cancelled', { id: trigger.id });
+    this.emit('cancelled', snapshot(trigger));
+  }
+
+  /**
+   * Whether another trigger in the same OCO group is being submitted.
+   *
+   * @internal
+   */
+  private isGroupFiring(trigger: Trigger): boolean {
+    if (trigger.ocoGroupId === undefined) {
+      return false;
+    }
+    for (const other of this.triggers.values()) {
+      if (other.ocoGroupId === trigger.ocoGroupId && other.status === 'firing') {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * @internal
+   */
+  private emitChange(): void {
+    this.emit('change', this.getState());
+  }
+
+  /**
+   * @internal
+   */
+  private generateId(): string {
+    return `${Date.now().toString(36)}-${++this.nextId}`;
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Stop-loss and take-profit trigger module exports.
+ * @module triggers
+ */
+
+export * from './engine';
@@ -0,0 +1,215 @@
+/**
+ * Execution algorithm types for Limitless Exchange.
+ * @module types/execution
+ */
+
+import type { OrderResponse, OrderType, Side } from './orders';
+
+/**
+ * Timer handle returned by an {@link ExecutionClock}.
+ * @public
+ */
+export type ExecutionTimer = unknown;
+
+/**
+ * Time source and scheduler used by execution algorithms.
+ *
+ * @remarks
+ * Inject a manual clock in tests to make schedules deterministic.
+ *
+ * @public
+ */
+export interface ExecutionClock {
+  /**
+   * Current time in milliseconds
+   */
+  now(): number;
+
+  /**
+   * Schedules a callback after a delay in milliseconds
+   */
+  setTimeout(callback: () => void, ms: number): ExecutionTimer;
+
+  /**
+   * Cancels a scheduled callback
+   */
+  clearTimeout(timer: ExecutionTimer): void;
+}
+
+/**
+ * Execution strategy name.
+ * @public
+ */
+export type ExecutionStrategy = 'twap' | 'iceberg';
+
+/**
+ * Execution lifecycle status.
+ *
+ * @remarks
+ * - `idle`: created, not started
+ * - `running`: placing or working orders
+ * - `paused`: no new orders until resumed
+ * - `completed`, `cancelled`, `failed`: terminal
+ *
+ * @public
+ */
+export type ExecutionStatus = 'idle' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Limit order parameters shared by execution strategies.
+ * @public
+ */
+export interface ExecutionOrderParams {
+  /**
+   * Market slug identifier
+   */
+  marketSlug: string;
+
+  /**
+   * Token ID of the outcome to trade
+   */
+  tokenId: string;
+
+  /**
+   * Order side
+   */
+  side: Side;
+
+  /**
+   * Limit price for every child order
+   */
+  price: number;
+
+  /**
+   * Total size in shares
+   */
+  size: number;
+
+  /**
+   * Share increment child sizes are rounded to
+   * @defaultValue 0.001
+   */
+  sizeStep?: number;
+}
+
+/**
+ * TWAP (time-weighted average price) execution parameters.
+ * @public
+ */
+export interface TwapParams extends ExecutionOrderParams {
+  /**
+   * Number of child orders
+   */
+  slices: number;
+
+  /**
+   * Time from the first to the last child order, in milliseconds
+   */
+  durationMs: number;
+
+  /**
+   * Child order type
+   * @defaultValue OrderType.FAK
+   */
+  orderType?: OrderType.FAK | OrderType.GTC;
+}
+
+/**
+ * Iceberg execution parameters.
+ * @public
+ */
+export interface IcebergParams extends ExecutionOrderParams {
+  /**
+   * Size of each visible GTC clip, in shares
+   */
+  visibleSize: number;
+
+  /**
+   * How often the resting clip is checked for fills, in milliseconds
+   * @defaultValue 2000
+   */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Execution progress snapshot.
+ * @public
+ */
+export interface ExecutionProgress {
+  /**
+   * Strategy name
+   */
+  strategy: ExecutionStrategy;
+
+  /**
+   * Current status
+   */
+  status: ExecutionStatus;
+
+  /**
+   * Total size to execute, in shares
+   */
+  totalSize: number;
+
+  /**
+   * Size of all child orders placed so far, in shares
+   */
+  submittedSize: number;
+
+  /**
+   * Size known to be filled, in shares (iceberg only; TWAP fills are in each order response)
+   */
+  filledSize?: number;
+
+  /**
+   * Number of child orders placed
+   */
+  ordersPlaced: number;
+
+  /**
+   * Most recent child order response
+   */
+  lastOrder?: OrderResponse;
+}
+
+/**
+ * Final result of an execution.
+ * @public
+ */
+export interface ExecutionResult extends ExecutionProgress {
+  /**
+   * Every child order response, in placement order
+   */
+  orders: OrderResponse[];
+
+  /**
+   * Error that stopped the execution (status `failed`)
+   */
+  error?: Error;
+}
+
+/**
+ * Events emitted by execution algorithms.
+ * @public
+ */
+export interface ExecutionEvents {
+  /**
+   * A child order was placed or a fill was detected
+   */
+  progress: (progress: ExecutionProgress) => void;
+
+  /**
+   * Status changed
+   */
+  status: (status: ExecutionStatus) => void;
+
+  /**
+   * A child order failed; the execution stops with status `failed`
+   */
+  error: (error: Error) => void;
+
+  /**
+   * Execution reached a terminal status
+   */
+  done: (result: ExecutionResult) => void;
+}
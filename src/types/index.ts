@@ -5,6 +5,10 @@ export * from './delegated-orders';
 export * from './server-wallets';
 export * from './logger';
 export * from './orders';
+export * from './execution';
+export * from './triggers';
+export * from './neg-risk';
+export * from './signing';
 export * from './portfolio';
 export * from './websocket';
 export * from './market-pages';
@@ -22,6 +26,12 @@ export type {
   MarketOutcome,
   Venue,
   MarketTokens,
+  MarketOrderConstraints,
+  OrderBookSource,
+  OrderBookResyncReason,
+  OrderBookSide,
+  MirroredOrderBook,
+  OrderBookMirrorEvents,
   Market as MarketInterface,  // Export interface as alias for typing
   MarketsResponse,
   ActiveMarketsSortBy,
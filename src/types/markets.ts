@@ -82,7 +82,7 @@ export interface MarketMetadata {
  */
 export interface MarketSettings {
   /**
-   * Minimum order size
+   * Minimum order size (shares, scaled by 1e6)
    */
   minSize: string;
 
@@ -91,6 +91,11 @@ export interface MarketSettings {
    */
   maxSpread: number;
 
+  /**
+   * Price tick size, when the market overrides the exchange default (0.001)
+   */
+  tickSize?: number | string;
+
   /**
    * Daily reward amount
    */
@@ -236,6 +241,138 @@ export interface OrderBook {
   lastTradePrice: number;
 }
 
+/**
+ * Where a mirrored orderbook state came from.
+ * @public
+ */
+export type OrderBookSource = 'rest' | 'websocket';
+
+/**
+ * Why an orderbook mirror refetched a book over REST.
+ *
+ * @remarks
+ * - `seed`: first load when the market is tracked
+ * - `reconnect`: the WebSocket reconnected and updates may have been missed
+ * - `stale`: no update arrived within `staleAfterMs`
+ * - `manual`: `resync()` was called
+ *
+ * @public
+ */
+export type OrderBookResyncReason = 'seed' | 'reconnect' | 'stale' | 'manual';
+
+/**
+ * Orderbook side: bids or asks.
+ * @public
+ */
+export type OrderBookSide = 'bid' | 'ask';
+
+/**
+ * Orderbook state kept by `OrderBookMirror`.
+ * @public
+ */
+export interface MirroredOrderBook {
+  /**
+   * Market slug
+   */
+  marketSlug: string;
+
+  /**
+   * Token ID the levels are quoted for (YES token)
+   */
+  tokenId: string;
+
+  /**
+   * Bids sorted by price descending
+   */
+  bids: OrderbookEntry[];
+
+  /**
+   * Asks sorted by price ascending
+   */
+  asks: OrderbookEntry[];
+
+  /**
+   * Adjusted midpoint price, as reported by the API
+   */
+  adjustedMidpoint: number;
+
+  /**
+   * Source time of the state in milliseconds (WebSocket event timestamp, or
+   * the REST request time)
+   */
+  updatedAt: number;
+
+  /**
+   * Local time the state was received, in milliseconds
+   */
+  receivedAt: number;
+
+  /**
+   * Where the state came from
+   */
+  source: OrderBookSource;
+
+  /**
+   * True when no update arrived within `staleAfterMs`
+   */
+  stale: boolean;
+}
+
+/**
+ * Events emitted by `OrderBookMirror`.
+ * @public
+ */
+export interface OrderBookMirrorEvents {
+  /**
+   * Levels of a book changed
+   */
+  change: (book: MirroredOrderBook, previous: MirroredOrderBook | undefined) => void;
+
+  /**
+   * A book received no update within `staleAfterMs`
+   */
+  stale: (book: MirroredOrderBook, ageMs: number) => void;
+
+  /**
+   * A book was refetched over REST
+   */
+  resync: (book: MirroredOrderBook, reason: OrderBookResyncReason) => void;
+
+  /**
+   * A REST resync failed
+   */
+  error: (error: Error, marketSlug: string) => void;
+}
+
+/**
+ * Order constraints of a market, resolved from its settings or orderbook.
+ * @public
+ */
+export interface MarketOrderConstraints {
+  /**
+   * Price tick size (e.g. 0.001)
+   */
+  tickSize: number;
+
+  /**
+   * Minimum order size in shares (0 when the market sets none)
+   */
+  minSize: number;
+
+  /**
+   * Maximum spread for the market (null when unknown)
+   */
+  maxSpread: number | null;
+
+  /**
+   * Market expiration timestamp in milliseconds, when known
+   *
+   * @remarks
+   * Good-till-date orders may not expire after the market.
+   */
+  expirationTimestamp?: number;
+}
+
 
 /**
  * Market outcome information.
@@ -0,0 +1,215 @@
+/**
+ * NegRisk group market types for Limitless Exchange.
+ * @module types/neg-risk
+ */
+
+import type { MarketTokens, Venue } from './markets';
+import type { CreateOrderParams, MarketOrderOutcome, OrderBookFill } from './orders';
+
+/**
+ * One outcome of a NegRisk group market.
+ * @public
+ */
+export interface NegRiskOutcome {
+  /**
+   * Outcome label (the child market title)
+   */
+  label: string;
+
+  /**
+   * Child market slug, used to trade the outcome
+   */
+  marketSlug: string;
+
+  /**
+   * Child market ID
+   */
+  marketId: number;
+
+  /**
+   * Position of the outcome within the group
+   */
+  orderInGroup?: number;
+
+  /**
+   * YES and NO token IDs of the outcome
+   */
+  tokens: MarketTokens;
+
+  /**
+   * Current YES and NO prices as reported by the API (null when unknown)
+   */
+  prices: { yes: number | null; no: number | null };
+
+  /**
+   * Child market status
+   */
+  status: string;
+
+  /**
+   * Venue contracts of the child market, when known
+   */
+  venue?: Venue;
+}
+
+/**
+ * Removes the fields resolved from the outcome from each member of a union.
+ */
+type WithoutResolvedFields<T> = T extends unknown ? Omit<T, 'tokenId' | 'marketSlug'> : never;
+
+/**
+ * `CreateOrderParams` without the token ID and market slug, which are resolved
+ * from the outcome.
+ * @public
+ */
+export type NegRiskOrderArgs = WithoutResolvedFields<CreateOrderParams>;
+
+/**
+ * Parameters for an order on a NegRisk outcome chosen by label.
+ * @public
+ */
+export type NegRiskOrderParams = NegRiskOrderArgs & {
+  /**
+   * Outcome label (case-insensitive) or child market slug
+   */
+  outcome: string;
+
+  /**
+   * Token of the outcome to trade
+   */
+  token: MarketOrderOutcome;
+};
+
+/**
+ * Conditional Tokens approvals needed to SELL on a NegRisk market.
+ *
+ * @remarks
+ * NegRisk SELL orders need `setApprovalForAll` on the Conditional Tokens
+ * contract for both `venue.exchange` and `venue.adapter`.
+ *
+ * @public
+ */
+export interface NegRiskSellApprovals {
+  /**
+   * Address holding the outcome tokens (the order maker)
+   */
+  owner: string;
+
+  /**
+   * Venue exchange contract address
+   */
+  exchange: string;
+
+  /**
+   * Venue adapter contract address
+   */
+  adapter: string;
+
+  /**
+   * Whether the exchange is approved
+   */
+  exchangeApproved: boolean;
+
+  /**
+   * Whether the adapter is approved
+   */
+  adapterApproved: boolean;
+
+  /**
+   * Whether every required approval is present
+   */
+  approved: boolean;
+
+  /**
+   * Operator addresses still missing approval
+   */
+  missing: string[];
+}
+
+/**
+ * Approval functions of the Conditional Tokens contract.
+ *
+ * @remarks
+ * Matches an `ethers.Contract` created with `CONDITIONAL_TOKENS_APPROVAL_ABI`.
+ *
+ * @public
+ */
+export interface ConditionalTokensApprovalContract {
+  /**
+   * Reads whether `operator` may transfer all tokens of `owner`
+   */
+  isApprovedForAll(owner: string, operator: string): Promise<boolean>;
+}
+
+/**
+ * One leg of a "buy all NO" basket quote.
+ * @public
+ */
+export interface NegRiskBasketLeg extends OrderBookFill {
+  /**
+   * Outcome label
+   */
+  label: string;
+
+  /**
+   * Child market slug
+   */
+  marketSlug: string;
+
+  /**
+   * NO token ID
+   */
+  tokenId: string;
+
+  /**
+   * Best NO ask (null when the book side is empty)
+   */
+  bestPrice: number | null;
+}
+
+/**
+ * Quote for buying the same number of NO shares on every outcome of a group.
+ *
+ * @remarks
+ * Exactly one outcome of a NegRisk group resolves YES, so a basket of `size` NO
+ * shares on each of `n` outcomes pays `size * (n - 1)` USDC. Fees are not
+ * included.
+ *
+ * @public
+ */
+export interface NegRiskBasketQuote {
+  /**
+   * Group market slug
+   */
+  groupSlug: string;
+
+  /**
+   * NO shares per outcome
+   */
+  size: number;
+
+  /**
+   * One leg per outcome, in group order
+   */
+  legs: NegRiskBasketLeg[];
+
+  /**
+   * USDC cost of the fillable shares across all legs
+   */
+  totalCost: number;
+
+  /**
+   * Guaranteed payout of the full basket, in USDC
+   */
+  payout: number;
+
+  /**
+   * `payout - totalCost` (null unless every leg is fully fillable)
+   */
+  profit: number | null;
+
+  /**
+   * Whether every leg can fill `size` shares from the current books
+   */
+  fullyFillable: boolean;
+}
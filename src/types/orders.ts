@@ -3,6 +3,10 @@
  * @module types/orders
  */
 
+import type { RetryConfigOptions } from '../api/retry';
+import type { HistoryEntry } from './portfolio';
+import type { FillEvent } from './websocket';
+
 /**
  * Order side enum.
  * @public
@@ -38,6 +42,17 @@ export enum SignatureType {
   POLY_GNOSIS_SAFE = 2,
 }
 
+/**
+ * Order expiration input.
+ *
+ * @remarks
+ * A `Date`, a unix timestamp in seconds (number or numeric string), or a duration
+ * relative to now such as `"15m"`, `"2h"` or `"7d"`. `0` means no expiration.
+ *
+ * @public
+ */
+export type OrderExpiration = Date | number | string;
+
 /**
  * Base arguments shared by all order types.
  * @public
@@ -54,10 +69,15 @@ export interface BaseOrderArgs {
   side: Side;
 
   /**
-   * Expiration timestamp (0 for no expiration)
+   * Expiration (0 for no expiration)
+   *
+   * @remarks
+   * Makes a GTC order good-till-date. Accepts a `Date`, a unix timestamp in
+   * seconds or a duration such as `"15m"`; see {@link OrderExpiration}.
+   *
    * @defaultValue '0'
    */
-  expiration?: string;
+  expiration?: OrderExpiration;
 
   /**
    * Nonce for order replay protection
@@ -478,6 +498,1087 @@ export interface OrderResponse {
   makerMatches?: OrderMatch[];
 }
 
+/**
+ * Order lifecycle status.
+ * @public
+ */
+export type OrderStatus = 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'EXPIRED';
+
+/**
+ * Order with fill progress and status.
+ *
+ * @remarks
+ * Sizes are expressed in share units with 6 decimals, like `makerAmount`/`takerAmount`.
+ *
+ * @public
+ */
+export interface OrderDetails extends CreatedOrder {
+  /**
+   * Current order status
+   */
+  status: OrderStatus;
+
+  /**
+   * Original order size in shares (6 decimals)
+   */
+  size: number;
+
+  /**
+   * Filled size in shares (6 decimals)
+   */
+  filledSize: number;
+
+  /**
+   * Remaining (unfilled) size in shares (6 decimals)
+   */
+  remainingSize: number;
+
+  /**
+   * Market slug, when known
+   */
+  marketSlug?: string;
+}
+
+/**
+ * Filters for open-order queries.
+ * @public
+ */
+export interface OpenOrdersParams {
+  /**
+   * Restrict to a single market. When omitted, open orders are collected across
+   * every market with live orders in the portfolio.
+   */
+  marketSlug?: string;
+
+  /**
+   * Restrict to a single outcome token
+   */
+  tokenId?: string;
+
+  /**
+   * Restrict to one side
+   */
+  side?: Side;
+}
+
+/**
+ * Parameters for creating and submitting an order.
+ * @public
+ */
+export type CreateOrderParams = OrderArgs & {
+  /**
+   * Order type (FOK, FAK or GTC)
+   */
+  orderType: OrderType;
+
+  /**
+   * Market slug identifier
+   */
+  marketSlug: string;
+
+  /**
+   * Caller-chosen ID for idempotent submission (kept locally, not sent to the API)
+   *
+   * @remarks
+   * Retrying `createOrder()` with the same ID after a network error reconciles
+   * against open orders and recent fills instead of submitting a duplicate.
+   * Only `createOrder()` supports it; `createOrders()` and `replaceOrder()` reject it.
+   */
+  clientOrderId?: string;
+};
+
+/**
+ * Stage of the order flow at which a batch entry failed.
+ * @public
+ */
+export type BatchOrderStage = 'build' | 'sign' | 'submit';
+
+/**
+ * Successful entry of a batch order submission.
+ * @public
+ */
+export interface BatchOrderSuccess {
+  /**
+   * Position of the order in the input array
+   */
+  index: number;
+
+  success: true;
+
+  /**
+   * Created order response
+   */
+  response: OrderResponse;
+}
+
+/**
+ * Failed entry of a batch order submission.
+ * @public
+ */
+export interface BatchOrderFailure {
+  /**
+   * Position of the order in the input array
+   */
+  index: number;
+
+  success: false;
+
+  /**
+   * Stage at which the order failed
+   */
+  stage: BatchOrderStage;
+
+  /**
+   * Error raised for this order
+   */
+  error: Error;
+}
+
+/**
+ * Per-order result of `OrderClient.createOrders()`.
+ * @public
+ */
+export type BatchOrderResult = BatchOrderSuccess | BatchOrderFailure;
+
+/**
+ * Submission state of an order with a client order ID.
+ *
+ * @remarks
+ * - `pending`: signed and being submitted
+ * - `acknowledged`: accepted by the API (or found among open orders)
+ * - `unknown`: submission failed without a definitive answer (network error, 5xx)
+ * - `rejected`: the API rejected the order
+ * - `filled`: reconciliation found matching fills, so the order must not be resubmitted
+ *
+ * @public
+ */
+export type ClientOrderStatus = 'pending' | 'acknowledged' | 'unknown' | 'rejected' | 'filled';
+
+/**
+ * Local registry entry for an order with a client order ID.
+ * @public
+ */
+export interface ClientOrderRecord {
+  /**
+   * Caller-chosen order ID
+   */
+  clientOrderId: string;
+
+  /**
+   * Current submission state
+   */
+  status: ClientOrderStatus;
+
+  /**
+   * Signed order payload (resubmitted unchanged on retry)
+   */
+  payload: NewOrderPayload;
+
+  /**
+   * Salt of the signed order
+   */
+  salt: number;
+
+  /**
+   * EIP-712 signature of the signed order
+   */
+  signature: string;
+
+  /**
+   * Time of the first submission attempt (unix milliseconds)
+   */
+  submittedAt: number;
+
+  /**
+   * Number of submission attempts
+   */
+  attempts: number;
+
+  /**
+   * API order ID, once known
+   */
+  orderId?: string;
+
+  /**
+   * Order response, once acknowledged
+   */
+  response?: OrderResponse;
+
+  /**
+   * Last submission error
+   */
+  error?: Error;
+}
+
+/**
+ * Result of reconciling a client order against the API.
+ * @public
+ */
+export interface ClientOrderReconciliation {
+  /**
+   * Caller-chosen order ID
+   */
+  clientOrderId: string;
+
+  /**
+   * What was found: the order resting on the book, fills matching it, or nothing
+   */
+  status: 'open' | 'filled' | 'not_found';
+
+  /**
+   * Matching open order (status `open`)
+   */
+  order?: OrderDetails;
+
+  /**
+   * Recent fills matching the order (status `filled`)
+   */
+  fills: HistoryEntry[];
+}
+
+/**
+ * Per-order result of `OrderClient.cancelOrders()`.
+ * @public
+ */
+export type CancelOrderResult =
+  | {
+      orderId: string;
+      success: true;
+      message: string;
+    }
+  | {
+      orderId: string;
+      success: false;
+      error: Error;
+    };
+
+/**
+ * Filter for `OrderClient.cancelMarketOrders()`.
+ * @public
+ */
+export interface CancelOrdersFilter {
+  /**
+   * Only cancel orders for this outcome token
+   */
+  tokenId?: string;
+
+  /**
+   * Only cancel orders on this side
+   */
+  side?: Side;
+}
+
+/**
+ * Options for cross-market and filtered cancellation.
+ * @public
+ */
+export interface CancelManyOptions extends BatchOptions {
+  /**
+   * Retry settings for transient API failures (see `withRetry`)
+   */
+  retry?: RetryConfigOptions;
+}
+
+/**
+ * Options for `OrderClient.cancelEverything()`.
+ * @public
+ */
+export interface CancelEverythingOptions extends CancelManyOptions {
+  /**
+   * Extra markets to cancel, in addition to those with live orders in the portfolio
+   */
+  marketSlugs?: string[];
+}
+
+/**
+ * Per-market result of `OrderClient.cancelEverything()` and
+ * `OrderClient.cancelMarketOrders()`.
+ * @public
+ */
+export interface MarketCancelResult {
+  /**
+   * Market slug
+   */
+  marketSlug: string;
+
+  /**
+   * Whether every targeted order in the market was cancelled
+   */
+  success: boolean;
+
+  /**
+   * API message of the market-wide cancellation (`cancelEverything()` only)
+   */
+  message?: string;
+
+  /**
+   * Per-order results for the open orders known before cancelling
+   */
+  orders: CancelOrderResult[];
+
+  /**
+   * Market-level failure: the market-wide cancel or the open-order lookup failed
+   */
+  error?: Error;
+}
+
+/**
+ * Parameters for the replacement leg of `OrderClient.replaceOrder()`.
+ * @public
+ */
+export type ReplaceOrderParams = OrderArgs & {
+  /**
+   * Market slug of the order being replaced (used for venue resolution)
+   */
+  marketSlug: string;
+
+  /**
+   * Order type of the replacement
+   * @defaultValue OrderType.GTC
+   */
+  orderType?: OrderType;
+};
+
+/**
+ * Leg of a cancel-replace that failed.
+ *
+ * @remarks
+ * - `prepare`: fetching the original, or building or signing the replacement failed (including a
+ *   market or token mismatch); the original order was not touched
+ * - `cancel`: cancelling the original order failed; the replacement was not submitted
+ * - `submit`: the original order was cancelled but the replacement was rejected
+ *
+ * @public
+ */
+export type ReplaceOrderLeg = 'prepare' | 'cancel' | 'submit';
+
+/**
+ * Result of a successful cancel-replace.
+ * @public
+ */
+export interface ReplaceOrderResult {
+  /**
+   * ID of the cancelled order
+   */
+  cancelledOrderId: string;
+
+  /**
+   * Cancellation message from the API
+   */
+  cancelMessage: string;
+
+  /**
+   * Replacement order response
+   */
+  order: OrderResponse;
+}
+
+/**
+ * Options for batch order operations.
+ * @public
+ */
+export interface BatchOptions {
+  /**
+   * Maximum number of concurrent API requests
+   * @defaultValue 5
+   */
+  concurrency?: number;
+}
+
+/**
+ * Metadata needed to submit a signed order, used to build an envelope.
+ * @public
+ */
+export interface SignedOrderEnvelopeParams {
+  /**
+   * Market slug identifier
+   */
+  marketSlug: string;
+
+  /**
+   * Order type (FOK, FAK or GTC)
+   */
+  orderType: OrderType;
+
+  /**
+   * Owner ID from user profile
+   */
+  ownerId: number;
+
+  /**
+   * Post-only flag (GTC only)
+   */
+  postOnly?: boolean;
+
+  /**
+   * Signing configuration the order was signed with (recommended)
+   *
+   * @remarks
+   * Lets the submitting machine check the signature domain against the market venue.
+   */
+  signingConfig?: OrderSigningConfig;
+}
+
+/**
+ * Versioned, self-describing JSON envelope for a signed order.
+ *
+ * @remarks
+ * Produced on the signing machine with `createSignedOrderEnvelope()` and
+ * submitted elsewhere with `OrderClient.submitSignedOrder()`.
+ *
+ * @public
+ */
+export interface SignedOrderEnvelope {
+  /**
+   * Envelope type marker
+   */
+  type: 'limitless-signed-order';
+
+  /**
+   * Envelope format version
+   */
+  version: 1;
+
+  /**
+   * Creation timestamp (ISO 8601)
+   */
+  createdAt: string;
+
+  /**
+   * Signed order
+   */
+  order: SignedOrder;
+
+  /**
+   * Order type (FOK, FAK or GTC)
+   */
+  orderType: OrderType;
+
+  /**
+   * Market slug identifier
+   */
+  marketSlug: string;
+
+  /**
+   * Owner ID from user profile
+   */
+  ownerId: number;
+
+  /**
+   * Post-only flag (GTC only)
+   */
+  postOnly?: boolean;
+
+  /**
+   * EIP-712 domain details the order was signed with
+   */
+  signingConfig?: OrderSigningConfig;
+}
+
+/**
+ * Expected fill against a single orderbook level.
+ * @public
+ */
+export interface OrderPreviewFill {
+  /**
+   * Level price (0.0 to 1.0)
+   */
+  price: number;
+
+  /**
+   * Shares matched at this level
+   */
+  size: number;
+
+  /**
+   * Collateral exchanged at this level (USDC)
+   */
+  cost: number;
+}
+
+/**
+ * Fill of a share amount against one side of an orderbook.
+ * @public
+ */
+export interface OrderBookFill {
+  /**
+   * Expected fills, best level first
+   */
+  fills: OrderPreviewFill[];
+
+  /**
+   * Shares that fill from the book
+   */
+  filledShares: number;
+
+  /**
+   * Collateral exchanged for the filled shares, in USDC
+   */
+  filledCollateral: number;
+
+  /**
+   * Volume-weighted average fill price (null when nothing fills)
+   */
+  averagePrice: number | null;
+
+  /**
+   * Whether the book covers the whole share amount
+   */
+  fullyFillable: boolean;
+}
+
+/**
+ * Dry-run breakdown of an order against the current orderbook.
+ *
+ * @remarks
+ * Collateral, shares and fees are human-readable (USDC and shares), while
+ * `makerAmount`/`takerAmount` are the 6-decimal amounts the order would be signed with.
+ *
+ * @public
+ */
+export interface OrderPreview {
+  /**
+   * Market slug identifier
+   */
+  marketSlug: string;
+
+  /**
+   * Token ID for the outcome
+   */
+  tokenId: string;
+
+  /**
+   * Order side
+   */
+  side: Side;
+
+  /**
+   * Order type
+   */
+  orderType: OrderType;
+
+  /**
+   * Limit price (null for FOK orders)
+   */
+  price: number | null;
+
+  /**
+   * Maker amount the order would be signed with (6 decimals)
+   */
+  makerAmount: number;
+
+  /**
+   * Taker amount the order would be signed with (6 decimals)
+   */
+  takerAmount: number;
+
+  /**
+   * Collateral spent (BUY) or received (SELL), in USDC
+   *
+   * @remarks
+   * For GTC/FAK orders this is the amount at the limit price. For FOK orders it
+   * is the USDC spent (BUY) or the expected proceeds from the book (SELL).
+   */
+  collateral: number;
+
+  /**
+   * Shares bought or sold
+   *
+   * @remarks
+   * For FOK BUY orders this is the expected number of shares from the book.
+   */
+  shares: number;
+
+  /**
+   * Fee rate in basis points
+   */
+  feeRateBps: number;
+
+  /**
+   * Fee on `collateral` at `feeRateBps`, in USDC
+   */
+  fee: number;
+
+  /**
+   * Expected immediate fills, best level first
+   */
+  fills: OrderPreviewFill[];
+
+  /**
+   * Total shares expected to fill immediately
+   */
+  filledShares: number;
+
+  /**
+   * Total collateral expected to be exchanged immediately, in USDC
+   */
+  filledCollateral: number;
+
+  /**
+   * Volume-weighted average fill price (null when nothing fills)
+   */
+  averageFillPrice: number | null;
+
+  /**
+   * Shares left resting on the book (GTC only, 0 otherwise)
+   */
+  restingShares: number;
+
+  /**
+   * Whether the current book can fill the whole order immediately
+   *
+   * @remarks
+   * A FOK order is rejected when this is false.
+   */
+  fullyFillable: boolean;
+}
+
+/**
+ * Outcome of a binary market.
+ * @public
+ */
+export type MarketOrderOutcome = 'YES' | 'NO';
+
+/**
+ * Options for slippage-protected market orders.
+ * @public
+ */
+export interface MarketOrderOptions {
+  /**
+   * Maximum price move from the best level, in basis points of that price
+   *
+   * @example
+   * 100 = accept fills up to 1% above the best ask (BUY) or below the best bid (SELL)
+   */
+  maxSlippageBps: number;
+
+  /**
+   * Order type used for submission
+   *
+   * @remarks
+   * Both types carry the worst acceptable price as their limit, so the exchange
+   * never fills beyond it. FOK orders are only submitted when the current book can
+   * fill the whole amount within the limit.
+   *
+   * @defaultValue OrderType.FAK
+   */
+  orderType?: OrderType.FAK | OrderType.FOK;
+}
+
+/**
+ * Market order quote derived from the orderbook.
+ * @public
+ */
+export interface MarketOrderQuote {
+  /**
+   * Side the quote was computed for
+   */
+  side: Side;
+
+  /**
+   * Best price on the side being taken
+   */
+  bestPrice: number;
+
+  /**
+   * Worst acceptable price (tick-aligned)
+   */
+  limitPrice: number;
+
+  /**
+   * Share size for a limit order at `limitPrice`
+   *
+   * @remarks
+   * For BUY orders this is the largest tick-aligned size whose cost at `limitPrice`
+   * fits in the USDC amount; for SELL orders it is the amount itself.
+   */
+  size: number;
+
+  /**
+   * Expected fills within the limit price, best level first
+   */
+  fills: OrderPreviewFill[];
+
+  /**
+   * Shares expected to fill
+   */
+  filledShares: number;
+
+  /**
+   * Collateral expected to be exchanged, in USDC
+   */
+  filledCollateral: number;
+
+  /**
+   * Volume-weighted average fill price (null when nothing fills)
+   */
+  averagePrice: number | null;
+
+  /**
+   * Whether the book can fill the whole amount within the limit price
+   */
+  fullyFillable: boolean;
+}
+
+/**
+ * Result of a slippage-protected market order.
+ * @public
+ */
+export interface MarketOrderResult {
+  /**
+   * Token ID the order was placed on
+   */
+  tokenId: string;
+
+  /**
+   * Quote the order was built from
+   */
+  quote: MarketOrderQuote;
+
+  /**
+   * Order creation response
+   */
+  response: OrderResponse;
+}
+
+/**
+ * Emitted when a tracked good-till-date order reaches its expiration.
+ * @public
+ */
+export interface OrderExpiredEvent {
+  /**
+   * Expired order ID
+   */
+  orderId: string;
+
+  /**
+   * Market slug of the order
+   */
+  marketSlug: string;
+
+  /**
+   * Order expiration (unix seconds)
+   */
+  expiration: number;
+
+  /**
+   * Whether the order was cancelled (only with `autoCancelExpired`)
+   */
+  cancelled: boolean;
+
+  /**
+   * Cancellation error, when auto-cancel failed (e.g. the order already filled)
+   */
+  error?: Error;
+}
+
+/**
+ * Why the dead-man's switch tripped.
+ *
+ * @remarks
+ * - `heartbeatTimeout`: no `heartbeat()` within `timeoutMs`
+ * - `disconnected`: the WebSocket stayed disconnected for `disconnectTimeoutMs`
+ *
+ * @public
+ */
+export type DeadMansSwitchReason = 'heartbeatTimeout' | 'disconnected';
+
+/**
+ * Payload of the `deadMansSwitch` event.
+ * @public
+ */
+export interface DeadMansSwitchEvent {
+  /**
+   * Why the switch tripped
+   */
+  reason: DeadMansSwitchReason;
+
+  /**
+   * Time of the last heartbeat, in milliseconds
+   */
+  lastHeartbeatAt: number;
+
+  /**
+   * Time the switch tripped, in milliseconds
+   */
+  triggeredAt: number;
+
+  /**
+   * Per-market cancellation results
+   */
+  results: MarketCancelResult[];
+
+  /**
+   * Set when cancellation could not run at all (e.g. the portfolio fetch failed)
+   */
+  error?: Error;
+}
+
+/**
+ * Events emitted by `OrderClient`.
+ * @public
+ */
+export interface OrderClientEvents {
+  /**
+   * A tracked good-till-date order lapsed
+   */
+  orderExpired: (event: OrderExpiredEvent) => void;
+
+  /**
+   * The dead-man's switch tripped and cancelled orders
+   */
+  deadMansSwitch: (event: DeadMansSwitchEvent) => void;
+}
+
+/**
+ * Order followed by `OrderTracker`.
+ *
+ * @remarks
+ * Sizes are in share units with 6 decimals, like {@link OrderDetails}.
+ *
+ * @public
+ */
+export interface TrackedOrder {
+  /**
+   * Order ID
+   */
+  orderId: string;
+
+  /**
+   * Market slug, when known
+   */
+  marketSlug?: string;
+
+  /**
+   * Token ID, when known
+   */
+  tokenId?: string;
+
+  /**
+   * Order side, when known
+   */
+  side?: Side;
+
+  /**
+   * Current status
+   */
+  status: OrderStatus;
+
+  /**
+   * Original order size (6 decimals)
+   */
+  size: number;
+
+  /**
+   * Filled size (6 decimals)
+   */
+  filledSize: number;
+
+  /**
+   * Remaining size (6 decimals)
+   */
+  remainingSize: number;
+
+  /**
+   * Fills received for this order, in arrival order
+   */
+  fills: FillEvent[];
+
+  /**
+   * Time of the last change, in milliseconds
+   */
+  updatedAt: number;
+}
+
+/**
+ * Events emitted by `OrderTracker`.
+ * @public
+ */
+export interface OrderTrackerEvents {
+  /**
+   * A tracked order's status or filled size changed
+   */
+  update: (order: TrackedOrder, previousStatus: OrderStatus) => void;
+
+  /**
+   * A fill was received for a tracked order
+   */
+  fill: (order: TrackedOrder, fill: FillEvent) => void;
+
+  /**
+   * A tracked order reached FILLED, CANCELLED or EXPIRED
+   */
+  done: (order: TrackedOrder) => void;
+
+  /**
+   * A REST status check failed
+   */
+  error: (error: Error, orderId: string) => void;
+}
+
+/**
+ * Pre-trade limits enforced by `RiskManager`. Omitted limits are not checked.
+ *
+ * @remarks
+ * Amounts are in collateral units (USDC); prices are in the 0-1 range.
+ *
+ * @public
+ */
+export interface RiskLimits {
+  /**
+   * Maximum notional of a single order: collateral paid for a BUY, received for a SELL
+   */
+  maxOrderNotional?: number;
+
+  /**
+   * Maximum open exposure per market: position market value plus open BUY
+   * orders, including the new order
+   */
+  maxMarketExposure?: number;
+
+  /**
+   * Maximum loss since the start of the UTC day; once reached, only SELL orders
+   * are allowed
+   *
+   * @remarks
+   * Measured from open position P&L. A position that closes or is redeemed
+   * keeps its P&L from the last fetch before it disappeared, so moves after
+   * that fetch, and positions opened and closed between fetches, are missed.
+   */
+  maxDailyLoss?: number;
+
+  /**
+   * Maximum distance between an order's limit price and the market mid
+   */
+  priceBand?: number;
+}
+
+/**
+ * Name of a risk limit.
+ * @public
+ */
+export type RiskLimitName = keyof RiskLimits;
+
+/**
+ * Order as seen by `RiskManager`.
+ * @public
+ */
+export interface RiskOrder {
+  /**
+   * Market slug identifier
+   */
+  marketSlug: string;
+
+  /**
+   * Outcome token ID
+   */
+  tokenId: string;
+
+  /**
+   * Order side
+   */
+  side: Side;
+
+  /**
+   * Order type
+   */
+  orderType: OrderType;
+
+  /**
+   * Limit price, when the order has one
+   */
+  price?: number;
+
+  /**
+   * Collateral paid (BUY) or received (SELL) if fully filled, in USDC
+   *
+   * @remarks
+   * SELL orders are valued as shares × limit price. Without a limit price
+   * (FOK market sells) this is shares × 1, the most they can receive.
+   */
+  notional: number;
+
+  /**
+   * Shares sold, set on SELL orders without a limit price so `RiskManager`
+   * can value them at the orderbook mid
+   */
+  shares?: number;
+
+  /**
+   * Order being replaced, excluded from open exposure
+   */
+  replacesOrderId?: string;
+}
+
+/**
+ * Transaction returned by a nonce-changing exchange call.
+ * @public
+ */
+export interface ExchangeTransaction {
+  /**
+   * Transaction hash
+   */
+  hash?: string;
+
+  /**
+   * Waits for the transaction to be mined
+   */
+  wait(): Promise<unknown>;
+}
+
+/**
+ * Nonce functions of a venue exchange contract.
+ *
+ * @remarks
+ * Matches an `ethers.Contract` created with `EXCHANGE_NONCE_ABI`. Orders signed
+ * with a nonce other than the maker's current exchange nonce cannot be filled,
+ * so incrementing the nonce invalidates every outstanding order at once.
+ *
+ * @public
+ */
+export interface ExchangeNonceContract {
+  /**
+   * Reads the current nonce of a maker
+   */
+  nonces(maker: string): Promise<bigint | number>;
+
+  /**
+   * Increments the nonce of the transaction sender
+   */
+  incrementNonce(): Promise<ExchangeTransaction>;
+}
+
+/**
+ * Result of invalidating all orders of a maker on an exchange.
+ * @public
+ */
+export interface NonceInvalidationResult {
+  /**
+   * Exchange contract address
+   */
+  exchange: string;
+
+  /**
+   * Maker address
+   */
+  maker: string;
+
+  /**
+   * Nonce before the increment
+   */
+  previousNonce: number;
+
+  /**
+   * Nonce after the increment, read back from the contract
+   */
+  nonce: number;
+
+  /**
+   * Increment transaction hash, when reported by the contract
+   */
+  transactionHash?: string;
+}
+
 /**
  * Order signing configuration.
  * @public
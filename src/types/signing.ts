@@ -0,0 +1,114 @@
+/**
+ * Signing backend types for EIP-712 order signing.
+ * @module types/signing
+ */
+
+/**
+ * EIP-712 typed data field definition.
+ * @public
+ */
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+/**
+ * EIP-712 domain used for order signing.
+ * @public
+ */
+export interface OrderTypedDataDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+/**
+ * Pluggable backend that signs orders with EIP-712.
+ *
+ * @remarks
+ * Any `ethers.Signer` (including `ethers.Wallet`) already satisfies this interface.
+ * Use the adapters in the orders module for EIP-1193 providers (browser wallets)
+ * and remote signing services (KMS/HSM, custody APIs).
+ *
+ * @public
+ */
+export interface OrderSigningBackend {
+  /**
+   * Returns the address that produces signatures.
+   */
+  getAddress(): Promise<string>;
+
+  /**
+   * Signs EIP-712 typed data and returns a 65-byte hex signature.
+   */
+  signTypedData(
+    domain: OrderTypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+}
+
+/**
+ * Minimal EIP-1193 provider (e.g. `window.ethereum`).
+ * @public
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | object }): Promise<unknown>;
+}
+
+/**
+ * Complete EIP-712 payload handed to callback signers.
+ *
+ * @remarks
+ * Matches the `eth_signTypedData_v4` JSON format, including the `EIP712Domain` type.
+ *
+ * @public
+ */
+export interface TypedDataSigningRequest {
+  domain: OrderTypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, any>;
+}
+
+/**
+ * Configuration for a callback-based signing backend.
+ * @public
+ */
+export interface CallbackSigningBackendConfig {
+  /**
+   * Signer address, or an async resolver for it
+   */
+  address: string | (() => Promise<string>);
+
+  /**
+   * Signs the typed data payload (e.g. by calling a remote signing service)
+   */
+  sign: (request: TypedDataSigningRequest) => Promise<string>;
+}
+
+/**
+ * Order fields covered by the EIP-712 `Order` struct.
+ *
+ * @remarks
+ * Accepts both locally built orders (`UnsignedOrder`) and orders returned
+ * by the API (`CreatedOrder`), whose numeric fields may arrive as strings
+ * (e.g. a salt beyond the safe integer range) and whose expiration may be null.
+ *
+ * @public
+ */
+export interface OrderTypedDataInput {
+  salt: number | string | bigint;
+  maker: string;
+  signer: string;
+  taker: string;
+  tokenId: number | string | bigint;
+  makerAmount: number | string | bigint;
+  takerAmount: number | string | bigint;
+  expiration: number | string | bigint | null;
+  nonce: number | string | bigint;
+  feeRateBps: number | string | bigint;
+  side: number | string;
+  signatureType: number | string;
+}
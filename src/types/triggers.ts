@@ -0,0 +1,209 @@
+/**
+ * Stop and take-profit trigger types for Limitless Exchange.
+ * @module types/triggers
+ */
+
+import type { CreateOrderParams, MarketOrderOutcome, OrderResponse } from './orders';
+
+/**
+ * Trigger condition kind.
+ *
+ * @remarks
+ * The direction follows the side of the order the trigger fires:
+ * - `stopLoss`: a SELL fires when the price falls to or below `triggerPrice`;
+ *   a BUY fires when it rises to or above it
+ * - `takeProfit`: a SELL fires when the price rises to or above `triggerPrice`;
+ *   a BUY fires when it falls to or below it
+ *
+ * @public
+ */
+export type TriggerKind = 'stopLoss' | 'takeProfit';
+
+/**
+ * Price a trigger condition is evaluated on.
+ *
+ * @remarks
+ * - `mid`: midpoint of the best bid and ask from `orderbookUpdate`
+ * - `bestBid`: best bid from `orderbookUpdate`
+ * - `lastTrade`: latest traded price from `newPriceData` (requires `marketAddress`)
+ *
+ * @public
+ */
+export type TriggerPriceSource = 'mid' | 'bestBid' | 'lastTrade';
+
+/**
+ * Trigger lifecycle status.
+ *
+ * @remarks
+ * - `active`: watching prices
+ * - `firing`: condition met, order being submitted
+ * - `fired`: order accepted (terminal)
+ * - `cancelled`: removed, or its OCO sibling fired (terminal)
+ * - `failed`: order rejected (terminal)
+ *
+ * @public
+ */
+export type TriggerStatus = 'active' | 'firing' | 'fired' | 'cancelled' | 'failed';
+
+/**
+ * Parameters for a new trigger.
+ * @public
+ */
+export interface TriggerParams {
+  /**
+   * Trigger ID (default: generated)
+   */
+  id?: string;
+
+  /**
+   * Condition kind
+   */
+  kind: TriggerKind;
+
+  /**
+   * Price at which the condition is met (0-1 range)
+   */
+  triggerPrice: number;
+
+  /**
+   * Price the condition is evaluated on
+   * @defaultValue 'mid'
+   */
+  priceSource?: TriggerPriceSource;
+
+  /**
+   * Outcome whose price is watched
+   *
+   * @remarks
+   * Orderbook updates carry the YES book; NO prices are derived as `1 - price`
+   * from the opposite side.
+   */
+  outcome: MarketOrderOutcome;
+
+  /**
+   * Market address, needed to match `newPriceData` for the `lastTrade` source
+   */
+  marketAddress?: string;
+
+  /**
+   * Order submitted through `OrderClient.createOrder()` when the condition is met
+   *
+   * @remarks
+   * Its `marketSlug` is also the market watched for orderbook updates. Use a
+   * numeric `expiration` (unix seconds) if the state is persisted as JSON.
+   */
+  order: CreateOrderParams;
+}
+
+/**
+ * A trigger and its current state. JSON-serializable.
+ * @public
+ */
+export interface Trigger extends Required<Pick<TriggerParams, 'id' | 'priceSource'>> {
+  /**
+   * Condition kind
+   */
+  kind: TriggerKind;
+
+  /**
+   * Price at which the condition is met
+   */
+  triggerPrice: number;
+
+  /**
+   * Outcome whose price is watched
+   */
+  outcome: MarketOrderOutcome;
+
+  /**
+   * Market address for the `lastTrade` source
+   */
+  marketAddress?: string;
+
+  /**
+   * Order submitted when the condition is met
+   */
+  order: CreateOrderParams;
+
+  /**
+   * Current status
+   */
+  status: TriggerStatus;
+
+  /**
+   * OCO group: when one trigger in the group fires, the others are cancelled
+   */
+  ocoGroupId?: string;
+
+  /**
+   * Creation time in milliseconds
+   */
+  createdAt: number;
+
+  /**
+   * Time the condition was met, in milliseconds
+   */
+  triggeredAt?: number;
+
+  /**
+   * Price observed when the condition was met
+   */
+  triggeredPrice?: number;
+
+  /**
+   * ID of the submitted order (status `fired`)
+   */
+  orderId?: string;
+
+  /**
+   * Error message (status `failed`)
+   */
+  error?: string;
+}
+
+/**
+ * Persistable trigger engine state.
+ * @public
+ */
+export interface TriggerEngineState {
+  /**
+   * State format version
+   */
+  version: 1;
+
+  /**
+   * Every trigger the engine knows about, including terminal ones
+   */
+  triggers: Trigger[];
+}
+
+/**
+ * Events emitted by the trigger engine.
+ * @public
+ */
+export interface TriggerEngineEvents {
+  /**
+   * A trigger's condition was met and its order is being submitted
+   */
+  triggered: (trigger: Trigger) => void;
+
+  /**
+   * A trigger's order was accepted
+   */
+  fired: (trigger: Trigger, response: OrderResponse) => void;
+
+  /**
+   * A trigger was cancelled, directly or by its OCO sibling firing
+   */
+  cancelled: (trigger: Trigger) => void;
+
+  /**
+   * A trigger's order was rejected
+   */
+  failed: (trigger: Trigger, error: Error) => void;
+
+  /**
+   * Trigger state changed; persist `state` to survive restarts
+   */
+  change: (state: TriggerEngineState) => void;
+}
@@ -5,6 +5,7 @@
 
 import type { OrderbookEntry } from './markets';
 import type { HMACCredentials } from './api-tokens';
+import type { ExecutionClock } from './execution';
 
 // Re-export OrderbookEntry for convenience
 export type { OrderbookEntry };
@@ -58,6 +59,60 @@ export interface WebSocketConfig {
    * Connection timeout in ms (default: 10000)
    */
   timeout?: number;
+
+  /**
+   * Stale-feed detection. Message timestamps and latency are tracked either way;
+   * `stale` events are only emitted when this is set.
+   */
+  liveness?: WebSocketLivenessConfig;
+
+  /**
+   * Clock used for liveness checks (default: system clock)
+   */
+  clock?: ExecutionClock;
+}
+
+/**
+ * Stale-feed detection settings.
+ * @public
+ */
+export interface WebSocketLivenessConfig {
+  /**
+   * A subscribed feed without messages for this long is reported as stale
+   */
+  staleAfterMs: number;
+
+  /**
+   * Interval between liveness checks
+   * @defaultValue `staleAfterMs / 4`
+   */
+  checkIntervalMs?: number;
+
+  /**
+   * Channels whose feeds are checked
+   * @defaultValue `['subscribe_market_prices']`
+   */
+  channels?: SubscriptionChannel[];
+
+  /**
+   * Reconnect (and re-subscribe) when a feed goes stale. With pings, only a
+   * stale connection reconnects; quiet markets are reported without reconnecting.
+   * @defaultValue false
+   */
+  reconnectOnStale?: boolean;
+
+  /**
+   * Event sent as an application-level ping on every check. The server must
+   * acknowledge it; `false` disables pings and the connection check.
+   * @defaultValue 'ping'
+   */
+  pingEvent?: string | false;
+
+  /**
+   * Number of recent messages used for latency statistics
+   * @defaultValue 100
+   */
+  latencySampleSize?: number;
 }
 
 /**
@@ -314,6 +369,16 @@ export interface WebSocketEvents {
    */
   reconnecting: (attempt: number) => void;
 
+  /**
+   * A subscribed feed went quiet past `liveness.staleAfterMs` (emitted by the client)
+   */
+  stale: (event: WebSocketStaleEvent) => void;
+
+  /**
+   * The server rejected the client's credentials (emitted by the client)
+   */
+  authError: (failure: WebSocketAuthFailure) => void;
+
   /**
    * Orderbook updates (CLOB markets) - API event name: orderbookUpdate
    */
@@ -403,3 +468,238 @@ export interface SubscriptionOptions {
    */
   filters?: Record<string, any>;
 }
+
+/**
+ * Subscription state of one channel as tracked by the client.
+ *
+ * @remarks
+ * The client merges every `subscribe`/`unsubscribe` call for a channel into a
+ * single subscription and replays it after a reconnect.
+ *
+ * @public
+ */
+export interface ChannelSubscription {
+  /**
+   * Subscribed channel
+   */
+  channel: SubscriptionChannel;
+
+  /**
+   * Whether the whole channel is subscribed (a subscribe call without markets)
+   */
+  channelWide: boolean;
+
+  /**
+   * Individually subscribed market slugs
+   */
+  marketSlugs: string[];
+
+  /**
+   * Individually subscribed market addresses (AMM markets, lower-cased)
+   */
+  marketAddresses: string[];
+
+  /**
+   * Filters sent with the subscription
+   */
+  filters?: Record<string, any>;
+}
+
+/**
+ * Payload type of a WebSocket event.
+ * @public
+ */
+export type WebSocketEventPayload<K extends keyof WebSocketEvents> = Parameters<
+  WebSocketEvents[K]
+>[0];
+
+/**
+ * What a stream does when its buffer is full.
+ *
+ * @remarks
+ * - `dropOldest`: discard the oldest buffered event to make room
+ * - `error`: end the stream with a `WebSocketStreamOverflowError`
+ *
+ * @public
+ */
+export type WebSocketStreamOverflow = 'dropOldest' | 'error';
+
+/**
+ * Options for `WebSocketClient.stream()`.
+ * @public
+ */
+export interface WebSocketStreamOptions extends SubscriptionOptions {
+  /**
+   * Channel to subscribe while streaming.
+   *
+   * @defaultValue `subscribe_market_prices` for `orderbookUpdate`/`newPriceData`,
+   * `subscribe_positions` for `positions`, `subscribe_transactions` for `tx`;
+   * no subscription for other events
+   */
+  channel?: SubscriptionChannel;
+
+  /**
+   * Maximum number of events buffered while the consumer is busy
+   * @defaultValue 1000
+   */
+  bufferSize?: number;
+
+  /**
+   * Policy applied when the buffer is full
+   * @defaultValue 'dropOldest'
+   */
+  overflow?: WebSocketStreamOverflow;
+}
+
+/**
+ * Feed that stopped receiving messages, or a connection that stopped answering pings.
+ * @public
+ */
+export interface WebSocketStaleEvent {
+  /**
+   * Subscribed channel of the feed (omitted for the connection itself)
+   */
+  channel?: SubscriptionChannel;
+
+  /**
+   * Market slug of the feed, for market subscriptions
+   */
+  marketSlug?: string;
+
+  /**
+   * Market address of the feed, for AMM market subscriptions
+   */
+  marketAddress?: string;
+
+  /**
+   * Time of the last message on the feed, or of the last ping answer or message
+   * for the connection (null if none arrived since subscribing or connecting)
+   */
+  lastMessageAt: number | null;
+
+  /**
+   * Milliseconds without messages
+   */
+  quietMs: number;
+
+  /**
+   * Whether the client is reconnecting because of it (`reconnectOnStale`)
+   */
+  reconnecting: boolean;
+}
+
+/**
+ * Latency of recent samples: message delivery (from the message `timestamp` to
+ * receipt) or ping round trips.
+ *
+ * @remarks
+ * Delivery latency includes any clock skew between the server and this host.
+ * All fields except `samples` are null until the first sample.
+ *
+ * @public
+ */
+export interface WebSocketLatencyStats {
+  /**
+   * Number of samples in the window
+   */
+  samples: number;
+
+  /**
+   * Latency of the most recent sample
+   */
+  lastMs: number | null;
+
+  /**
+   * Lowest latency in the window
+   */
+  minMs: number | null;
+
+  /**
+   * Mean latency over the window
+   */
+  meanMs: number | null;
+
+  /**
+   * Median latency over the window
+   */
+  p50Ms: number | null;
+
+  /**
+   * 95th percentile latency over the window
+   */
+  p95Ms: number | null;
+
+  /**
+   * Highest latency in the window
+   */
+  maxMs: number | null;
+}
+
+/**
+ * Message activity seen by the client.
+ * @public
+ */
+export interface WebSocketLiveness {
+  /**
+   * Time of the last message on any event (null before the first one)
+   */
+  lastMessageAt: number | null;
+
+  /**
+   * Time of the last message per subscription channel
+   */
+  channels: Partial<Record<SubscriptionChannel, number>>;
+
+  /**
+   * Time of the last message per market slug or (lowercase) market address
+   */
+  markets: Record<string, number>;
+
+  /**
+   * Latency statistics of recent messages
+   */
+  latency: WebSocketLatencyStats;
+
+  /**
+   * Time the server last answered a ping (null before the first answer)
+   */
+  lastPongAt: number | null;
+
+  /**
+   * Round-trip statistics of recent pings
+   */
+  roundTrip: WebSocketLatencyStats;
+}
+
+/**
+ * Authentication method used by the WebSocket client.
+ * @public
+ */
+export type WebSocketAuthMode = 'hmac' | 'apiKey' | 'none';
+
+/**
+ * Rejected WebSocket authentication.
+ * @public
+ */
+export interface WebSocketAuthFailure {
+  /**
+   * When the failure happened: the initial `connect()`, an automatic
+   * reconnection attempt, or an error event sent by the server later on
+   */
+  phase: 'connect' | 'reconnect' | 'server';
+
+  /**
+   * Credentials the client was using
+   */
+  authMode: WebSocketAuthMode;
+
+  /**
+   * Failure message from the server
+   */
+  message: string;
+
+  /**
+   * Underlying error
+   */
+  error: Error;
+}
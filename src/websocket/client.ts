@@ -4,18 +4,30 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import { EventEmitter } from 'eventemitter3';
 import { DEFAULT_WS_URL } from '../utils/constants';
 import { buildWebSocketTrackingHeaders } from '../utils/sdk-tracking';
 import { computeHMACSignature } from '../api/hmac';
+import { systemClock } from '../execution/clock';
 import {
   WebSocketState,
   type WebSocketConfig,
   type WebSocketEvents,
   type SubscriptionChannel,
   type SubscriptionOptions,
+  type ChannelSubscription,
+  type WebSocketEventPayload,
+  type WebSocketStreamOptions,
+  type WebSocketLiveness,
+  type WebSocketLatencyStats,
+  type WebSocketStaleEvent,
+  type WebSocketAuthFailure,
+  type WebSocketAuthMode,
 } from '../types/websocket';
 import type { ILogger } from '../types/logger';
 import { NoOpLogger } from '../types/logger';
+import { WebSocketStream } from './stream';
+import { WebSocketLivenessMonitor } from './liveness';
 
 interface ResolvedWebSocketConfig {
   url: string;
@@ -27,6 +39,161 @@ interface ResolvedWebSocketConfig {
   timeout: number;
 }
 
+/**
+ * Events emitted by the client itself rather than received from the server.
+ * @internal
+ */
+const LOCAL_EVENTS = new Set<string>(['stale', 'authError']);
+
+/**
+ * Merged subscription of one channel.
+ * @internal
+ */
+interface SubscriptionEntry {
+  /** Whether the whole channel is subscribed (a subscribe without markets) */
+  channelWide: boolean;
+  marketSlugs: Set<string>;
+  marketAddresses: Set<string>;
+  filters?: Record<string, any>;
+}
+
+/**
+ * Subscription held open by an active stream.
+ * @internal
+ */
+interface StreamClaim {
+  channel: SubscriptionChannel;
+  /** Markets the stream asked for */
+  requested: { marketSlugs: string[]; marketAddresses: string[] };
+  /** Markets (or the whole channel) that were not subscribed before the stream */
+  added: { marketSlugs: string[]; marketAddresses: string[]; channel: boolean };
+}
+
+/**
+ * Subscription channel that delivers each event (used by streams and liveness tracking).
+ * @internal
+ */
+const EVENT_CHANNELS: Partial<Record<keyof WebSocketEvents, SubscriptionChannel>> = {
+  orderbookUpdate: 'subscribe_market_prices',
+  newPriceData: 'subscribe_market_prices',
+  positions: 'subscribe_positions',
+  tx: 'subscribe_transactions',
+};
+
+/**
+ * Whether an event payload belongs to one of the requested markets.
+ * @internal
+ */
+function matchesMarkets(
+  data: unknown,
+  markets: { marketSlugs: string[]; marketAddresses: string[] }
+): boolean {
+  if (markets.marketSlugs.length === 0 && markets.marketAddresses.length === 0) {
+    return true;
+  }
+  if (!data || typeof data !== 'object') {
+    return true;
+  }
+
+  const { marketSlug, marketAddress } = data as { marketSlug?: unknown; marketAddress?: unknown };
+  if (typeof marketSlug === 'string' && markets.marketSlugs.includes(marketSlug)) {
+    return true;
+  }
+  if (
+    typeof marketAddress === 'string' &&
+    markets.marketAddresses.some((address) => address.toLowerCase() === marketAddress.toLowerCase())
+  ) {
+    return true;
+  }
+  // Events without a market identifier are not filtered
+  return typeof marketSlug !== 'string' && typeof marketAddress !== 'string';
+}
+
+/**
+ * Collects the singular (deprecated) and array market options into one list each,
+ * with addresses lower-cased.
+ * @internal
+ */
+function normalizeMarkets(options: SubscriptionOptions): {
+  marketSlugs: string[];
+  marketAddresses: string[];
+} {
+  const marketSlugs = [...(options.marketSlugs ?? [])];
+  const marketAddresses = [...(options.marketAddresses ?? [])];
+  if (options.marketSlug) {
+    marketSlugs.push(options.marketSlug);
+  }
+  if (options.marketAddress) {
+    marketAddresses.push(options.marketAddress);
+  }
+  return { marketSlugs, marketAddresses: marketAddresses.map((address) => address.toLowerCase()) };
+}
+
+/**
+ * Builds the server payload for a merged subscription.
+ * @internal
+ */
+function toSubscriptionPayload(entry: SubscriptionEntry): SubscriptionOptions {
+  const payload: SubscriptionOptions = {};
+  // A channel-wide subscription already covers every market
+  if (!entry.channelWide && entry.marketSlugs.size > 0) {
+    payload.marketSlugs = [...entry.marketSlugs];
+  }
+  if (!entry.channelWide && entry.marketAddresses.size > 0) {
+    payload.marketAddresses = [...entry.marketAddresses];
+  }
+  if (entry.filters) {
+    payload.filters = entry.filters;
+  }
+  return payload;
+}
+
+/**
+ * Message of an error or error-like payload sent by the server.
+ * @internal
+ */
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
+/**
+ * Whether an error reports rejected credentials (HTTP 401/403 or an auth message).
+ * @internal
+ */
+function isAuthFailure(error: unknown): boolean {
+  const details = error && typeof error === 'object' ? (error as Record<string, any>) : {};
+  const status = details.data?.status ?? details.data?.statusCode ?? details.description;
+  if (status === 401 || status === 403) {
+    return true;
+  }
+  return /unauthori[sz]ed|forbidden|authenticat|signature|api key|\b40[13]\b/i.test(
+    errorMessage(error)
+  );
+}
+
+/**
+ * Error rejecting `connect()` when the server refuses the credentials.
+ * @public
+ */
+export class WebSocketAuthError extends Error {
+  /**
+   * Details of the rejected authentication
+   */
+  public readonly failure: WebSocketAuthFailure;
+
+  constructor(failure: WebSocketAuthFailure) {
+    super(`WebSocket authentication failed (${failure.authMode}): ${failure.message}`);
+    this.name = 'WebSocketAuthError';
+    this.failure = failure;
+  }
+}
+
 /**
  * WebSocket client for real-time data streaming from Limitless Exchange.
  *
@@ -74,8 +241,12 @@ export class WebSocketClient {
   private logger: ILogger;
   private state: WebSocketState = WebSocketState.DISCONNECTED;
   private reconnectAttempts = 0;
-  private subscriptions: Map<string, SubscriptionOptions> = new Map();
+  private subscriptions: Map<SubscriptionChannel, SubscriptionEntry> = new Map();
   private pendingListeners: Array<{ event: string; handler: any }> = [];
+  private streamClaims: Set<StreamClaim> = new Set();
+  private streams: Set<WebSocketStream<any>> = new Set();
+  private localEvents = new EventEmitter();
+  private liveness: WebSocketLivenessMonitor;
 
   /**
    * Creates a new WebSocket client.
@@ -94,6 +265,20 @@ export class WebSocketClient {
       timeout: config.timeout || 10000,
     };
     this.logger = logger || new NoOpLogger();
+    this.liveness = new WebSocketLivenessMonitor(
+      {
+        getSubscriptions: () => this.getSubscriptions(),
+        ping: async (event, timeoutMs) => {
+          if (!this.socket) {
+            throw new Error('WebSocket not connected');
+          }
+          await this.socket.timeout(timeoutMs).emitWithAck(event);
+        },
+        onStale: (events) => this.handleStale(events),
+      },
+      config.clock ?? systemClock,
+      config.liveness
+    );
   }
 
   /**
@@ -114,6 +299,63 @@ export class WebSocketClient {
     return this.state === WebSocketState.CONNECTED && this.socket?.connected === true;
   }
 
+  /**
+   * Lists the active subscriptions, one per channel.
+   *
+   * @returns Snapshot of the merged subscription of every channel
+   *
+   * @example
+   * ```typescript
+   * await wsClient.subscribe('subscribe_market_prices', { marketSlugs: ['a'] });
+   * await wsClient.subscribe('subscribe_market_prices', { marketSlugs: ['b'] });
+   * wsClient.getSubscriptions();
+   * // [{ channel: 'subscribe_market_prices', channelWide: false,
+   * //    marketSlugs: ['a', 'b'], marketAddresses: [] }]
+   * ```
+   */
+  getSubscriptions(): ChannelSubscription[] {
+    return [...this.subscriptions.entries()].map(([channel, entry]) => ({
+      channel,
+      channelWide: entry.channelWide,
+      marketSlugs: [...entry.marketSlugs],
+      marketAddresses: [...entry.marketAddresses],
+      ...(entry.filters ? { filters: { ...entry.filters } } : {}),
+    }));
+  }
+
+  /**
+   * Gets message activity: last-message times per channel and market, and latency.
+   *
+   * @returns Snapshot of the liveness state
+   *
+   * @example
+   * ```typescript
+   * const { markets, latency } = wsClient.getLiveness();
+   * console.log(Date.now() - markets['btc-100k'], latency.p95Ms);
+   * ```
+   */
+  getLiveness(): WebSocketLiveness {
+    return this.liveness.getLiveness();
+  }
+
+  /**
+   * Gets delivery latency statistics over recent timestamped messages.
+   *
+   * @returns Latency statistics (null fields until a timestamped message arrives)
+   */
+  getLatencyStats(): WebSocketLatencyStats {
+    return this.liveness.getLatencyStats();
+  }
+
+  /**
+   * Gets round-trip statistics of the liveness pings (see `liveness.pingEvent`).
+   *
+   * @returns Round-trip statistics (null fields until the server answers a ping)
+   */
+  getRoundTripStats(): WebSocketLatencyStats {
+    return this.liveness.getRoundTripStats();
+  }
+
   /**
    * Sets the API key for authentication.
    *
@@ -169,7 +411,9 @@ export class WebSocketClient {
    * @internal
    */
   private async reconnectWithNewAuth(): Promise<void> {
-    await this.disconnect();
+    // Unlike disconnect(), keep the registry so connect() can restore it
+    this.closeSocket();
+    this.endStreams();
     await this.connect();
   }
 
@@ -214,32 +458,9 @@ export class WebSocketClient {
         randomizationFactor: 0.2, // Add jitter to prevent thundering herd
         timeout: this.config.timeout,
       };
-      const extraHeaders = buildWebSocketTrackingHeaders();
-
-      if (this.config.hmacCredentials) {
-        const timestamp = new Date().toISOString();
-        const signature = computeHMACSignature(
-          this.config.hmacCredentials.secret,
-          timestamp,
-          'GET',
-          '/socket.io/?EIO=4&transport=websocket',
-          '',
-        );
-
-        socketOptions.extraHeaders = {
-          ...extraHeaders,
-          'lmts-api-key': this.config.hmacCredentials.tokenId,
-          'lmts-timestamp': timestamp,
-          'lmts-signature': signature,
-        };
-      } else if (this.config.apiKey) {
-        // Add API key to headers if provided
-        // Required for authenticated subscriptions (positions, transactions)
-        socketOptions.extraHeaders = {
-          ...extraHeaders,
-          'X-API-Key': this.config.apiKey,
-        };
-      } else if (Object.keys(extraHeaders).length > 0) {
+      // Auth headers are rebuilt before every reconnection attempt (see setupEventHandlers)
+      const extraHeaders = this.buildExtraHeaders();
+      if (extraHeaders) {
         socketOptions.extraHeaders = extraHeaders;
       }
 
@@ -270,7 +491,11 @@ export class WebSocketClient {
         clearTimeout(timeout);
         this.state = WebSocketState.ERROR;
         this.logger.error('WebSocket connection error', error);
-        reject(error);
+        reject(
+          isAuthFailure(error)
+            ? new WebSocketAuthError(this.toAuthFailure('connect', error))
+            : error
+        );
       });
     });
   }
@@ -291,15 +516,52 @@ export class WebSocketClient {
     }
 
     this.logger.info('Disconnecting from WebSocket');
-    this.socket.disconnect();
+    this.closeSocket();
+    this.endStreams();
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Closes the socket and stops liveness checks.
+   * @internal
+   */
+  private closeSocket(): void {
+    this.liveness.stop();
+    this.socket?.disconnect();
     this.socket = null;
     this.state = WebSocketState.DISCONNECTED;
-    this.subscriptions.clear();
+  }
+
+  /**
+   * Ends active streams, whose listeners were attached to the closed socket.
+   *
+   * @remarks
+   * Consumers still receive buffered events, then iteration completes. The
+   * markets the streams subscribed are removed from the registry.
+   *
+   * @internal
+   */
+  private endStreams(): void {
+    // Disconnected, so claims are released from the registry without a server call
+    for (const claim of [...this.streamClaims]) {
+      void this.releaseStreamClaim(claim);
+    }
+    const streams = [...this.streams];
+    this.streams.clear();
+    for (const stream of streams) {
+      void stream.end();
+    }
   }
 
   /**
    * Subscribes to a channel.
    *
+   * @remarks
+   * Markets are merged into the channel's existing subscription: subscribing to
+   * `['a']` and then `['b']` leaves the client subscribed to both. Subscribing
+   * without markets covers the whole channel, and later market subscriptions
+   * do not narrow it. The merged set is what gets restored after a reconnect.
+   *
    * @param channel - Channel to subscribe to
    * @param options - Subscription options
    * @returns Promise that resolves immediately (kept async for API compatibility)
@@ -334,23 +596,42 @@ export class WebSocketClient {
       );
     }
 
-    const subscriptionKey = this.getSubscriptionKey(channel, options);
-    this.subscriptions.set(subscriptionKey, options);
+    const requested = normalizeMarkets(options);
+    const entry = this.subscriptions.get(channel) ?? {
+      channelWide: false,
+      marketSlugs: new Set<string>(),
+      marketAddresses: new Set<string>(),
+    };
+    if (requested.marketSlugs.length === 0 && requested.marketAddresses.length === 0) {
+      entry.channelWide = true;
+    }
+    requested.marketSlugs.forEach((slug) => entry.marketSlugs.add(slug));
+    requested.marketAddresses.forEach((address) => entry.marketAddresses.add(address));
+    if (options.filters) {
+      entry.filters = { ...entry.filters, ...options.filters };
+    }
+    this.subscriptions.set(channel, entry);
 
-    this.logger.info('Subscribing to channel', { channel, options });
+    // The server keeps one subscription per channel, so always send the full union
+    const payload = toSubscriptionPayload(entry);
+    this.logger.info('Subscribing to channel', { channel, options: payload });
 
-    // Pass channel and options as-is to the server - no transformation
     // Note: Server returns Promise<void>, so no acknowledgment callback is used
     // This is fire-and-forget to avoid timeout issues when server doesn't send ACK
-    this.socket!.emit(channel, options);
-    this.logger.info('Subscription request sent', { channel, options });
+    this.socket!.emit(channel, payload);
+    this.logger.info('Subscription request sent', { channel, options: payload });
   }
 
   /**
    * Unsubscribes from a channel.
    *
+   * @remarks
+   * With market slugs or addresses, only those markets are removed and the
+   * remaining ones (or the channel-wide subscription) stay subscribed. Without
+   * any, the whole channel is dropped.
+   *
    * @param channel - Channel to unsubscribe from
-   * @param options - Subscription options (must match subscribe call)
+   * @param options - Markets to remove (omit to unsubscribe from the whole channel)
    * @returns Promise that resolves when unsubscribed
    * @throws Error if not connected or unsubscribe fails
    *
@@ -367,14 +648,30 @@ export class WebSocketClient {
       throw new Error('WebSocket not connected');
     }
 
-    const subscriptionKey = this.getSubscriptionKey(channel, options);
-    this.subscriptions.delete(subscriptionKey);
+    await this.sendUnsubscribe(channel, options);
+  }
 
-    this.logger.info('Unsubscribing from channel', { channel, options });
+  /**
+   * Unsubscribes on the server, then removes the subscription from the registry.
+   *
+   * @remarks
+   * The registry is only updated once the server acknowledged the unsubscribe,
+   * so a failed call leaves it (and the next resubscribe) unchanged.
+   *
+   * @internal
+   */
+  private async sendUnsubscribe(
+    channel: SubscriptionChannel,
+    options: SubscriptionOptions,
+    channelWideOnly = false
+  ): Promise<void> {
+    const removed = this.toUnsubscribePayload(channel, options, channelWideOnly);
+
+    this.logger.info('Unsubscribing from channel', { channel, options: removed });
 
     try {
       // Emit unsubscribe event with acknowledgment (waits for server response)
-      const unsubscribeData = { channel, ...options };
+      const unsubscribeData = { channel, ...removed };
       const response = await this.socket!.timeout(5000).emitWithAck('unsubscribe', unsubscribeData);
 
       // Check for errors in response
@@ -384,13 +681,87 @@ export class WebSocketClient {
         throw new Error(`Unsubscribe failed: ${errorMsg}`);
       }
 
-      this.logger.info('Unsubscribed successfully', { channel, options });
+      this.logger.info('Unsubscribed successfully', { channel, options: removed });
+
+      // Re-send the remaining markets so the server subscription matches the registry
+      const remaining = this.removeSubscription(channel, options, channelWideOnly);
+      if (remaining) {
+        this.socket?.emit(channel, toSubscriptionPayload(remaining));
+      }
     } catch (error) {
       this.logger.error('Unsubscribe error', error as Error, { channel });
       throw error;
     }
   }
 
+  /**
+   * Streams one event as an async iterable.
+   *
+   * @remarks
+   * Iteration subscribes `options.channel` (inferred for market price, position
+   * and transaction events) with the given markets and yields only events for
+   * those markets. Leaving the loop (`break`, `return` or a thrown error)
+   * unsubscribes the markets this stream added, unless another active stream
+   * still uses them. `disconnect()` (or a reconnect with new credentials)
+   * ends the stream: buffered events are still yielded, then the loop exits.
+   *
+   * Events are buffered while the consumer is busy. When more than
+   * `bufferSize` events are waiting, `overflow: 'dropOldest'` discards the
+   * oldest ones and `overflow: 'error'` ends the stream with a
+   * `WebSocketStreamOverflowError`.
+   *
+   * @param event - Event to stream
+   * @param options - Markets, channel and buffering options
+   * @returns Async iterable of event payloads
+   * @throws Error from `next()` if not connected when iteration starts
+   *
+   * @example
+   * ```typescript
+   * for await (const update of wsClient.stream('orderbookUpdate', {
+   *   marketSlugs: ['btc-100k'],
+   * })) {
+   *   console.log(update.orderbook.bids[0]);
+   *   if (done) break; // unsubscribes btc-100k
+   * }
+   * ```
+   */
+  stream<K extends keyof WebSocketEvents>(
+    event: K,
+    options: WebSocketStreamOptions = {}
+  ): AsyncIterable<WebSocketEventPayload<K>> {
+    const { channel = EVENT_CHANNELS[event], bufferSize, overflow, ...subscription } = options;
+    const markets = normalizeMarkets(subscription);
+
+    return {
+      [Symbol.asyncIterator]: () => {
+        let claim: StreamClaim | undefined;
+        const stream: WebSocketStream<WebSocketEventPayload<K>> = new WebSocketStream(
+          {
+            event,
+            attach: (listener) => this.on(event, listener as WebSocketEvents[K]),
+            detach: (listener) => this.off(event, listener as WebSocketEvents[K]),
+            open: async () => {
+              this.streams.add(stream);
+              if (channel) {
+                claim = await this.openStreamClaim(channel, subscription);
+              }
+            },
+            close: async () => {
+              this.streams.delete(stream);
+              if (claim) {
+                await this.releaseStreamClaim(claim);
+              }
+            },
+            accept: (data) => matchesMarkets(data, markets),
+          },
+          { bufferSize, overflow },
+          this.logger
+        );
+        return stream;
+      },
+    };
+  }
+
   /**
    * Registers an event listener.
    *
@@ -407,6 +778,11 @@ export class WebSocketClient {
    * ```
    */
   on<K extends keyof WebSocketEvents>(event: K, handler: WebSocketEvents[K]): this {
+    if (LOCAL_EVENTS.has(event)) {
+      this.localEvents.on(event, handler);
+      return this;
+    }
+
     if (!this.socket) {
       // Store listener to be attached when socket is created
       this.pendingListeners.push({ event: event as string, handler });
@@ -426,6 +802,11 @@ export class WebSocketClient {
    * @returns This client for chaining
    */
   once<K extends keyof WebSocketEvents>(event: K, handler: WebSocketEvents[K]): this {
+    if (LOCAL_EVENTS.has(event)) {
+      this.localEvents.once(event, handler);
+      return this;
+    }
+
     if (!this.socket) {
       throw new Error('WebSocket not initialized. Call connect() first.');
     }
@@ -452,6 +833,15 @@ export class WebSocketClient {
    * ```
    */
   off<K extends keyof WebSocketEvents>(event: K, handler?: WebSocketEvents[K]): this {
+    if (LOCAL_EVENTS.has(event)) {
+      if (handler === undefined) {
+        this.localEvents.removeAllListeners(event);
+      } else {
+        this.localEvents.off(event, handler);
+      }
+      return this;
+    }
+
     if (!this.socket) {
       return this;
     }
@@ -499,16 +889,34 @@ export class WebSocketClient {
       this.state = WebSocketState.CONNECTED;
       this.reconnectAttempts = 0;
       this.logger.info('WebSocket connected');
+      this.liveness.start();
     });
 
     this.socket.on('disconnect', (reason) => {
       this.state = WebSocketState.DISCONNECTED;
       this.logger.info('WebSocket disconnected', { reason });
+      this.liveness.stop();
+    });
+
+    // Message activity for liveness tracking
+    this.socket.onAny((event: string, data: unknown) => {
+      this.liveness.record(EVENT_CHANNELS[event as keyof WebSocketEvents], data);
     });
 
     this.socket.on('error', (error) => {
       this.state = WebSocketState.ERROR;
       this.logger.error('WebSocket error', error);
+      if (isAuthFailure(error)) {
+        this.emitAuthFailure('server', error);
+      }
+    });
+
+    // Fires for the initial connection and for every reconnection attempt
+    this.socket.on('connect_error', (error) => {
+      if (isAuthFailure(error)) {
+        const phase = this.state === WebSocketState.CONNECTING ? 'connect' : 'reconnect';
+        this.emitAuthFailure(phase, error);
+      }
     });
 
     // Reconnection events
@@ -516,6 +924,8 @@ export class WebSocketClient {
       this.state = WebSocketState.RECONNECTING;
       this.reconnectAttempts = attempt;
       this.logger.info('Reconnecting...', { attempt });
+      // A reused HMAC timestamp goes stale during long outages; sign each attempt afresh
+      this.refreshExtraHeaders();
     });
 
     this.socket.io.on('reconnect', (attempt) => {
@@ -538,8 +948,8 @@ export class WebSocketClient {
    * Re-subscribes to all previous subscriptions after reconnection.
    * @internal
    */
-  private async resubscribeAll(): Promise<void> {
-    if (this.subscriptions.size === 0) {
+  private resubscribeAll(): void {
+    if (this.subscriptions.size === 0 || !this.socket) {
       return;
     }
 
@@ -547,29 +957,269 @@ export class WebSocketClient {
       count: this.subscriptions.size,
     });
 
-    for (const [key, options] of this.subscriptions.entries()) {
-      const channel = this.getChannelFromKey(key);
-      try {
-        await this.subscribe(channel, options);
-      } catch (error) {
-        this.logger.error('Failed to re-subscribe', error as Error, { channel, options });
+    for (const [channel, entry] of this.subscriptions.entries()) {
+      const payload = toSubscriptionPayload(entry);
+      this.socket.emit(channel, payload);
+      this.logger.info('Subscription request sent', { channel, options: payload });
+    }
+  }
+
+  /**
+   * Builds the handshake headers, signing HMAC auth with the current time.
+   * @internal
+   */
+  private buildExtraHeaders(): Record<string, string> | undefined {
+    const extraHeaders = buildWebSocketTrackingHeaders();
+
+    if (this.config.hmacCredentials) {
+      const timestamp = new Date().toISOString();
+      const signature = computeHMACSignature(
+        this.config.hmacCredentials.secret,
+        timestamp,
+        'GET',
+        '/socket.io/?EIO=4&transport=websocket',
+        ''
+      );
+
+      return {
+        ...extraHeaders,
+        'lmts-api-key': this.config.hmacCredentials.tokenId,
+        'lmts-timestamp': timestamp,
+        'lmts-signature': signature,
+      };
+    }
+
+    if (this.config.apiKey) {
+      // Required for authenticated subscriptions (positions, transactions)
+      return {
+        ...extraHeaders,
+        'X-API-Key': this.config.apiKey,
+      };
+    }
+
+    return Object.keys(extraHeaders).length > 0 ? extraHeaders : undefined;
+  }
+
+  /**
+   * Replaces the headers the Socket.IO manager uses for its next connection attempt.
+   * @internal
+   */
+  private refreshExtraHeaders(): void {
+    if (!this.socket) {
+      return;
+    }
+    const extraHeaders = this.buildExtraHeaders();
+    if (extraHeaders) {
+      this.socket.io.opts.extraHeaders = extraHeaders;
+    }
+  }
+
+  /**
+   * Credentials currently used for the handshake.
+   * @internal
+   */
+  private getAuthMode(): WebSocketAuthMode {
+    if (this.config.hmacCredentials) {
+      return 'hmac';
+    }
+    return this.config.apiKey ? 'apiKey' : 'none';
+  }
+
+  /**
+   * Builds the `authError` payload for a rejected handshake or server error.
+   * @internal
+   */
+  private toAuthFailure(
+    phase: WebSocketAuthFailure['phase'],
+    error: unknown
+  ): WebSocketAuthFailure {
+    const cause = error instanceof Error ? error : new Error(errorMessage(error));
+    return { phase, authMode: this.getAuthMode(), message: errorMessage(error), error: cause };
+  }
+
+  /**
+   * Logs and emits an `authError` event.
+   * @internal
+   */
+  private emitAuthFailure(phase: WebSocketAuthFailure['phase'], error: unknown): void {
+    const failure = this.toAuthFailure(phase, error);
+    this.logger.error('WebSocket authentication failed', failure.error, {
+      phase,
+      authMode: failure.authMode,
+    });
+    this.localEvents.emit('authError', failure);
+  }
+
+  /**
+   * Emits `stale` events and forces a reconnect when one is marked `reconnecting`.
+   * @internal
+   */
+  private handleStale(events: WebSocketStaleEvent[]): void {
+    for (const event of events) {
+      this.logger.warn('WebSocket feed is stale', { ...event });
+      this.localEvents.emit('stale', event);
+    }
+
+    if (this.socket && events.some((event) => event.reconnecting)) {
+      this.logger.warn('Reconnecting after stale feeds', { count: events.length });
+      const socket = this.socket;
+      this.liveness.stop();
+      // Reuse the socket so registered listeners survive; re-subscribe once connected
+      socket.once('connect', () => this.resubscribeAll());
+      this.refreshExtraHeaders();
+      socket.disconnect().connect();
+    }
+  }
+
+  /**
+   * Builds the server unsubscribe payload for {@link removeSubscription}.
+   * @internal
+   */
+  private toUnsubscribePayload(
+    channel: SubscriptionChannel,
+    options: SubscriptionOptions,
+    channelWideOnly: boolean
+  ): SubscriptionOptions {
+    const requested = normalizeMarkets(options);
+    const entry = this.subscriptions.get(channel);
+    const partial = requested.marketSlugs.length > 0 || requested.marketAddresses.length > 0;
+
+    // Without explicit markets, unsubscribe everything tracked on the channel
+    return toSubscriptionPayload(
+      partial || channelWideOnly || !entry
+        ? {
+            channelWide: false,
+            marketSlugs: new Set(requested.marketSlugs),
+            marketAddresses: new Set(requested.marketAddresses),
+            filters: options.filters,
+          }
+        : entry
+    );
+  }
+
+  /**
+   * Removes markets, the channel-wide subscription (`channelWideOnly`) or the
+   * whole channel from the subscription registry.
+   *
+   * @returns The entry that stays subscribed, if any
+   * @internal
+   */
+  private removeSubscription(
+    channel: SubscriptionChannel,
+    options: SubscriptionOptions,
+    channelWideOnly = false
+  ): SubscriptionEntry | undefined {
+    const requested = normalizeMarkets(options);
+    const entry = this.subscriptions.get(channel);
+    const partial = requested.marketSlugs.length > 0 || requested.marketAddresses.length > 0;
+
+    if (entry && (partial || channelWideOnly)) {
+      if (channelWideOnly) {
+        entry.channelWide = false;
+      }
+      requested.marketSlugs.forEach((slug) => entry.marketSlugs.delete(slug));
+      requested.marketAddresses.forEach((address) => entry.marketAddresses.delete(address));
+      if (entry.channelWide || entry.marketSlugs.size > 0 || entry.marketAddresses.size > 0) {
+        return entry;
       }
     }
+
+    this.subscriptions.delete(channel);
+    return undefined;
   }
 
   /**
-   * Creates a unique subscription key.
+   * Subscribes a stream's markets and records which of them it added.
    * @internal
    */
-  private getSubscriptionKey(channel: SubscriptionChannel, options: SubscriptionOptions): string {
-    return `${channel}:${options.marketSlug || 'global'}`;
+  private async openStreamClaim(
+    channel: SubscriptionChannel,
+    options: SubscriptionOptions
+  ): Promise<StreamClaim> {
+    const requested = normalizeMarkets(options);
+    const entry = this.subscriptions.get(channel);
+    const claim: StreamClaim = {
+      channel,
+      requested,
+      added: {
+        channel:
+          requested.marketSlugs.length === 0 &&
+          requested.marketAddresses.length === 0 &&
+          !entry?.channelWide,
+        marketSlugs: requested.marketSlugs.filter((slug) => !entry?.marketSlugs.has(slug)),
+        marketAddresses: requested.marketAddresses.filter(
+          (address) => !entry?.marketAddresses.has(address)
+        ),
+      },
+    };
+
+    await this.subscribe(channel, options);
+    this.streamClaims.add(claim);
+    return claim;
+  }
+
+  /**
+   * Unsubscribes what a finished stream added and no other active stream uses.
+   * @internal
+   */
+  private async releaseStreamClaim(claim: StreamClaim): Promise<void> {
+    if (!this.streamClaims.delete(claim)) {
+      return;
+    }
+
+    const others = [...this.streamClaims].filter((other) => other.channel === claim.channel);
+    const marketSlugs: string[] = [];
+    const marketAddresses: string[] = [];
+
+    // Hand markets still in use over to another stream, which releases them later
+    for (const slug of claim.added.marketSlugs) {
+      const heir = others.find((other) => other.requested.marketSlugs.includes(slug));
+      if (heir) {
+        heir.added.marketSlugs.push(slug);
+      } else {
+        marketSlugs.push(slug);
+      }
+    }
+    for (const address of claim.added.marketAddresses) {
+      const heir = others.find((other) => other.requested.marketAddresses.includes(address));
+      if (heir) {
+        heir.added.marketAddresses.push(address);
+      } else {
+        marketAddresses.push(address);
+      }
+    }
+    if (claim.added.channel) {
+      const heir = others.find(
+        (other) =>
+          other.requested.marketSlugs.length === 0 && other.requested.marketAddresses.length === 0
+      );
+      if (heir) {
+        heir.added.channel = true;
+      } else {
+        // Drop only the channel-wide subscription; markets subscribed elsewhere stay
+        await this.releaseSubscription(claim.channel, {}, true);
+      }
+    }
+
+    if (marketSlugs.length > 0 || marketAddresses.length > 0) {
+      await this.releaseSubscription(claim.channel, { marketSlugs, marketAddresses });
+    }
   }
 
   /**
-   * Extracts channel from subscription key.
+   * Removes a stream's subscription, telling the server when connected.
    * @internal
    */
-  private getChannelFromKey(key: string): SubscriptionChannel {
-    return key.split(':')[0] as SubscriptionChannel;
+  private async releaseSubscription(
+    channel: SubscriptionChannel,
+    options: SubscriptionOptions,
+    channelWideOnly = false
+  ): Promise<void> {
+    if (this.isConnected()) {
+      await this.sendUnsubscribe(channel, options, channelWideOnly);
+    } else {
+      // Nothing to tell the server; just keep the markets out of the next resubscribe
+      this.removeSubscription(channel, options, channelWideOnly);
+    }
   }
 }
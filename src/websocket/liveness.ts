@@ -0,0 +1,436 @@
+/**
+ * Message liveness and latency tracking for the WebSocket client.
+ * @module websocket/liveness
+ */
+
+import type { ExecutionClock, ExecutionTimer } from '../types/execution';
+import type {
+  ChannelSubscription,
+  SubscriptionChannel,
+  WebSocketLatencyStats,
+  WebSocketLiveness,
+  WebSocketLivenessConfig,
+  WebSocketStaleEvent,
+} from '../types/websocket';
+import { toFiniteNumber } from '../utils/number-flex';
+
+/**
+ * Default number of latency samples kept.
+ * @internal
+ */
+export const DEFAULT_LATENCY_SAMPLE_SIZE = 100;
+
+/**
+ * Channels checked for stale feeds by default.
+ * @internal
+ */
+export const DEFAULT_LIVENESS_CHANNELS: SubscriptionChannel[] = ['subscribe_market_prices'];
+
+/**
+ * Default event sent as an application-level ping.
+ * @internal
+ */
+export const DEFAULT_PING_EVENT = 'ping';
+
+/**
+ * Hooks connecting the monitor to the WebSocket client.
+ * @internal
+ */
+export interface LivenessSource {
+  /**
+   * Current subscriptions, whose feeds are checked
+   */
+  getSubscriptions(): ChannelSubscription[];
+
+  /**
+   * Sends `event` and resolves when the server acknowledges it, rejecting after `timeoutMs`
+   */
+  ping(event: string, timeoutMs: number): Promise<void>;
+
+  /**
+   * Called with the feeds that went stale during a check
+   */
+  onStale(events: WebSocketStaleEvent[]): void;
+}
+
+/**
+ * One watched feed (a market on a channel, a channel-wide subscription, or the connection).
+ */
+interface WatchedFeed {
+  /** When the feed started being watched */
+  since: number;
+  /** Last message time seen by the previous check; a newer one ends the quiet period */
+  lastMessageAt: number | null;
+  /** Whether `stale` was already reported for the current quiet period */
+  stale: boolean;
+}
+
+/**
+ * Latency statistics over a window of samples.
+ */
+function toLatencyStats(samples: number[], lastMs: number | null): WebSocketLatencyStats {
+  const count = samples.length;
+  if (count === 0) {
+    return {
+      samples: count,
+      lastMs: null,
+      minMs: null,
+      meanMs: null,
+      p50Ms: null,
+      p95Ms: null,
+      maxMs: null,
+    };
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(count - 1, Math.ceil(p * count) - 1)];
+  return {
+    samples: count,
+    lastMs,
+    minMs: sorted[0],
+    meanMs: sorted.reduce((sum, value) => sum + value, 0) / count,
+    p50Ms: percentile(0.5),
+    p95Ms: percentile(0.95),
+    maxMs: sorted[count - 1],
+  };
+}
+
+/**
+ * Converts a message timestamp (Date, milliseconds or date string) to milliseconds.
+ */
+function toMillis(timestamp: unknown): number | undefined {
+  if (timestamp instanceof Date) {
+    const ms = timestamp.getTime();
+    return Number.isFinite(ms) ? ms : undefined;
+  }
+  if (typeof timestamp !== 'number' && typeof timestamp !== 'string') {
+    return undefined;
+  }
+  const numeric = toFiniteNumber(timestamp);
+  if (numeric !== undefined) {
+    return numeric;
+  }
+  const parsed = Date.parse(String(timestamp));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Tracks message times per channel and market, message latency, ping round
+ * trips, and stale feeds.
+ *
+ * @remarks
+ * Checks run every `checkIntervalMs` while connected, each sending a ping
+ * (`pingEvent`) unless one is still unanswered. A feed is stale when neither a
+ * message nor the start of watching (subscription or reconnect) is more recent
+ * than `staleAfterMs`; it is reported once per quiet period. Only messages on
+ * the feed's own channel count, so a market's position updates do not keep its
+ * price feed alive. A market subscribed by slug that has not had a message
+ * carrying its slug is kept alive by address-keyed messages on the channel,
+ * since AMM markets only send `newPriceData` with their address.
+ *
+ * The connection itself is stale when neither a ping answer nor any message
+ * arrived for `staleAfterMs`. With pings, only a stale connection triggers
+ * `reconnectOnStale`: a quiet market on a live link is reported but not
+ * reconnected.
+ *
+ * @internal
+ */
+export class WebSocketLivenessMonitor {
+  private readonly config?: Required<Omit<WebSocketLivenessConfig, 'latencySampleSize'>>;
+  private readonly sampleSize: number;
+  private readonly channelTimes = new Map<SubscriptionChannel, number>();
+  private readonly marketTimes = new Map<string, number>();
+  /** Last message per `channel|market`, used for stale checks */
+  private readonly feedTimes = new Map<string, number>();
+  /** Last message per channel that carried a market address but no slug */
+  private readonly addressTimes = new Map<SubscriptionChannel, number>();
+  private readonly watched = new Map<string, WatchedFeed>();
+  private readonly latencies: number[] = [];
+  private readonly roundTrips: number[] = [];
+  private connection: WatchedFeed = { since: 0, lastMessageAt: null, stale: false };
+  private lastMessageAt: number | null = null;
+  private lastLatency: number | null = null;
+  private lastPongAt: number | null = null;
+  private lastRoundTrip: number | null = null;
+  private timer?: ExecutionTimer;
+  private running = false;
+  private pinging = false;
+  /** Incremented on start and stop, so answers to pings from an earlier connection are ignored */
+  private generation = 0;
+
+  constructor(
+    private readonly source: LivenessSource,
+    private readonly clock: ExecutionClock,
+    config?: WebSocketLivenessConfig
+  ) {
+    this.sampleSize = config?.latencySampleSize ?? DEFAULT_LATENCY_SAMPLE_SIZE;
+    if (!config) {
+      return;
+    }
+
+    if (!(config.staleAfterMs > 0)) {
+      throw new Error(`liveness.staleAfterMs must be positive, got ${config.staleAfterMs}`);
+    }
+    const checkIntervalMs = config.checkIntervalMs ?? config.staleAfterMs / 4;
+    if (!(checkIntervalMs > 0)) {
+      throw new Error(`liveness.checkIntervalMs must be positive, got ${checkIntervalMs}`);
+    }
+    this.config = {
+      staleAfterMs: config.staleAfterMs,
+      checkIntervalMs,
+      channels: config.channels ?? DEFAULT_LIVENESS_CHANNELS,
+      reconnectOnStale: config.reconnectOnStale ?? false,
+      pingEvent: config.pingEvent ?? DEFAULT_PING_EVENT,
+    };
+  }
+
+  /**
+   * Starts periodic checks, giving every feed a fresh grace period.
+   */
+  start(): void {
+    this.stop();
+    this.watched.clear();
+    this.connection = { since: this.clock.now(), lastMessageAt: null, stale: false };
+    this.running = true;
+    this.schedule();
+  }
+
+  /**
+   * Stops periodic checks.
+   */
+  stop(): void {
+    this.running = false;
+    this.pinging = false;
+    this.generation += 1;
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Records an incoming message.
+   *
+   * @param channel - Subscription channel the event belongs to, if known
+   * @param data - Event payload
+   */
+  record(channel: SubscriptionChannel | undefined, data: unknown): void {
+    const now = this.clock.now();
+    this.lastMessageAt = now;
+
+    const payload = data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+    const markets: string[] = [];
+    if (typeof payload.marketSlug === 'string') {
+      markets.push(payload.marketSlug);
+    }
+    if (typeof payload.marketAddress === 'string') {
+      markets.push(payload.marketAddress.toLowerCase());
+    }
+    markets.forEach((market) => this.marketTimes.set(market, now));
+
+    if (channel) {
+      this.channelTimes.set(channel, now);
+      for (const market of markets) {
+        this.feedTimes.set(`${channel}|${market}`, now);
+      }
+      if (typeof payload.marketAddress === 'string' && typeof payload.marketSlug !== 'string') {
+        this.addressTimes.set(channel, now);
+      }
+    }
+
+    const sentAt = toMillis(payload.timestamp);
+    if (sentAt !== undefined) {
+      this.lastLatency = now - sentAt;
+      this.latencies.push(this.lastLatency);
+      if (this.latencies.length > this.sampleSize) {
+        this.latencies.shift();
+      }
+    }
+  }
+
+  /**
+   * Checks every watched feed and reports the ones that went stale.
+   *
+   * @returns Feeds that became stale in this check
+   */
+  check(): WebSocketStaleEvent[] {
+    if (!this.config) {
+      return [];
+    }
+
+    const now = this.clock.now();
+    const current = new Set<string>();
+    const events: WebSocketStaleEvent[] = [];
+    const pings = this.config.pingEvent !== false;
+
+    if (pings) {
+      const latest = Math.max(this.lastPongAt ?? -Infinity, this.lastMessageAt ?? -Infinity);
+      const lastActivityAt = Number.isFinite(latest) ? latest : null;
+      const quietMs = this.quietFor(this.connection, lastActivityAt, now);
+      if (quietMs !== undefined) {
+        events.push({
+          lastMessageAt: lastActivityAt,
+          quietMs,
+          reconnecting: this.config.reconnectOnStale,
+        });
+      }
+    }
+
+    for (const subscription of this.source.getSubscriptions()) {
+      if (!this.config.channels.includes(subscription.channel)) {
+        continue;
+      }
+      const { channel } = subscription;
+      const addressTime = this.addressTimes.get(channel);
+      const feeds: Array<Pick<WebSocketStaleEvent, 'marketSlug' | 'marketAddress'>> = [
+        ...subscription.marketSlugs.map((marketSlug) => ({ marketSlug })),
+        ...subscription.marketAddresses.map((marketAddress) => ({ marketAddress })),
+      ];
+      if (subscription.channelWide) {
+        feeds.push({});
+      }
+
+      for (const feed of feeds) {
+        const market = feed.marketSlug ?? feed.marketAddress?.toLowerCase();
+        const key = `${channel}|${market ?? '*'}`;
+        current.add(key);
+
+        let watched = this.watched.get(key);
+        if (!watched) {
+          watched = { since: now, lastMessageAt: null, stale: false };
+          this.watched.set(key, watched);
+        }
+
+        let lastMessageAt: number | null;
+        if (market === undefined) {
+          lastMessageAt = this.channelTimes.get(channel) ?? null;
+        } else if (feed.marketSlug !== undefined) {
+          // Until a message carries the slug, the market may be an AMM keyed by address
+          lastMessageAt = this.feedTimes.get(key) ?? addressTime ?? null;
+        } else {
+          lastMessageAt = this.feedTimes.get(key) ?? null;
+        }
+
+        const quietMs = this.quietFor(watched, lastMessageAt, now);
+        if (quietMs !== undefined) {
+          events.push({
+            channel,
+            ...feed,
+            lastMessageAt,
+            quietMs,
+            reconnecting: this.config.reconnectOnStale && !pings,
+          });
+        }
+      }
+    }
+
+    for (const key of this.watched.keys()) {
+      if (!current.has(key)) {
+        this.watched.delete(key);
+      }
+    }
+
+    if (events.length > 0) {
+      this.source.onStale(events);
+    }
+    return events;
+  }
+
+  /**
+   * Snapshot of message times and latency.
+   */
+  getLiveness(): WebSocketLiveness {
+    return {
+      lastMessageAt: this.lastMessageAt,
+      channels: Object.fromEntries(this.channelTimes),
+      markets: Object.fromEntries(this.marketTimes),
+      latency: this.getLatencyStats(),
+      lastPongAt: this.lastPongAt,
+      roundTrip: this.getRoundTripStats(),
+    };
+  }
+
+  /**
+   * Latency statistics over the recent message window.
+   */
+  getLatencyStats(): WebSocketLatencyStats {
+    return toLatencyStats(this.latencies, this.lastLatency);
+  }
+
+  /**
+   * Round-trip statistics of recent pings.
+   */
+  getRoundTripStats(): WebSocketLatencyStats {
+    return toLatencyStats(this.roundTrips, this.lastRoundTrip);
+  }
+
+  /**
+   * Quiet time of a feed that just became stale, or undefined if it is live
+   * or was already reported for this quiet period.
+   */
+  private quietFor(
+    watched: WatchedFeed,
+    lastMessageAt: number | null,
+    now: number
+  ): number | undefined {
+    if (lastMessageAt !== watched.lastMessageAt) {
+      watched.lastMessageAt = lastMessageAt;
+      watched.stale = false;
+    }
+
+    const quietMs = now - Math.max(watched.since, lastMessageAt ?? -Infinity);
+    if (watched.stale || quietMs < this.config!.staleAfterMs) {
+      return undefined;
+    }
+    watched.stale = true;
+    return quietMs;
+  }
+
+  /**
+   * Sends a ping unless one is still unanswered, recording the round trip.
+   */
+  private ping(): void {
+    if (!this.config || this.config.pingEvent === false || this.pinging) {
+      return;
+    }
+
+    this.pinging = true;
+    const generation = this.generation;
+    const sentAt = this.clock.now();
+    this.source.ping(this.config.pingEvent, this.config.staleAfterMs).then(
+      () => {
+        if (generation !== this.generation) {
+          return;
+        }
+        this.pinging = false;
+        this.lastPongAt = this.clock.now();
+        this.lastRoundTrip = this.lastPongAt - sentAt;
+        this.roundTrips.push(this.lastRoundTrip);
+        if (this.roundTrips.length > this.sampleSize) {
+          this.roundTrips.shift();
+        }
+      },
+      () => {
+        // Unanswered: the connection check reports it once staleAfterMs passes
+        if (generation === this.generation) {
+          this.pinging = false;
+        }
+      }
+    );
+  }
+
+  private schedule(): void {
+    if (!this.config) {
+      return;
+    }
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined;
+      this.ping();
+      this.check();
+      // check() may have stopped or restarted the monitor (forced reconnect)
+      if (this.running && this.timer === undefined) {
+        this.schedule();
+      }
+    }, this.config.checkIntervalMs);
+  }
+}
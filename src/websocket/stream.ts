@@ -0,0 +1,230 @@
+/**
+ * Async iteration over WebSocket events.
+ * @module websocket/stream
+ */
+
+import type { WebSocketStreamOverflow } from '../types/websocket';
+import type { ILogger } from '../types/logger';
+import { NoOpLogger } from '../types/logger';
+
+/**
+ * Default number of events buffered per stream.
+ * @internal
+ */
+export const DEFAULT_STREAM_BUFFER_SIZE = 1000;
+
+/**
+ * Error ending a stream whose consumer fell more than `bufferSize` events behind.
+ * @public
+ */
+export class WebSocketStreamOverflowError extends Error {
+  /**
+   * Event name of the stream
+   */
+  public readonly event: string;
+
+  /**
+   * Buffer size that was exceeded
+   */
+  public readonly bufferSize: number;
+
+  constructor(event: string, bufferSize: number) {
+    super(`WebSocket stream '${event}' buffer overflowed (${bufferSize} events)`);
+    this.name = 'WebSocketStreamOverflowError';
+    this.event = event;
+    this.bufferSize = bufferSize;
+  }
+}
+
+/**
+ * Hooks connecting a stream to the WebSocket client.
+ * @internal
+ */
+export interface WebSocketStreamSource<T> {
+  /**
+   * Event name, used in errors and logs
+   */
+  event: string;
+
+  /**
+   * Registers the event listener
+   */
+  attach(listener: (data: T) => void): void;
+
+  /**
+   * Removes the event listener
+   */
+  detach(listener: (data: T) => void): void;
+
+  /**
+   * Subscribes the server-side channel, called when iteration starts
+   */
+  open(): Promise<void>;
+
+  /**
+   * Releases the server-side subscription, called once when the stream ends
+   */
+  close(): Promise<void>;
+
+  /**
+   * Whether an event belongs to this stream
+   */
+  accept(data: T): boolean;
+}
+
+/**
+ * Buffered async iterator over one WebSocket event.
+ *
+ * @remarks
+ * Subscribes on the first `next()` and unsubscribes on `return()` (which
+ * `for await` calls on `break`), on overflow with the `error` policy, or when
+ * subscribing fails. The client calls `end()` when it disconnects.
+ *
+ * @internal
+ */
+export class WebSocketStream<T> implements AsyncIterableIterator<T> {
+  private readonly buffer: T[] = [];
+  private readonly bufferSize: number;
+  private readonly overflow: WebSocketStreamOverflow;
+  private readonly logger: ILogger;
+  private opened?: Promise<void>;
+  private opening?: Promise<void>;
+  private waiter?: { resolve: (result: IteratorResult<T>) => void; reject: (error: Error) => void };
+  private failure?: Error;
+  private done = false;
+  private dropped = 0;
+
+  constructor(
+    private readonly source: WebSocketStreamSource<T>,
+    options: { bufferSize?: number; overflow?: WebSocketStreamOverflow } = {},
+    logger?: ILogger
+  ) {
+    this.bufferSize = options.bufferSize ?? DEFAULT_STREAM_BUFFER_SIZE;
+    this.overflow = options.overflow ?? 'dropOldest';
+    this.logger = logger || new NoOpLogger();
+
+    if (!Number.isInteger(this.bufferSize) || this.bufferSize <= 0) {
+      throw new Error(`bufferSize must be a positive integer, got ${this.bufferSize}`);
+    }
+  }
+
+  /**
+   * Number of events discarded by the `dropOldest` policy.
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  async next(): Promise<IteratorResult<T>> {
+    if (!this.opening && !this.done) {
+      this.source.attach(this.handleEvent);
+      this.opened = this.source.open();
+      this.opening = this.opened.catch(async (error: Error) => {
+        await this.finish();
+        throw error;
+      });
+    }
+    await this.opening;
+
+    if (this.buffer.length > 0) {
+      return { value: this.buffer.shift()!, done: false };
+    }
+    if (this.failure) {
+      const failure = this.failure;
+      this.failure = undefined;
+      throw failure;
+    }
+    if (this.done) {
+      return { value: undefined, done: true };
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async return(): Promise<IteratorResult<T>> {
+    this.buffer.length = 0;
+    await this.finish();
+    return { value: undefined, done: true };
+  }
+
+  /**
+   * Ends the stream from the source side: buffered events are still yielded,
+   * then iteration completes.
+   */
+  async end(): Promise<void> {
+    await this.finish();
+  }
+
+  private readonly handleEvent = (data: T): void => {
+    if (this.done || !this.source.accept(data)) {
+      return;
+    }
+
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve({ value: data, done: false });
+      return;
+    }
+
+    if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(data);
+      return;
+    }
+
+    if (this.overflow === 'dropOldest') {
+      this.buffer.shift();
+      this.buffer.push(data);
+      this.dropped += 1;
+      if (this.dropped === 1 || this.dropped % this.bufferSize === 0) {
+        this.logger.warn('WebSocket stream dropping events', {
+          event: this.source.event,
+          dropped: this.dropped,
+        });
+      }
+      return;
+    }
+
+    this.buffer.length = 0;
+    this.failure = new WebSocketStreamOverflowError(this.source.event, this.bufferSize);
+    this.finish().catch(() => {});
+  };
+
+  /**
+   * Detaches the listener, releases the subscription and settles a pending `next()`.
+   */
+  private async finish(): Promise<void> {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+    this.source.detach(this.handleEvent);
+
+    if (this.waiter) {
+      const { resolve, reject } = this.waiter;
+      this.waiter = undefined;
+      if (this.failure) {
+        reject(this.failure);
+        this.failure = undefined;
+      } else {
+        resolve({ value: undefined, done: true });
+      }
+    }
+
+    try {
+      // Let a subscription still in flight complete so it can be released
+      await this.opened?.catch(() => undefined);
+      await this.source.close();
+    } catch (error) {
+      this.logger.error('Failed to release WebSocket stream subscription', error as Error, {
+        event: this.source.event,
+      });
+    }
+  }
+}
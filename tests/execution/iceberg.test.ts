@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { IcebergExecution } from '../../src/execution/iceberg';
+import { OrderType, Side } from '../../src/types/orders';
+import { ManualClock } from './manual-clock';
+
+/**
+ * Order client stub whose clips fill according to `fills` (order ID -> filled micros).
+ */
+function createOrderClient() {
+  let id = 0;
+  const sizes = new Map<string, number>();
+  const fills = new Map<string, number>();
+  const cancelled = new Set<string>();
+
+  const orderClient = {
+    createOrder: vi.fn().mockImplementation(async (params: any) => {
+      const orderId = `clip-${++id}`;
+      sizes.set(orderId, Math.round(params.size * 1e6));
+      return { order: { id: orderId } };
+    }),
+    getOrder: vi.fn().mockImplementation(async (orderId: string) => {
+      const size = sizes.get(orderId)!;
+      const filledSize = fills.get(orderId) ?? 0;
+      const status = filledSize >= size ? 'FILLED' : cancelled.has(orderId) ? 'CANCELLED' : 'OPEN';
+      return { id: orderId, status, size, filledSize, remainingSize: size - filledSize };
+    }),
+    cancel: vi.fn().mockImplementation(async (orderId: string) => {
+      cancelled.add(orderId);
+      return { message: 'Order canceled successfully' };
+    }),
+  };
+
+  return { orderClient, fills };
+}
+
+const params = {
+  marketSlug: 'market',
+  tokenId: '123',
+  side: Side.SELL,
+  price: 0.62,
+  size: 25,
+  visibleSize: 10,
+  pollIntervalMs: 1_000,
+};
+
+describe('IcebergExecution', () => {
+  it('refills the visible clip as it fills until the total is done', async () => {
+    const clock = new ManualClock();
+    const { orderClient, fills } = createOrderClient();
+    const iceberg = new IcebergExecution(orderClient as any, params, { clock });
+    const filled: number[] = [];
+    iceberg.on('progress', (progress) => filled.push(progress.filledSize!));
+
+    const done = iceberg.start();
+    await clock.advance(0);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+
+    fills.set('clip-1', 4_000_000);
+    await clock.advance(1_000);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+
+    fills.set('clip-1', 10_000_000);
+    await clock.advance(1_000);
+    fills.set('clip-2', 10_000_000);
+    await clock.advance(1_000);
+    fills.set('clip-3', 5_000_000);
+    await clock.advance(1_000);
+
+    const result = await done;
+    const sizes = orderClient.createOrder.mock.calls.map((call: any[]) => call[0].size);
+    expect(sizes).toEqual([10, 10, 5]);
+    expect(orderClient.createOrder.mock.calls[0][0].orderType).toBe(OrderType.GTC);
+    expect(result).toMatchObject({ status: 'completed', filledSize: 25, submittedSize: 25 });
+    expect(filled).toEqual([0, 4, 10, 10, 20, 20, 25]);
+    expect(orderClient.cancel).not.toHaveBeenCalled();
+  });
+
+  it('withdraws the clip on pause and places the remainder on resume', async () => {
+    const clock = new ManualClock();
+    const { orderClient, fills } = createOrderClient();
+    const iceberg = new IcebergExecution(orderClient as any, params, { clock });
+
+    const done = iceberg.start();
+    await clock.advance(0);
+    fills.set('clip-1', 3_000_000);
+
+    iceberg.pause();
+    await clock.advance(0);
+    expect(orderClient.cancel).toHaveBeenCalledWith('clip-1');
+    expect(iceberg.getProgress().filledSize).toBe(3);
+
+    await clock.advance(10_000);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+
+    iceberg.resume();
+    await clock.advance(0);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(2);
+    expect(orderClient.createOrder.mock.calls[1][0].size).toBe(10);
+
+    iceberg.cancel();
+    const result = await done;
+
+    expect(orderClient.cancel).toHaveBeenCalledWith('clip-2');
+    expect(result).toMatchObject({ status: 'cancelled', filledSize: 3, ordersPlaced: 2 });
+  });
+
+  it('cancels the resting clip when polling fails', async () => {
+    const clock = new ManualClock();
+    const { orderClient } = createOrderClient();
+    orderClient.getOrder.mockRejectedValue(new Error('Request failed'));
+    const iceberg = new IcebergExecution(orderClient as any, params, { clock });
+
+    const done = iceberg.start();
+    await clock.advance(1_000);
+    const result = await done;
+
+    expect(result.status).toBe('failed');
+    expect(orderClient.cancel).toHaveBeenCalledWith('clip-1');
+  });
+});
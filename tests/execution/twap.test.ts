@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TwapExecution } from '../../src/execution/twap';
+import { ManualClock } from './manual-clock';
+import { OrderValidationError } from '../../src/orders/validator';
+import { OrderType, Side } from '../../src/types/orders';
+
+function createOrderClient() {
+  let id = 0;
+  return {
+    createOrder: vi.fn().mockImplementation(async (params: any) => ({
+      order: { id: `child-${++id}`, size: params.size },
+    })),
+  };
+}
+
+const params = {
+  marketSlug: 'market',
+  tokenId: '123',
+  side: Side.BUY,
+  price: 0.55,
+  size: 10,
+  slices: 3,
+  durationMs: 60_000,
+};
+
+describe('TwapExecution', () => {
+  it('places evenly spaced slices that add up to the total size', async () => {
+    const clock = new ManualClock();
+    const orderClient = createOrderClient();
+    const twap = new TwapExecution(orderClient as any, params, { clock });
+    const progress = vi.fn();
+    twap.on('progress', progress);
+
+    const done = twap.start();
+    await clock.advance(0);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+
+    await clock.advance(29_999);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+    await clock.advance(1);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(2);
+    await clock.advance(30_000);
+
+    const result = await done;
+    const sizes = orderClient.createOrder.mock.calls.map((call: any[]) => call[0].size);
+    expect(sizes).toEqual([3.334, 3.333, 3.333]);
+    expect(orderClient.createOrder.mock.calls[0][0]).toMatchObject({
+      marketSlug: 'market',
+      tokenId: '123',
+      price: 0.55,
+      orderType: OrderType.FAK,
+    });
+    expect(result).toMatchObject({
+      strategy: 'twap',
+      status: 'completed',
+      totalSize: 10,
+      submittedSize: 10,
+      ordersPlaced: 3,
+    });
+    expect(result.orders.map((o) => o.order.id)).toEqual(['child-1', 'child-2', 'child-3']);
+    expect(progress).toHaveBeenCalledTimes(3);
+  });
+
+  it('holds slices while paused and stops on cancel', async () => {
+    const clock = new ManualClock();
+    const orderClient = createOrderClient();
+    const twap = new TwapExecution(orderClient as any, { ...params, slices: 4 }, { clock });
+    const statuses: string[] = [];
+    twap.on('status', (status) => statuses.push(status));
+
+    const done = twap.start();
+    await clock.advance(0);
+    twap.pause();
+    await clock.advance(60_000);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+
+    twap.resume();
+    await clock.advance(0);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(2);
+
+    // Spacing continues from the slice placed on resume
+    await clock.advance(19_999);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(2);
+    twap.cancel();
+
+    const result = await done;
+    expect(result.status).toBe('cancelled');
+    expect(result.ordersPlaced).toBe(2);
+    expect(statuses).toEqual(['running', 'paused', 'running', 'cancelled']);
+  });
+
+  it('fails and reports the error when a slice is rejected', async () => {
+    const clock = new ManualClock();
+    const orderClient = createOrderClient();
+    orderClient.createOrder
+      .mockResolvedValueOnce({ order: { id: 'child-1' } })
+      .mockRejectedValueOnce(new Error('Insufficient balance'));
+    const twap = new TwapExecution(orderClient as any, params, { clock });
+    const onError = vi.fn();
+    twap.on('error', onError);
+
+    const done = twap.start();
+    await clock.advance(30_000);
+    const result = await done;
+
+    expect(result.status).toBe('failed');
+    expect(result.error?.message).toBe('Insufficient balance');
+    expect(result.submittedSize).toBeCloseTo(3.334);
+    expect(onError).toHaveBeenCalledWith(result.error);
+  });
+
+  it('validates slicing parameters', () => {
+    const orderClient = createOrderClient() as any;
+
+    expect(() => new TwapExecution(orderClient, { ...params, slices: 0 })).toThrow(
+      OrderValidationError
+    );
+    expect(() => new TwapExecution(orderClient, { ...params, size: 0.002 })).toThrow(
+      'too small for 3 slices'
+    );
+    expect(() => new TwapExecution(orderClient, { ...params, size: 1.0005 })).toThrow(
+      'multiple of 0.001'
+    );
+  });
+});
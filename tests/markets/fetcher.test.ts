@@ -160,4 +160,49 @@ describe('MarketFetcher', () => {
     });
   });
 
+  describe('order constraints', () => {
+    it('caches tick size, minimum size and max spread from market settings', async () => {
+      vi.spyOn(httpClient, 'get').mockResolvedValue({
+        slug: 'btc-100k',
+        tokens: { yes: '1', no: '2' },
+        settings: { minSize: '5000000', maxSpread: 0.05, tickSize: '0.01' },
+      });
+
+      expect(marketFetcher.getOrderConstraints('btc-100k')).toBeUndefined();
+      await marketFetcher.getMarket('btc-100k');
+
+      expect(marketFetcher.getOrderConstraints('btc-100k')).toEqual({
+        tickSize: 0.01,
+        minSize: 5,
+        maxSpread: 0.05,
+      });
+      expect(marketFetcher.getTokens('btc-100k')).toEqual({ yes: '1', no: '2' });
+    });
+
+    it('falls back to orderbook constraints without overriding market settings', async () => {
+      const getSpy = vi.spyOn(httpClient, 'get').mockResolvedValue({
+        bids: [],
+        asks: [],
+        tokenId: '1',
+        minSize: '2000000',
+        maxSpread: '0.1',
+      });
+
+      await marketFetcher.getOrderBook('btc-100k');
+      expect(marketFetcher.getOrderConstraints('btc-100k')).toEqual({
+        tickSize: 0.001,
+        minSize: 2,
+        maxSpread: 0.1,
+      });
+
+      getSpy.mockResolvedValueOnce({
+        slug: 'btc-100k',
+        settings: { minSize: '1000000', maxSpread: 0.05 },
+      });
+      await marketFetcher.getMarket('btc-100k');
+      await marketFetcher.getOrderBook('btc-100k');
+
+      expect(marketFetcher.getOrderConstraints('btc-100k')?.minSize).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,181 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OrderBookMirror } from '../../src/markets/orderbook-mirror';
+import { ManualClock, flush } from '../execution/manual-clock';
+
+/**
+ * WebSocket client stub that lets tests emit events to registered handlers.
+ */
+function createWsClient(connected = true) {
+  const handlers = new Map<string, Set<(...args: any[]) => void>>();
+  return {
+    on: vi.fn((event: string, handler: (...args: any[]) => void) => {
+      if (!handlers.has(event)) handlers.set(event, new Set());
+      handlers.get(event)!.add(handler);
+    }),
+    off: vi.fn((event: string, handler: (...args: any[]) => void) => {
+      handlers.get(event)?.delete(handler);
+    }),
+    emit(event: string, ...args: any[]) {
+      handlers.get(event)?.forEach((handler) => handler(...args));
+    },
+    isConnected: vi.fn(() => connected),
+  };
+}
+
+function levels(entries: Array<[number, number]>) {
+  return entries.map(([price, size]) => ({ price, size, side: 'BUY' }));
+}
+
+function restBook(bids: Array<[number, number]>, asks: Array<[number, number]>) {
+  return {
+    tokenId: 'yes',
+    bids: levels(bids),
+    asks: levels(asks),
+    adjustedMidpoint: 0.5,
+    maxSpread: '0.05',
+    minSize: '1000000',
+    lastTradePrice: 0.5,
+  };
+}
+
+function update(
+  bids: Array<[number, number]>,
+  asks: Array<[number, number]>,
+  timestamp: number,
+  marketSlug = 'market'
+) {
+  return {
+    marketSlug,
+    orderbook: { ...restBook(bids, asks), maxSpread: 0.05, minSize: 1 },
+    timestamp,
+  };
+}
+
+function setup() {
+  const clock = new ManualClock();
+  const ws = createWsClient();
+  const marketFetcher = {
+    getOrderBook: vi.fn().mockResolvedValue(
+      restBook(
+        [
+          [0.4, 10],
+          [0.45, 5],
+        ],
+        [[0.5, 8]]
+      )
+    ),
+  };
+  const mirror = new OrderBookMirror(ws as any, marketFetcher as any, {
+    clock,
+    staleAfterMs: 10_000,
+  });
+  mirror.start();
+  return { clock, ws, marketFetcher, mirror };
+}
+
+describe('OrderBookMirror', () => {
+  it('seeds from REST and applies WebSocket updates in order', async () => {
+    const { ws, mirror } = setup();
+    const changes: any[] = [];
+    mirror.on('change', (book) => changes.push(book));
+
+    const seeded = await mirror.track('market');
+    expect(seeded).toMatchObject({ source: 'rest', stale: false });
+    expect(mirror.getBestBid('market')).toMatchObject({ price: 0.45, size: 5 });
+    expect(mirror.getBestAsk('market')).toMatchObject({ price: 0.5, size: 8 });
+    expect(mirror.getMidpoint('market')).toBeCloseTo(0.475);
+
+    ws.emit(
+      'orderbookUpdate',
+      update(
+        [[0.46, 3]],
+        [
+          [0.5, 8],
+          [0.52, 4],
+          [0.5, 2],
+        ],
+        2_000
+      )
+    );
+    ws.emit('orderbookUpdate', update([[0.3, 1]], [], 1_000));
+    ws.emit('orderbookUpdate', update([[0.9, 1]], [], 2_000, 'other'));
+    ws.emit(
+      'orderbookUpdate',
+      update(
+        [[0.46, 3]],
+        [
+          [0.5, 8],
+          [0.52, 4],
+          [0.5, 2],
+        ],
+        3_000
+      )
+    );
+
+    expect(changes).toHaveLength(2);
+    expect(mirror.getBook('market')).toMatchObject({ source: 'websocket', updatedAt: 3_000 });
+    expect(mirror.getBestBid('market')?.price).toBe(0.46);
+    expect(mirror.getDepthAt('market', 'ask', 0.5)).toBe(10);
+    expect(mirror.getDepthTo('market', 'ask', 0.52)).toBe(14);
+    expect(mirror.getSpread('market')).toBeCloseTo(0.04);
+    expect(mirror.getBook('other')).toBeUndefined();
+  });
+
+  it('marks quiet books stale and resyncs them over REST', async () => {
+    const { clock, marketFetcher, mirror } = setup();
+    const stale = vi.fn();
+    const resync = vi.fn();
+    mirror.on('stale', stale);
+    mirror.on('resync', resync);
+    await mirror.track('market');
+
+    marketFetcher.getOrderBook.mockResolvedValueOnce(restBook([[0.41, 1]], []));
+    await clock.advance(10_000);
+
+    expect(stale).toHaveBeenCalledWith(expect.objectContaining({ stale: true }), 10_000);
+    expect(resync).toHaveBeenLastCalledWith(expect.objectContaining({ stale: false }), 'stale');
+    expect(mirror.getBestBid('market')?.price).toBe(0.41);
+    expect(marketFetcher.getOrderBook).toHaveBeenCalledTimes(2);
+  });
+
+  it('resyncs after a reconnect and keeps newer WebSocket state', async () => {
+    const { ws, marketFetcher, mirror } = setup();
+    const errors = vi.fn();
+    mirror.on('error', errors);
+    await mirror.track('market');
+
+    ws.emit('disconnect', 'transport close');
+    let resolveBook!: (book: any) => void;
+    marketFetcher.getOrderBook.mockReturnValueOnce(
+      new Promise((resolve) => (resolveBook = resolve))
+    );
+    ws.emit('connect');
+    expect(marketFetcher.getOrderBook).toHaveBeenCalledTimes(2);
+
+    // An update received during the resync wins over the older REST snapshot
+    ws.emit('orderbookUpdate', update([[0.47, 2]], [], 5_000));
+    resolveBook(restBook([[0.42, 1]], []));
+    await flush();
+    expect(mirror.getBestBid('market')?.price).toBe(0.47);
+
+    marketFetcher.getOrderBook.mockRejectedValueOnce(new Error('Service unavailable'));
+    await expect(mirror.resync('market')).rejects.toThrow('Service unavailable');
+    expect(errors).toHaveBeenCalledWith(expect.any(Error), 'market');
+    await expect(mirror.resync('unknown')).rejects.toThrow('not tracked');
+  });
+
+  it('stops applying updates after untrack and stop', async () => {
+    const { ws, mirror } = setup();
+    await mirror.track('market');
+    await mirror.track('second');
+
+    expect(mirror.untrack('market')).toBe(true);
+    ws.emit('orderbookUpdate', update([[0.46, 3]], [], 2_000));
+    expect(mirror.getBook('market')).toBeUndefined();
+
+    mirror.stop();
+    ws.emit('orderbookUpdate', update([[0.46, 3]], [], 2_000, 'second'));
+    expect(mirror.getBestBid('second')?.price).toBe(0.45);
+    expect(mirror.getMarkets()).toEqual(['second']);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { OrderBuilder } from '../../src/orders/builder';
+import { OrderSigner } from '../../src/orders/signer';
+import { OrderValidationError, validateSignedOrder } from '../../src/orders/validator';
+import { Side, SignatureType } from '../../src/types/orders';
+
+const owner = new ethers.Wallet(
+  '0x59c6995e998f97a5a0044966f0945382d7f33b94d8538d9f1fd7055c77a46f6c'
+);
+const SAFE_ADDRESS = '0x00000000000000000000000000000000000000aa';
+
+describe('OrderBuilder signature types', () => {
+  it('builds EOA orders with maker and signer set to the wallet by default', () => {
+    const order = new OrderBuilder(owner.address, 300).buildOrder({
+      tokenId: '123',
+      side: Side.BUY,
+      price: 0.55,
+      size: 10,
+    });
+
+    expect(order.maker).toBe(owner.address);
+    expect(order.signer).toBe(owner.address);
+    expect(order.signatureType).toBe(SignatureType.EOA);
+  });
+
+  it('builds Gnosis Safe orders with the Safe as maker and the owner as signer', async () => {
+    const builder = new OrderBuilder(SAFE_ADDRESS, 300, 0.001, {
+      signerAddress: owner.address,
+      signatureType: SignatureType.POLY_GNOSIS_SAFE,
+    });
+
+    const order = builder.buildOrder({ tokenId: '123', side: Side.SELL, price: 0.4, size: 5 });
+
+    expect(order.maker).toBe(SAFE_ADDRESS);
+    expect(order.signer).toBe(owner.address);
+    expect(order.signatureType).toBe(SignatureType.POLY_GNOSIS_SAFE);
+
+    const signature = await new OrderSigner(owner).signOrder(order, {
+      chainId: 8453,
+      contractAddress: '0xa4409D988CA2218d956BeEFD3874100F444f0DC3',
+    });
+    expect(() => validateSignedOrder({ ...order, signature })).not.toThrow();
+  });
+
+  it('rejects maker/signer combinations that cannot settle', () => {
+    expect(
+      () =>
+        new OrderBuilder(SAFE_ADDRESS, 300, 0.001, {
+          signerAddress: owner.address,
+        })
+    ).toThrow(OrderValidationError);
+
+    expect(
+      () =>
+        new OrderBuilder(owner.address, 300, 0.001, {
+          signatureType: SignatureType.POLY_PROXY,
+        })
+    ).toThrow('requires a funder (maker) address');
+
+    expect(
+      () =>
+        new OrderBuilder(SAFE_ADDRESS, 300, 0.001, {
+          signerAddress: owner.address,
+          signatureType: 7 as SignatureType,
+        })
+    ).toThrow('Unsupported signatureType');
+  });
+});
+
+describe('OrderBuilder market constraints', () => {
+  const builder = new OrderBuilder(owner.address, 300);
+
+  it('validates prices against the market tick and suggests a side-safe price', () => {
+    const args = { tokenId: '123', price: 0.555, size: 10 };
+
+    expect(() => builder.buildOrder({ ...args, side: Side.BUY })).not.toThrow();
+
+    try {
+      builder.buildOrder({ ...args, side: Side.BUY }, { tickSize: 0.01 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(OrderValidationError);
+      expect((error as OrderValidationError).suggestedPrice).toBe(0.55);
+    }
+
+    expect(() => builder.buildOrder({ ...args, side: Side.SELL }, { tickSize: 0.01 })).toThrow(
+      expect.objectContaining({ suggestedPrice: 0.56 })
+    );
+  });
+
+  it('rejects sizes below the market minimum with a corrected size', () => {
+    expect(() =>
+      builder.buildOrder(
+        { tokenId: '123', price: 0.5, size: 2, side: Side.BUY },
+        { tickSize: 0.001, minSize: 4.9995 }
+      )
+    ).toThrow(expect.objectContaining({ suggestedSize: 5 }));
+
+    expect(() =>
+      builder.buildOrder({ tokenId: '123', makerAmount: 1, side: Side.SELL }, { minSize: 5 })
+    ).toThrow('Minimum order size for this market is 5 shares');
+
+    expect(() =>
+      builder.buildOrder({ tokenId: '123', makerAmount: 1, side: Side.BUY }, { minSize: 5 })
+    ).not.toThrow();
+  });
+
+  it('suggests a tick-aligned size for misaligned sizes', () => {
+    expect(() =>
+      builder.buildOrder({ tokenId: '123', price: 0.5, size: 22.1234, side: Side.BUY })
+    ).toThrow(expect.objectContaining({ suggestedSize: 22.123 }));
+  });
+});
@@ -1,6 +1,72 @@
 import { describe, expect, it, vi } from 'vitest';
-import { OrderClient } from '../../src/orders/client';
-import { OrderType, Side } from '../../src/types/orders';
+import { DuplicateOrderError, OrderClient, OrderReplaceError } from '../../src/orders/client';
+import { APIError } from '../../src/api/errors';
+import { OrderType, Side, SignatureType } from '../../src/types/orders';
+import { OrderValidationError } from '../../src/orders/validator';
+import { OrderBuilder } from '../../src/orders/builder';
+import { RiskLimitError, RiskManager } from '../../src/orders/risk-manager';
+import { ManualClock } from '../execution/manual-clock';
+
+const WALLET_ADDRESS = '0x0000000000000000000000000000000000000001';
+const ORDER_CONSTRAINTS = { tickSize: 0.001, minSize: 0, maxSpread: null };
+
+/**
+ * Creates an OrderClient with user data, builder, signer and venue stubbed out.
+ */
+function createTradingClient(httpClient: any): OrderClient {
+  const client = new OrderClient({
+    httpClient,
+    wallet: { address: WALLET_ADDRESS } as any,
+  });
+
+  let salt = 0;
+  (client as any).cachedUserData = { userId: 42, feeRateBps: 300 };
+  (client as any).orderBuilder = {
+    buildOrder: vi.fn().mockImplementation((args: any) => ({
+      salt: ++salt,
+      maker: WALLET_ADDRESS,
+      signer: WALLET_ADDRESS,
+      taker: '0x0000000000000000000000000000000000000000',
+      tokenId: args.tokenId,
+      makerAmount: 5500000,
+      takerAmount: 10000000,
+      expiration: '0',
+      nonce: 0,
+      feeRateBps: 300,
+      side: args.side,
+      signatureType: 0,
+      price: args.price,
+    })),
+  };
+  (client as any).orderSigner = {
+    signOrder: vi.fn().mockResolvedValue(`0x${'a'.repeat(130)}`),
+  };
+  (client as any).marketFetcher = {
+    getOrderConstraints: vi.fn().mockReturnValue(ORDER_CONSTRAINTS),
+    getTokens: vi.fn().mockReturnValue({ yes: '123', no: '456' }),
+    getVenue: vi.fn().mockReturnValue({
+      exchange: '0x0000000000000000000000000000000000000002',
+      adapter: null,
+    }),
+  };
+
+  return client;
+}
+
+/**
+ * Echoes a POST /orders payload back as an API order response.
+ */
+function echoOrder(payload: any, id: string = `order-${payload.order.salt}`): any {
+  return {
+    order: {
+      ...payload.order,
+      id,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      orderType: payload.orderType,
+      marketId: 42,
+    },
+  };
+}
 
 describe('OrderClient', () => {
   it('normalizes numeric-string createOrder fields for makerAmount, takerAmount, price, and safe salt', () => {
@@ -187,6 +253,7 @@ describe('OrderClient', () => {
       signOrder: vi.fn().mockResolvedValue(signature),
     };
     (client as any).marketFetcher = {
+      getOrderConstraints: vi.fn().mockReturnValue(ORDER_CONSTRAINTS),
       getVenue: vi.fn().mockReturnValue({
         exchange: '0x0000000000000000000000000000000000000002',
         adapter: null,
@@ -207,4 +274,818 @@ describe('OrderClient', () => {
     expect(payload.orderType).toBe(OrderType.FAK);
     expect(payload.postOnly).toBeUndefined();
   });
+
+  it('returns typed per-order results for createOrders with partial failures', async () => {
+    const walletAddress = '0x0000000000000000000000000000000000000001';
+    const signature = `0x${'a'.repeat(130)}`;
+    const httpClient = {
+      post: vi.fn().mockImplementation(async (_path: string, payload: any) => {
+        if (payload.order.salt === 3) {
+          throw new Error('Insufficient balance');
+        }
+        return {
+          order: {
+            ...payload.order,
+            id: `order-${payload.order.salt}`,
+            createdAt: '2026-01-01T00:00:00.000Z',
+            orderType: payload.orderType,
+            marketId: 42,
+          },
+        };
+      }),
+    } as any;
+
+    const client = new OrderClient({
+      httpClient,
+      wallet: { address: walletAddress } as any,
+    });
+
+    let salt = 0;
+    (client as any).cachedUserData = { userId: 42, feeRateBps: 300 };
+    (client as any).orderBuilder = {
+      buildOrder: vi.fn().mockImplementation((args: any) => {
+        if (args.price > 1) {
+          throw new Error('Invalid price');
+        }
+        salt += 1;
+        return {
+          salt,
+          maker: walletAddress,
+          signer: walletAddress,
+          taker: '0x0000000000000000000000000000000000000000',
+          tokenId: args.tokenId,
+          makerAmount: 5500000,
+          takerAmount: 10000000,
+          expiration: '0',
+          nonce: 0,
+          feeRateBps: 300,
+          side: args.side,
+          signatureType: 0,
+          price: args.price,
+        };
+      }),
+    };
+    (client as any).orderSigner = {
+      signOrder: vi
+        .fn()
+        .mockImplementation(async (order: any) =>
+          order.salt === 2 ? Promise.reject(new Error('signer offline')) : signature
+        ),
+    };
+    (client as any).marketFetcher = {
+      getOrderConstraints: vi.fn().mockReturnValue(ORDER_CONSTRAINTS),
+      getVenue: vi.fn().mockReturnValue({
+        exchange: '0x0000000000000000000000000000000000000002',
+        adapter: null,
+      }),
+    };
+
+    const base = {
+      tokenId: '123',
+      side: Side.BUY,
+      size: 10,
+      orderType: OrderType.GTC,
+      marketSlug: 'test-market',
+    };
+    const results = await client.createOrders([
+      { ...base, price: 0.55 },
+      { ...base, price: 1.5 },
+      { ...base, price: 0.5 },
+      { ...base, price: 0.45 },
+      { ...base, price: 0.6, clientOrderId: 'batch-1' },
+    ]);
+
+    expect(results).toHaveLength(5);
+    expect(results[0]).toMatchObject({ index: 0, success: true });
+    expect(results[0].success && results[0].response.order.id).toBe('order-1');
+    expect(results[1]).toMatchObject({ index: 1, success: false, stage: 'build' });
+    expect(results[2]).toMatchObject({ index: 2, success: false, stage: 'sign' });
+    expect(results[3]).toMatchObject({ index: 3, success: false, stage: 'submit' });
+    expect(results[4]).toMatchObject({ index: 4, success: false, stage: 'build' });
+    expect(!results[4].success && results[4].error).toBeInstanceOf(OrderValidationError);
+    expect(httpClient.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports per-order results for cancelOrders without throwing', async () => {
+    const httpClient = {
+      delete: vi.fn().mockImplementation(async (path: string) => {
+        if (path === '/orders/order-2') {
+          throw new Error('Order not found');
+        }
+        return { message: 'Order canceled successfully' };
+      }),
+    } as any;
+
+    const client = new OrderClient({
+      httpClient,
+      wallet: { address: '0x0000000000000000000000000000000000000001' } as any,
+    });
+
+    const results = await client.cancelOrders(['order-1', 'order-2', 'order-3'], { concurrency: 2 });
+
+    expect(results.map((result) => result.success)).toEqual([true, false, true]);
+    expect(results[1]).toMatchObject({ orderId: 'order-2', success: false });
+    expect(httpClient.delete).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns normalized open orders for a market filtered by token and side', async () => {
+    const rawOrder = {
+      id: 'order-1',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      makerAmount: '5500000',
+      takerAmount: '10000000',
+      expiration: '0',
+      signatureType: 0,
+      salt: '123',
+      maker: '0x0000000000000000000000000000000000000001',
+      signer: '0x0000000000000000000000000000000000000001',
+      taker: '0x0000000000000000000000000000000000000000',
+      tokenId: '123',
+      side: 'BUY',
+      feeRateBps: 300,
+      nonce: 0,
+      signature: '0xabc',
+      orderType: 'GTC',
+      price: '0.55',
+      marketId: 42,
+    };
+    const httpClient = {
+      get: vi.fn().mockResolvedValue([
+        { ...rawOrder, status: 'LIVE', remainingSize: '4000000' },
+        { ...rawOrder, id: 'order-2', tokenId: '456', status: 'LIVE' },
+        { ...rawOrder, id: 'order-3', side: 'SELL', status: 'LIVE' },
+        { ...rawOrder, id: 'order-4', status: 'CANCELLED' },
+      ]),
+    } as any;
+
+    const client = new OrderClient({
+      httpClient,
+      wallet: { address: '0x0000000000000000000000000000000000000001' } as any,
+    });
+
+    const orders = await client.getOpenOrders({
+      marketSlug: 'test-market',
+      tokenId: '123',
+      side: Side.BUY,
+    });
+
+    expect(httpClient.get).toHaveBeenCalledWith('/markets/test-market/user-orders');
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({
+      id: 'order-1',
+      side: Side.BUY,
+      price: 0.55,
+      status: 'PARTIALLY_FILLED',
+      size: 10000000,
+      filledSize: 6000000,
+      remainingSize: 4000000,
+      marketSlug: 'test-market',
+    });
+  });
+
+  it('collects open orders across portfolio positions when no market is given', async () => {
+    const httpClient = {
+      get: vi.fn().mockResolvedValue({
+        clob: [
+          {
+            market: { slug: 'market-a' },
+            orders: { liveOrders: [{ id: 'a-1', side: 1, makerAmount: 2000000, takerAmount: 1000000 }] },
+          },
+          { market: { slug: 'market-b' } },
+        ],
+        amm: [],
+        group: [],
+      }),
+    } as any;
+
+    const client = new OrderClient({
+      httpClient,
+      wallet: { address: '0x0000000000000000000000000000000000000001' } as any,
+    });
+
+    const orders = await client.getOpenOrders();
+
+    expect(httpClient.get).toHaveBeenCalledWith('/portfolio/positions');
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({
+      id: 'a-1',
+      side: Side.SELL,
+      status: 'OPEN',
+      size: 2000000,
+      remainingSize: 2000000,
+      filledSize: 0,
+      marketSlug: 'market-a',
+    });
+  });
+
+  it('fetches a single order by id with derived status', async () => {
+    const httpClient = {
+      get: vi.fn().mockResolvedValue({
+        order: { id: 'order-9', side: 0, takerAmount: '1000000', filledSize: '1000000' },
+      }),
+    } as any;
+
+    const client = new OrderClient({
+      httpClient,
+      wallet: { address: '0x0000000000000000000000000000000000000001' } as any,
+    });
+
+    const order = await client.getOrder('order-9');
+
+    expect(httpClient.get).toHaveBeenCalledWith('/orders/order-9');
+    expect(order.status).toBe('FILLED');
+    expect(order.remainingSize).toBe(0);
+  });
+
+  it('resolves market constraints on first use and rejects undersized orders before signing', async () => {
+    const httpClient = { post: vi.fn() };
+    const client = createTradingClient(httpClient);
+    const constraints = { tickSize: 0.01, minSize: 5, maxSpread: 0.05 };
+    let cached: typeof constraints | undefined;
+    (client as any).orderBuilder = new OrderBuilder(WALLET_ADDRESS, 300);
+    (client as any).marketFetcher.getOrderConstraints = vi.fn(() => cached);
+    (client as any).marketFetcher.getMarket = vi.fn(async () => {
+      cached = constraints;
+    });
+
+    const order = {
+      tokenId: '123',
+      side: Side.BUY,
+      orderType: OrderType.GTC,
+      marketSlug: 'market',
+    };
+
+    await expect(client.createOrder({ ...order, price: 0.5, size: 2 })).rejects.toThrow(
+      expect.objectContaining({ name: 'OrderValidationError', suggestedSize: 5 })
+    );
+    await expect(client.createOrder({ ...order, price: 0.505, size: 5 })).rejects.toThrow(
+      expect.objectContaining({ suggestedPrice: 0.5 })
+    );
+
+    expect((client as any).marketFetcher.getMarket).toHaveBeenCalledTimes(1);
+    expect((client as any).orderSigner.signOrder).not.toHaveBeenCalled();
+    expect(httpClient.post).not.toHaveBeenCalled();
+  });
+
+  describe('client order IDs', () => {
+    const params = {
+      tokenId: '123',
+      side: Side.BUY,
+      price: 0.55,
+      size: 10,
+      orderType: OrderType.GTC,
+      marketSlug: 'test-market',
+      clientOrderId: 'rebalance-1',
+    };
+
+    it('finds a timed-out order among open orders instead of posting it again', async () => {
+      let posted: any;
+      const httpClient = {
+        post: vi.fn().mockImplementation(async (_path: string, payload: any) => {
+          posted = payload;
+          throw new Error('No response received from API');
+        }),
+        get: vi.fn().mockImplementation(async () => [
+          { ...echoOrder(posted, 'order-live').order, status: 'OPEN' },
+        ]),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      await expect(client.createOrder(params)).rejects.toThrow('No response received');
+      expect(client.getClientOrder('rebalance-1')?.status).toBe('unknown');
+
+      const response = await client.createOrder(params);
+
+      expect(response.order.id).toBe('order-live');
+      expect(httpClient.get).toHaveBeenCalledWith('/markets/test-market/user-orders');
+      expect(httpClient.post).toHaveBeenCalledTimes(1);
+      expect(client.getClientOrder('rebalance-1')).toMatchObject({
+        status: 'acknowledged',
+        orderId: 'order-live',
+      });
+
+      await client.createOrder(params);
+      expect(httpClient.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('resubmits the same signed order when reconciliation finds nothing', async () => {
+      const httpClient = {
+        post: vi
+          .fn()
+          .mockRejectedValueOnce(new APIError('Bad gateway', 502, {}))
+          .mockImplementation(async (_path: string, payload: any) => echoOrder(payload)),
+        get: vi.fn().mockImplementation(async (path: string) =>
+          path.startsWith('/portfolio/history') ? { data: [], nextCursor: null } : []
+        ),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      await expect(client.createOrder(params)).rejects.toThrow('Bad gateway');
+      const response = await client.createOrder(params);
+
+      const [first, second] = httpClient.post.mock.calls.map((call: any[]) => call[1]);
+      expect(second).toEqual(first);
+      expect(response.order.id).toBe('order-1');
+      expect((client as any).orderSigner.signOrder).toHaveBeenCalledTimes(1);
+      expect(client.getClientOrder('rebalance-1')?.attempts).toBe(2);
+    });
+
+    it('checks risk limits again before resubmitting', async () => {
+      const httpClient = {
+        post: vi.fn().mockRejectedValue(new APIError('Bad gateway', 502, {})),
+        get: vi.fn().mockImplementation(async (path: string) =>
+          path.startsWith('/portfolio/history') ? { data: [], nextCursor: null } : []
+        ),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      await expect(client.createOrder(params)).rejects.toThrow('Bad gateway');
+      (client as any).riskManager = new RiskManager({ limits: { maxOrderNotional: 5 } });
+
+      await expect(client.createOrder(params)).rejects.toBeInstanceOf(RiskLimitError);
+      expect(httpClient.post).toHaveBeenCalledTimes(1);
+      expect(client.getClientOrder('rebalance-1')?.attempts).toBe(1);
+    });
+
+    it('throws DuplicateOrderError when recent history shows a matching fill', async () => {
+      const submittedAt = Math.floor(Date.now() / 1000);
+      const fill = {
+        blockTimestamp: submittedAt,
+        market: { slug: 'test-market' },
+        outcomeIndex: 0,
+        strategy: 'Limit Buy',
+      };
+      const httpClient = {
+        post: vi.fn().mockRejectedValue(new Error('No response received from API')),
+        get: vi.fn().mockImplementation(async (path: string) =>
+          path.startsWith('/portfolio/history')
+            ? {
+                data: [fill, { ...fill, outcomeIndex: 1 }, { ...fill, strategy: 'Sell' }],
+                nextCursor: null,
+              }
+            : []
+        ),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      await expect(client.createOrder(params)).rejects.toThrow('No response received');
+      const error = await client.createOrder(params).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DuplicateOrderError);
+      expect(error.reconciliation.fills).toEqual([fill]);
+      expect(httpClient.post).toHaveBeenCalledTimes(1);
+      expect(client.getClientOrder('rebalance-1')?.status).toBe('filled');
+    });
+
+    it('marks orders rejected by the API and signs a fresh order on retry', async () => {
+      const httpClient = {
+        post: vi
+          .fn()
+          .mockRejectedValueOnce(new APIError('Insufficient balance', 400, {}))
+          .mockImplementation(async (_path: string, payload: any) => echoOrder(payload)),
+        get: vi.fn(),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      await expect(client.createOrder(params)).rejects.toThrow('Insufficient balance');
+      expect(client.getClientOrder('rebalance-1')?.status).toBe('rejected');
+
+      const response = await client.createOrder(params);
+
+      expect(response.order.id).toBe('order-2');
+      expect(httpClient.get).not.toHaveBeenCalled();
+      await expect(client.createOrder({ ...params, side: Side.SELL })).rejects.toThrow(
+        OrderValidationError
+      );
+    });
+  });
+
+  describe('risk manager', () => {
+    const params = {
+      tokenId: '123',
+      side: Side.BUY,
+      price: 0.55,
+      size: 10,
+      orderType: OrderType.GTC,
+      marketSlug: 'test-market',
+    };
+
+    it('rejects orders over a limit before signing', async () => {
+      const httpClient = { post: vi.fn() } as any;
+      const client = createTradingClient(httpClient);
+      (client as any).riskManager = new RiskManager({ limits: { maxOrderNotional: 5 } });
+
+      await expect(client.createOrder(params)).rejects.toBeInstanceOf(RiskLimitError);
+      expect((client as any).orderSigner.signOrder).not.toHaveBeenCalled();
+      expect(httpClient.post).not.toHaveBeenCalled();
+    });
+
+    it('records resting orders and releases them on cancel', async () => {
+      const httpClient = {
+        post: vi.fn().mockImplementation(async (_path: string, payload: any) => echoOrder(payload)),
+        delete: vi.fn().mockResolvedValue({ message: 'Order canceled successfully' }),
+      } as any;
+      const client = createTradingClient(httpClient);
+      const riskManager = new RiskManager({ limits: {} });
+      (client as any).riskManager = riskManager;
+
+      const response = await client.createOrder(params);
+      await client.createOrder({ ...params, orderType: OrderType.FAK });
+      expect(riskManager.getOpenExposure('test-market')).toBeCloseTo(5.5);
+
+      await client.cancel(response.order.id);
+      expect(riskManager.getOpenExposure('test-market')).toBe(0);
+    });
+
+    it('reserves exposure for batched and concurrent orders until they are submitted', async () => {
+      const httpClient = {
+        post: vi.fn().mockImplementation(async (_path: string, payload: any) => echoOrder(payload)),
+      } as any;
+      const createClient = () => {
+        const client = createTradingClient(httpClient);
+        const riskManager = new RiskManager({
+          limits: { maxMarketExposure: 10 },
+          portfolioFetcher: { getCLOBPositions: vi.fn().mockResolvedValue([]) } as any,
+        });
+        (client as any).riskManager = riskManager;
+        return { client, riskManager };
+      };
+
+      // Each order (5.5) fits the limit alone, but not together
+      const batch = createClient();
+      const results = await batch.client.createOrders([params, params]);
+      expect(results[0]).toMatchObject({ success: true });
+      expect(results[1]).toMatchObject({ success: false, stage: 'build' });
+      expect(!results[1].success && results[1].error).toBeInstanceOf(RiskLimitError);
+      expect(batch.riskManager.getOpenExposure('test-market')).toBeCloseTo(5.5);
+
+      const concurrent = createClient();
+      const settled = await Promise.allSettled([
+        concurrent.client.createOrder(params),
+        concurrent.client.createOrder(params),
+      ]);
+      expect(settled.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+
+      const failing = createClient();
+      (failing.client as any).orderSigner.signOrder.mockRejectedValueOnce(
+        new Error('signer offline')
+      );
+      await expect(failing.client.createOrder(params)).rejects.toThrow('signer offline');
+      expect(failing.riskManager.getOpenExposure('test-market')).toBe(0);
+      httpClient.post.mockRejectedValueOnce(new Error('Insufficient balance'));
+      await expect(failing.client.createOrder(params)).rejects.toThrow('Insufficient balance');
+      expect(failing.riskManager.getOpenExposure('test-market')).toBe(0);
+      await expect(failing.client.createOrder(params)).resolves.toBeDefined();
+    });
+  });
+
+  describe('cross-market cancellation', () => {
+    const retry = { delays: [0] };
+
+    it('cancels every market with live orders and retries transient failures', async () => {
+      const httpClient = {
+        get: vi.fn().mockResolvedValue({
+          clob: [
+            {
+              market: { slug: 'market-a' },
+              orders: { liveOrders: [{ id: 'a-1' }, { id: 'a-2' }] },
+            },
+            { market: { slug: 'market-b' }, orders: { liveOrders: [{ id: 'b-1' }] } },
+          ],
+        }),
+        delete: vi
+          .fn()
+          .mockImplementation(async (path: string) => {
+            if (path.endsWith('market-c')) {
+              throw new APIError('Market not found', 404, null);
+            }
+            return { message: 'Orders canceled successfully' };
+          })
+          .mockRejectedValueOnce(new APIError('Service unavailable', 503, null)),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      const results = await client.cancelEverything({
+        marketSlugs: ['market-c'],
+        concurrency: 1,
+        retry,
+      });
+
+      expect(httpClient.get).toHaveBeenCalledWith('/portfolio/positions');
+      expect(httpClient.delete.mock.calls.map((call: any[]) => call[0])).toEqual([
+        '/orders/all/market-a',
+        '/orders/all/market-a',
+        '/orders/all/market-b',
+        '/orders/all/market-c',
+      ]);
+      expect(results.map((r) => [r.marketSlug, r.success])).toEqual([
+        ['market-a', true],
+        ['market-b', true],
+        ['market-c', false],
+      ]);
+      expect(results[0].orders.map((o) => o.orderId)).toEqual(['a-1', 'a-2']);
+      expect(results[2].error).toBeInstanceOf(APIError);
+    });
+
+    it('cancels only the orders matching a token and side', async () => {
+      const httpClient = {
+        get: vi.fn().mockResolvedValue([
+          { id: 'yes-bid', tokenId: '123', side: 0, status: 'OPEN' },
+          { id: 'yes-ask', tokenId: '123', side: 1, status: 'OPEN' },
+          { id: 'no-bid', tokenId: '456', side: 0, status: 'OPEN' },
+          { id: 'yes-bid-2', tokenId: '123', side: 0, status: 'PARTIALLY_FILLED' },
+        ]),
+        delete: vi.fn().mockImplementation(async (path: string) => {
+          if (path.endsWith('yes-bid-2')) {
+            throw new Error('Order already filled');
+          }
+          return { message: 'Order canceled successfully' };
+        }),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      const result = await client.cancelMarketOrders(
+        'test-market',
+        { tokenId: '123', side: Side.BUY },
+        { retry }
+      );
+
+      expect(httpClient.get).toHaveBeenCalledWith('/markets/test-market/user-orders');
+      expect(httpClient.delete).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(false);
+      expect(result.orders).toMatchObject([
+        { orderId: 'yes-bid', success: true },
+        { orderId: 'yes-bid-2', success: false },
+      ]);
+    });
+  });
+
+  describe("dead-man's switch", () => {
+    const params = {
+      tokenId: '123',
+      side: Side.BUY,
+      price: 0.55,
+      size: 10,
+      orderType: OrderType.GTC,
+    };
+
+    function createSwitchClient() {
+      const httpClient = {
+        post: vi.fn().mockImplementation(async (_path: string, payload: any) => echoOrder(payload)),
+        delete: vi.fn().mockResolvedValue({ message: 'Orders canceled successfully' }),
+      } as any;
+      const client = createTradingClient(httpClient);
+      const events: any[] = [];
+      client.on('deadMansSwitch', (event) => events.push(event));
+      return { httpClient, client, events, clock: new ManualClock() };
+    }
+
+    it('cancels the resting orders it placed when heartbeats stop', async () => {
+      const { httpClient, client, events, clock } = createSwitchClient();
+      const resting = await client.createOrder({ ...params, marketSlug: 'market-a' });
+      const cancelled = await client.createOrder({ ...params, marketSlug: 'market-a' });
+      await client.createOrder({ ...params, marketSlug: 'market-b' });
+      await client.createOrder({ ...params, marketSlug: 'market-c', orderType: OrderType.FOK });
+      await client.cancel(cancelled.order.id);
+      await client.cancelAll('market-b');
+      httpClient.delete.mockClear();
+
+      client.enableDeadMansSwitch({ timeoutMs: 1_000, clock });
+      await clock.advance(900);
+      client.heartbeat();
+      await clock.advance(900);
+      expect(events).toHaveLength(0);
+
+      await clock.advance(100);
+      // Only by ID: other orders on market-a are left alone
+      expect(httpClient.delete.mock.calls.map((call: any[]) => call[0])).toEqual([
+        `/orders/${resting.order.id}`,
+      ]);
+      expect(events).toEqual([
+        {
+          reason: 'heartbeatTimeout',
+          lastHeartbeatAt: 900,
+          triggeredAt: 1_900,
+          results: [
+            {
+              marketSlug: 'market-a',
+              success: true,
+              orders: [expect.objectContaining({ orderId: resting.order.id, success: true })],
+            },
+          ],
+        },
+      ]);
+
+      // Tripped until the next heartbeat re-arms it
+      await clock.advance(5_000);
+      expect(events).toHaveLength(1);
+      client.heartbeat();
+      await clock.advance(1_000);
+      expect(events).toHaveLength(2);
+      expect(events[1].results).toEqual([]);
+    });
+
+    it('trips when the WebSocket stays disconnected', async () => {
+      const { httpClient, client, events, clock } = createSwitchClient();
+      const handlers = new Map<string, () => void>();
+      const wsClient = {
+        on: vi.fn((event: string, handler: () => void) => handlers.set(event, handler)),
+        off: vi.fn((event: string) => handlers.delete(event)),
+        isConnected: vi.fn(() => true),
+      };
+      const resting = await client.createOrder({ ...params, marketSlug: 'market-a' });
+
+      client.enableDeadMansSwitch({
+        timeoutMs: 60_000,
+        disconnectTimeoutMs: 500,
+        wsClient: wsClient as any,
+        clock,
+      });
+      handlers.get('disconnect')!();
+      await clock.advance(400);
+      handlers.get('connect')!();
+      await clock.advance(400);
+      expect(events).toHaveLength(0);
+
+      handlers.get('disconnect')!();
+      await clock.advance(500);
+      expect(events).toMatchObject([{ reason: 'disconnected', triggeredAt: 1_300 }]);
+      expect(httpClient.delete).toHaveBeenCalledWith(`/orders/${resting.order.id}`);
+
+      client.disableDeadMansSwitch();
+      expect(handlers.size).toBe(0);
+      expect(() => client.enableDeadMansSwitch({ timeoutMs: 0 })).toThrow('positive');
+    });
+  });
+
+  describe('replaceOrder', () => {
+    const replacement = {
+      tokenId: '123',
+      side: Side.BUY,
+      price: 0.56,
+      size: 10,
+      marketSlug: 'test-market',
+    };
+
+    const original = { id: 'order-old', tokenId: '123', side: 'BUY', marketSlug: 'test-market' };
+
+    it('signs first, then cancels the original and submits the replacement', async () => {
+      const calls: string[] = [];
+      const httpClient = {
+        get: vi.fn().mockImplementation(async (path: string) => {
+          calls.push(`get ${path}`);
+          return original;
+        }),
+        delete: vi.fn().mockImplementation(async (path: string) => {
+          calls.push(`delete ${path}`);
+          return { message: 'Order canceled successfully' };
+        }),
+        post: vi.fn().mockImplementation(async (path: string, payload: any) => {
+          calls.push(`post ${path}`);
+          return echoOrder(payload, 'order-new');
+        }),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      const result = await client.replaceOrder('order-old', replacement);
+
+      expect(calls).toEqual(['get /orders/order-old', 'delete /orders/order-old', 'post /orders']);
+      expect((client as any).orderSigner.signOrder).toHaveBeenCalledTimes(1);
+      expect(result.cancelledOrderId).toBe('order-old');
+      expect(result.order.order.id).toBe('order-new');
+      expect(httpClient.post.mock.calls[0][1].orderType).toBe(OrderType.GTC);
+    });
+
+    it('leaves the original order untouched when signing fails', async () => {
+      const httpClient = {
+        get: vi.fn().mockResolvedValue(original),
+        delete: vi.fn(),
+        post: vi.fn(),
+      } as any;
+      const client = createTradingClient(httpClient);
+      (client as any).orderSigner.signOrder.mockRejectedValue(new Error('signer offline'));
+
+      const error = await client.replaceOrder('order-old', replacement).catch((e) => e);
+
+      expect(error).toBeInstanceOf(OrderReplaceError);
+      expect(error.leg).toBe('prepare');
+      expect(error.originalCancelled).toBe(false);
+      expect(httpClient.delete).not.toHaveBeenCalled();
+      expect(httpClient.post).not.toHaveBeenCalled();
+    });
+
+    it('does not submit the replacement when the cancel leg fails', async () => {
+      const httpClient = {
+        get: vi.fn().mockResolvedValue(original),
+        delete: vi.fn().mockRejectedValue(new Error('Order not found')),
+        post: vi.fn(),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      const error = await client.replaceOrder('order-old', replacement).catch((e) => e);
+
+      expect(error.leg).toBe('cancel');
+      expect(error.cause.message).toBe('Order not found');
+      expect(httpClient.post).not.toHaveBeenCalled();
+    });
+
+    it('reports the submit leg when the replacement is rejected after cancel', async () => {
+      const httpClient = {
+        get: vi.fn().mockResolvedValue(original),
+        delete: vi.fn().mockResolvedValue({ message: 'Order canceled successfully' }),
+        post: vi.fn().mockRejectedValue(new Error('Insufficient balance')),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      const error = await client.replaceOrder('order-old', replacement).catch((e) => e);
+
+      expect(error.leg).toBe('submit');
+      expect(error.originalCancelled).toBe(true);
+    });
+
+    it('rejects a clientOrderId on the replacement', async () => {
+      const httpClient = { get: vi.fn(), delete: vi.fn(), post: vi.fn() } as any;
+      const client = createTradingClient(httpClient);
+
+      const error = await client
+        .replaceOrder('order-old', { ...replacement, clientOrderId: 'replace-1' } as any)
+        .catch((e) => e);
+
+      expect(error.leg).toBe('prepare');
+      expect(error.cause).toBeInstanceOf(OrderValidationError);
+      expect(httpClient.delete).not.toHaveBeenCalled();
+    });
+
+    it('rejects a replacement for a different market or token before cancelling', async () => {
+      const httpClient = {
+        get: vi.fn().mockResolvedValue(original),
+        delete: vi.fn(),
+        post: vi.fn(),
+      } as any;
+      const client = createTradingClient(httpClient);
+
+      const wrongToken = await client
+        .replaceOrder('order-old', { ...replacement, tokenId: '456' })
+        .catch((e) => e);
+      const wrongMarket = await client
+        .replaceOrder('order-old', { ...replacement, marketSlug: 'other-market' })
+        .catch((e) => e);
+
+      for (const error of [wrongToken, wrongMarket]) {
+        expect(error.leg).toBe('prepare');
+        expect(error.cause).toBeInstanceOf(OrderValidationError);
+      }
+      expect(httpClient.delete).not.toHaveBeenCalled();
+      expect(httpClient.post).not.toHaveBeenCalled();
+    });
+  });
+
+  it('resolves the signer address lazily for signing backends without a sync address', async () => {
+    const backend = {
+      getAddress: vi.fn().mockResolvedValue(WALLET_ADDRESS),
+      signTypedData: vi.fn(),
+    };
+    const client = new OrderClient({ httpClient: {} as any, wallet: backend });
+
+    expect(() => client.walletAddress).toThrow('Signer address not resolved yet');
+    await expect(client.getWalletAddress()).resolves.toBe(WALLET_ADDRESS);
+    expect(client.walletAddress).toBe(WALLET_ADDRESS);
+    expect(backend.getAddress).toHaveBeenCalledTimes(1);
+  });
+
+  it('builds funder-maker orders for Safe wallets and rejects funder-less proxy configs', async () => {
+    const safeAddress = '0x00000000000000000000000000000000000000aa';
+    const httpClient = {
+      get: vi.fn().mockResolvedValue({ id: 7, account: safeAddress, rank: { feeRateBps: 100 } }),
+    } as any;
+
+    const client = new OrderClient({
+      httpClient,
+      wallet: { address: WALLET_ADDRESS } as any,
+      funderAddress: safeAddress,
+      signatureType: SignatureType.POLY_GNOSIS_SAFE,
+    });
+
+    const order = await client.buildUnsignedOrder({
+      tokenId: '123',
+      side: Side.BUY,
+      price: 0.5,
+      size: 10,
+    });
+
+    expect(httpClient.get).toHaveBeenCalledWith(`/profiles/${safeAddress}`);
+    expect(order.maker).toBe(safeAddress);
+    expect(order.signer).toBe(WALLET_ADDRESS);
+    expect(order.signatureType).toBe(SignatureType.POLY_GNOSIS_SAFE);
+    expect(client.makerAddress).toBe(safeAddress);
+
+    expect(
+      () =>
+        new OrderClient({
+          httpClient,
+          wallet: { address: WALLET_ADDRESS } as any,
+          signatureType: SignatureType.POLY_PROXY,
+        })
+    ).toThrow(OrderValidationError);
+  });
 });
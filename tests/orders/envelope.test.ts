@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { OrderBuilder } from '../../src/orders/builder';
+import { OrderClient } from '../../src/orders/client';
+import {
+  createSignedOrderEnvelope,
+  parseSignedOrderEnvelope,
+  serializeSignedOrderEnvelope,
+} from '../../src/orders/envelope';
+import { OrderSigner } from '../../src/orders/signer';
+import { OrderValidationError } from '../../src/orders/validator';
+import { OrderType, Side } from '../../src/types/orders';
+
+const wallet = new ethers.Wallet(
+  '0x59c6995e998f97a5a0044966f0945382d7f33b94d8538d9f1fd7055c77a46f6c'
+);
+const EXCHANGE = '0xa4409D988CA2218d956BeEFD3874100F444f0DC3';
+const signingConfig = { chainId: 8453, contractAddress: EXCHANGE };
+
+async function signOffline(): Promise<string> {
+  const unsignedOrder = new OrderBuilder(wallet.address, 300).buildOrder({
+    tokenId: '123',
+    side: Side.BUY,
+    price: 0.55,
+    size: 10,
+  });
+  const signature = await new OrderSigner(wallet).signOrder(unsignedOrder, signingConfig);
+
+  const envelope = createSignedOrderEnvelope(
+    { ...unsignedOrder, signature },
+    {
+      marketSlug: 'test-market',
+      orderType: OrderType.GTC,
+      ownerId: 42,
+      postOnly: true,
+      signingConfig,
+    }
+  );
+
+  return serializeSignedOrderEnvelope(envelope);
+}
+
+function createSubmitter(exchange: string = EXCHANGE) {
+  const httpClient = {
+    post: vi.fn().mockImplementation(async (_path: string, payload: any) => ({
+      order: { ...payload.order, id: 'order-1', orderType: payload.orderType, marketId: 42 },
+    })),
+  } as any;
+
+  // Hot server holds no key material of its own
+  const client = new OrderClient({
+    httpClient,
+    wallet: { address: '0x0000000000000000000000000000000000000001' } as any,
+  });
+  (client as any).marketFetcher = {
+    getVenue: vi.fn().mockReturnValue({ exchange, adapter: null }),
+  };
+
+  return { client, httpClient };
+}
+
+describe('Signed order envelopes', () => {
+  it('round-trips an offline-signed order and submits it unchanged', async () => {
+    const json = await signOffline();
+    const envelope = parseSignedOrderEnvelope(json);
+
+    expect(envelope.type).toBe('limitless-signed-order');
+    expect(envelope.version).toBe(1);
+
+    const { client, httpClient } = createSubmitter();
+    const response = await client.submitSignedOrder(json);
+
+    const [path, payload] = httpClient.post.mock.calls[0];
+    expect(path).toBe('/orders');
+    expect(payload).toEqual({
+      order: envelope.order,
+      orderType: OrderType.GTC,
+      marketSlug: 'test-market',
+      ownerId: 42,
+      postOnly: true,
+    });
+    expect(response.order.id).toBe('order-1');
+  });
+
+  it('rejects envelopes signed for a different exchange before posting', async () => {
+    const { client, httpClient } = createSubmitter('0x5a38afc17F7E97ad8d6C547ddb837E40B4aEDfC6');
+
+    await expect(client.submitSignedOrder(await signOffline())).rejects.toThrow(
+      OrderValidationError
+    );
+    expect(httpClient.post).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown versions and tampered signatures', async () => {
+    const envelope = JSON.parse(await signOffline());
+
+    expect(() => parseSignedOrderEnvelope({ ...envelope, version: 2 })).toThrow(
+      'Unsupported envelope version'
+    );
+    expect(() =>
+      parseSignedOrderEnvelope({ ...envelope, order: { ...envelope.order, signature: '0x1234' } })
+    ).toThrow('Invalid signature length');
+    expect(() => parseSignedOrderEnvelope('not json')).toThrow(OrderValidationError);
+  });
+});
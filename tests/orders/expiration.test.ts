@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  parseDuration,
+  resolveOrderExpiration,
+  validateOrderExpiration,
+} from '../../src/orders/expiration';
+import { OrderBuilder } from '../../src/orders/builder';
+import { OrderClient } from '../../src/orders/client';
+import { OrderValidationError, validateOrderArgs } from '../../src/orders/validator';
+import { OrderType, Side } from '../../src/types/orders';
+
+const NOW = Date.UTC(2026, 0, 1);
+const NOW_SECONDS = NOW / 1000;
+const MAKER = '0x0000000000000000000000000000000000000001';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('order expiration helpers', () => {
+  it('resolves dates, durations and unix timestamps to unix seconds', () => {
+    expect(resolveOrderExpiration(undefined)).toBe('0');
+    expect(resolveOrderExpiration(0)).toBe('0');
+    expect(resolveOrderExpiration(new Date(NOW + 1500))).toBe(String(NOW_SECONDS + 1));
+    expect(resolveOrderExpiration('15m', NOW)).toBe(String(NOW_SECONDS + 900));
+    expect(resolveOrderExpiration('1.5h', NOW)).toBe(String(NOW_SECONDS + 5400));
+    expect(resolveOrderExpiration(NOW_SECONDS + 60)).toBe(String(NOW_SECONDS + 60));
+    expect(resolveOrderExpiration(String(NOW_SECONDS))).toBe(String(NOW_SECONDS));
+    expect(parseDuration('7d')).toBe(604_800);
+    expect(parseDuration('soon')).toBeUndefined();
+  });
+
+  it('rejects malformed and millisecond expirations', () => {
+    expect(() => resolveOrderExpiration('tomorrow')).toThrow(OrderValidationError);
+    expect(() => resolveOrderExpiration('0m')).toThrow('Invalid expiration format');
+    expect(() => resolveOrderExpiration(-1)).toThrow('non-negative');
+    expect(() => resolveOrderExpiration(new Date('nope'))).toThrow('invalid Date');
+    expect(() => resolveOrderExpiration(NOW)).toThrow('looks like milliseconds');
+    expect(() =>
+      validateOrderArgs({ tokenId: '1', side: Side.BUY, price: 0.5, size: 1, expiration: '1x' })
+    ).toThrow(OrderValidationError);
+  });
+
+  it('requires a future expiration no later than the market expiration', () => {
+    const options = { now: NOW, marketExpirationTimestamp: NOW + 3_600_000 };
+
+    expect(() => validateOrderExpiration('0', options)).not.toThrow();
+    expect(() => validateOrderExpiration(String(NOW_SECONDS + 60), options)).not.toThrow();
+    expect(() => validateOrderExpiration(String(NOW_SECONDS), options)).toThrow(
+      'not in the future'
+    );
+    expect(() => validateOrderExpiration(String(NOW_SECONDS + 7200), options)).toThrow(
+      'after the market expires'
+    );
+  });
+
+  it('builds good-till-date orders against market constraints', () => {
+    vi.useFakeTimers({ now: NOW });
+    const builder = new OrderBuilder(MAKER, 300);
+    const args = { tokenId: '123', price: 0.5, size: 10, side: Side.BUY };
+
+    expect(builder.buildOrder({ ...args, expiration: '30m' }).expiration).toBe(
+      String(NOW_SECONDS + 1800)
+    );
+    expect(builder.buildOrder(args).expiration).toBe('0');
+    expect(() =>
+      builder.buildOrder({ ...args, expiration: '2h' }, { expirationTimestamp: NOW + 3_600_000 })
+    ).toThrow('after the market expires');
+  });
+});
+
+describe('OrderClient expiry tracking', () => {
+  function createClient(httpClient: any, autoCancelExpired?: boolean): OrderClient {
+    const client = new OrderClient({
+      httpClient,
+      wallet: { address: MAKER } as any,
+      autoCancelExpired,
+    });
+    (client as any).cachedUserData = { userId: 42, feeRateBps: 300 };
+    (client as any).orderBuilder = new OrderBuilder(MAKER, 300);
+    (client as any).orderSigner = { signOrder: vi.fn().mockResolvedValue('0xsig') };
+    (client as any).marketFetcher = {
+      getOrderConstraints: vi
+        .fn()
+        .mockReturnValue({ tickSize: 0.001, minSize: 0, maxSpread: null }),
+      getVenue: vi.fn().mockReturnValue({ exchange: MAKER, adapter: null }),
+    };
+    return client;
+  }
+
+  const params = {
+    tokenId: '123',
+    price: 0.5,
+    size: 10,
+    side: Side.BUY,
+    orderType: OrderType.GTC,
+    marketSlug: 'market',
+  } as const;
+
+  function postEcho(id: string) {
+    return vi.fn().mockImplementation(async (_path: string, payload: any) => ({
+      order: { ...payload.order, id, createdAt: '2026-01-01T00:00:00.000Z' },
+    }));
+  }
+
+  it('emits orderExpired and auto-cancels when a GTD order lapses', async () => {
+    vi.useFakeTimers({ now: NOW });
+    const httpClient = {
+      post: postEcho('order-gtd'),
+      delete: vi.fn().mockResolvedValue({ message: 'Order canceled successfully' }),
+    } as any;
+    const client = createClient(httpClient, true);
+    const expired = vi.fn();
+    client.on('orderExpired', expired);
+
+    await client.createOrder({ ...params, expiration: '15m' });
+    await client.createOrder(params);
+
+    await vi.advanceTimersByTimeAsync(899_000);
+    expect(expired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(httpClient.delete).toHaveBeenCalledWith('/orders/order-gtd');
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(expired).toHaveBeenCalledWith({
+      orderId: 'order-gtd',
+      marketSlug: 'market',
+      expiration: NOW_SECONDS + 900,
+      cancelled: true,
+    });
+  });
+
+  it('stops tracking orders cancelled through the client', async () => {
+    vi.useFakeTimers({ now: NOW });
+    const httpClient = {
+      post: postEcho('order-gtd'),
+      delete: vi.fn().mockResolvedValue({ message: 'Order canceled successfully' }),
+    } as any;
+    const client = createClient(httpClient);
+    const expired = vi.fn();
+    client.on('orderExpired', expired);
+
+    await client.createOrder({ ...params, expiration: new Date(NOW + 60_000) });
+    await client.cancel('order-gtd');
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(expired).not.toHaveBeenCalled();
+    expect(httpClient.delete).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  NegRiskApprovalError,
+  NegRiskClient,
+  type NegRiskClientConfig,
+} from '../../src/orders/neg-risk';
+import { OrderValidationError } from '../../src/orders/validator';
+import { OrderType, Side } from '../../src/types/orders';
+import { ManualClock } from '../execution/manual-clock';
+
+const MAKER = '0x00000000000000000000000000000000000000aa';
+const VENUE = {
+  exchange: '0x0000000000000000000000000000000000000002',
+  adapter: '0x0000000000000000000000000000000000000003',
+};
+
+function child(slug: string, title: string, orderInGroup: number, withTokens = true) {
+  return {
+    id: orderInGroup + 100,
+    slug,
+    title,
+    orderInGroup,
+    status: 'FUNDED',
+    prices: [0.2 * (orderInGroup + 1), 1 - 0.2 * (orderInGroup + 1)],
+    ...(withTokens ? { tokens: { yes: `${slug}-yes`, no: `${slug}-no` } } : {}),
+  };
+}
+
+function yesBook(bids: Array<[number, number]>) {
+  return {
+    tokenId: 'yes',
+    bids: bids.map(([price, size]) => ({ price, size, side: 'buy' })),
+    asks: [],
+    adjustedMidpoint: 0.5,
+    maxSpread: 0.05,
+    minSize: 1,
+  };
+}
+
+function setup(approvals: Record<string, boolean> = {}, config: NegRiskClientConfig = {}) {
+  const group = {
+    slug: 'group',
+    title: 'Largest company',
+    negRiskMarketId: '0xabc',
+    venue: VENUE,
+    markets: [
+      child('nvidia', 'Nvidia', 1),
+      child('apple', 'Apple', 0),
+      child('msft', 'Microsoft', 2, false),
+    ],
+  };
+  const marketFetcher = {
+    getMarket: vi.fn(async (slug: string) =>
+      slug === 'group' ? group : { ...child(slug, slug, 0), venue: VENUE }
+    ),
+    getTokens: vi.fn(() => undefined),
+    getVenue: vi.fn(() => undefined),
+    getOrderBook: vi.fn(),
+  };
+  const orderClient = {
+    createOrder: vi.fn().mockResolvedValue({ order: { id: 'order-1' } }),
+    getWalletAddress: vi.fn().mockResolvedValue(MAKER),
+    makerAddress: MAKER,
+  };
+  const contract = {
+    isApprovedForAll: vi.fn(
+      async (_owner: string, operator: string) => approvals[operator] ?? true
+    ),
+  };
+  const negRisk = new NegRiskClient(orderClient as any, marketFetcher as any, {
+    contractFactory: () => contract,
+    ...config,
+  });
+  return { negRisk, marketFetcher, orderClient, contract };
+}
+
+describe('NegRiskClient', () => {
+  it('lists outcomes in group order, fetching missing tokens', async () => {
+    const { negRisk, marketFetcher } = setup();
+
+    const outcomes = await negRisk.getOutcomes('group');
+
+    expect(outcomes.map((outcome) => outcome.label)).toEqual(['Apple', 'Nvidia', 'Microsoft']);
+    expect(outcomes[0]).toMatchObject({
+      marketSlug: 'apple',
+      tokens: { yes: 'apple-yes', no: 'apple-no' },
+      prices: { yes: 0.2, no: 0.8 },
+      venue: VENUE,
+    });
+    expect(outcomes[2].tokens).toEqual({ yes: 'msft-yes', no: 'msft-no' });
+    expect(marketFetcher.getMarket).toHaveBeenCalledWith('msft');
+  });
+
+  it('places orders on an outcome by label and token', async () => {
+    const { negRisk, orderClient } = setup();
+
+    await negRisk.createOrder('group', {
+      outcome: 'nvidia',
+      token: 'NO',
+      side: Side.BUY,
+      price: 0.3,
+      size: 20,
+      orderType: OrderType.GTC,
+    });
+
+    expect(orderClient.createOrder).toHaveBeenCalledWith({
+      side: Side.BUY,
+      price: 0.3,
+      size: 20,
+      orderType: OrderType.GTC,
+      tokenId: 'nvidia-no',
+      marketSlug: 'nvidia',
+    });
+    await expect(
+      negRisk.createOrder('group', {
+        outcome: 'Tesla',
+        token: 'YES',
+        side: Side.BUY,
+        makerAmount: 1,
+        orderType: OrderType.FOK,
+      })
+    ).rejects.toBeInstanceOf(OrderValidationError);
+  });
+
+  it('blocks SELL orders missing the adapter approval', async () => {
+    const { negRisk, orderClient, contract } = setup({ [VENUE.adapter]: false });
+    const sell = {
+      outcome: 'Apple',
+      token: 'YES' as const,
+      side: Side.SELL,
+      price: 0.8,
+      size: 15,
+      orderType: OrderType.GTC,
+    };
+
+    const error = await negRisk.createOrder('group', sell).catch((err) => err);
+    expect(error).toBeInstanceOf(NegRiskApprovalError);
+    expect(error.approvals).toMatchObject({
+      owner: MAKER,
+      exchangeApproved: true,
+      adapterApproved: false,
+      missing: [VENUE.adapter],
+    });
+    expect(orderClient.createOrder).not.toHaveBeenCalled();
+
+    contract.isApprovedForAll.mockResolvedValue(true);
+    await negRisk.createOrder('group', sell);
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+
+    // The granted exchange approval was cached
+    expect(
+      contract.isApprovedForAll.mock.calls.filter((call) => call[1] === VENUE.exchange)
+    ).toHaveLength(1);
+  });
+
+  it('reads cached approvals again after the TTL or clearApprovalCache()', async () => {
+    const clock = new ManualClock();
+    const { negRisk, contract } = setup({}, { approvalCacheTtlMs: 1_000, clock });
+    const reads = () => contract.isApprovedForAll.mock.calls.length;
+
+    await negRisk.checkSellApprovals('apple');
+    await negRisk.checkSellApprovals('apple');
+    expect(reads()).toBe(2);
+
+    // Revoked on-chain: the cache expires and the next check sees it
+    contract.isApprovedForAll.mockResolvedValue(false);
+    await clock.advance(1_000);
+    await expect(negRisk.checkSellApprovals('apple')).resolves.toMatchObject({
+      approved: false,
+    });
+
+    contract.isApprovedForAll.mockResolvedValue(true);
+    await negRisk.checkSellApprovals('apple');
+    negRisk.clearApprovalCache();
+    await negRisk.checkSellApprovals('apple');
+    expect(reads()).toBe(8);
+  });
+
+  it('rejects SELL orders it cannot check unless skipApprovalCheck is set', async () => {
+    const sell = {
+      outcome: 'Apple',
+      token: 'YES' as const,
+      side: Side.SELL,
+      price: 0.8,
+      size: 15,
+      orderType: OrderType.GTC,
+    };
+    const unchecked = setup({}, { contractFactory: undefined });
+
+    await expect(unchecked.negRisk.createOrder('group', sell)).rejects.toThrow('skipApprovalCheck');
+    expect(unchecked.orderClient.createOrder).not.toHaveBeenCalled();
+
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const skipped = setup({}, { contractFactory: undefined, skipApprovalCheck: true, logger });
+    await skipped.negRisk.createOrder('group', sell);
+    expect(skipped.orderClient.createOrder).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith('Submitting NegRisk SELL without an approval check', {
+      marketSlug: 'apple',
+    });
+  });
+
+  it('quotes a buy-all-NO basket from the YES bids', async () => {
+    const { negRisk, marketFetcher } = setup();
+    marketFetcher.getOrderBook.mockImplementation(async (slug: string) =>
+      slug === 'msft'
+        ? yesBook([[0.1, 4]])
+        : yesBook([
+            [0.4, 5],
+            [0.3, 10],
+          ])
+    );
+
+    const quote = await negRisk.quoteBuyAllNo('group', 10);
+
+    expect(quote.legs[0]).toMatchObject({
+      marketSlug: 'apple',
+      tokenId: 'apple-no',
+      bestPrice: 0.6,
+      filledShares: 10,
+      filledCollateral: 6.5,
+      fullyFillable: true,
+    });
+    expect(quote.legs[2]).toMatchObject({ filledShares: 4, fullyFillable: false });
+    expect(quote).toMatchObject({
+      payout: 20,
+      totalCost: 16.6,
+      profit: null,
+      fullyFillable: false,
+    });
+
+    marketFetcher.getOrderBook.mockResolvedValue(yesBook([[0.4, 100]]));
+    await expect(negRisk.quoteBuyAllNo('group', 10)).resolves.toMatchObject({
+      totalCost: 18,
+      profit: 2,
+      fullyFillable: true,
+    });
+  });
+});
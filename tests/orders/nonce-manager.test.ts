@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NonceManager } from '../../src/orders/nonce-manager';
+import { OrderClient } from '../../src/orders/client';
+import { OrderBuilder } from '../../src/orders/builder';
+import { OrderType, Side, type ExchangeNonceContract } from '../../src/types/orders';
+
+const MAKER = '0x0000000000000000000000000000000000000001';
+const EXCHANGE = '0xa4409D988CA2218d956BeEFD3874100F444f0DC3';
+
+/**
+ * In-memory exchange contract: `incrementNonce()` bumps the sender's nonce.
+ */
+class InMemoryExchange implements ExchangeNonceContract {
+  readonly state = new Map<string, bigint>();
+  reads = 0;
+
+  constructor(private readonly sender: string) {}
+
+  async nonces(maker: string): Promise<bigint> {
+    this.reads++;
+    return this.state.get(maker.toLowerCase()) ?? 0n;
+  }
+
+  async incrementNonce() {
+    const key = this.sender.toLowerCase();
+    return {
+      hash: '0xfeed',
+      wait: async () => {
+        this.state.set(key, (this.state.get(key) ?? 0n) + 1n);
+      },
+    };
+  }
+}
+
+describe('NonceManager', () => {
+  it('reads each maker/exchange nonce once and stamps it onto orders', async () => {
+    const exchange = new InMemoryExchange(MAKER);
+    exchange.state.set(MAKER, 3n);
+    const factory = vi.fn(() => exchange);
+    const manager = new NonceManager({ contractFactory: factory });
+
+    const order = new OrderBuilder(MAKER, 300).buildOrder({
+      tokenId: '123',
+      price: 0.5,
+      size: 10,
+      side: Side.BUY,
+    });
+    const [first, second] = await Promise.all([
+      manager.stampOrder(order, EXCHANGE),
+      manager.getNonce(MAKER, EXCHANGE.toLowerCase()),
+    ]);
+
+    expect(first).toEqual({ ...order, nonce: 3 });
+    expect(order.nonce).toBe(0);
+    expect(second).toBe(3);
+    expect(exchange.reads).toBe(1);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('increments the on-chain nonce and uses it for later orders', async () => {
+    const exchange = new InMemoryExchange(MAKER);
+    const manager = new NonceManager({ contractFactory: () => exchange });
+
+    expect(await manager.getNonce(MAKER, EXCHANGE)).toBe(0);
+    const result = await manager.invalidateAll(MAKER, EXCHANGE);
+
+    expect(result).toEqual({
+      exchange: EXCHANGE,
+      maker: MAKER,
+      previousNonce: 0,
+      nonce: 1,
+      transactionHash: '0xfeed',
+    });
+    expect(await manager.getNonce(MAKER, EXCHANGE)).toBe(1);
+  });
+
+  it('fails when the increment was sent by another address', async () => {
+    const exchange = new InMemoryExchange('0x0000000000000000000000000000000000000009');
+    const manager = new NonceManager({ contractFactory: () => exchange });
+
+    await expect(manager.invalidateAll(MAKER, EXCHANGE)).rejects.toThrow(
+      'must be sent by the maker'
+    );
+  });
+
+  it('does not cache failed reads', async () => {
+    const exchange = new InMemoryExchange(MAKER);
+    const nonces = vi
+      .spyOn(exchange, 'nonces')
+      .mockRejectedValueOnce(new Error('rpc down'))
+      .mockResolvedValueOnce(5n);
+    const manager = new NonceManager({ contractFactory: () => exchange });
+
+    await expect(manager.getNonce(MAKER, EXCHANGE)).rejects.toThrow('rpc down');
+    expect(await manager.getNonce(MAKER, EXCHANGE)).toBe(5);
+    expect(nonces).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a refreshed nonce when an earlier read fails later', async () => {
+    const exchange = new InMemoryExchange(MAKER);
+    let failRead!: (error: Error) => void;
+    const nonces = vi
+      .spyOn(exchange, 'nonces')
+      .mockReturnValueOnce(new Promise((_, reject) => (failRead = reject)))
+      .mockResolvedValueOnce(7n);
+    const manager = new NonceManager({ contractFactory: () => exchange });
+
+    const stale = manager.getNonce(MAKER, EXCHANGE);
+    const refreshed = await manager.refresh(MAKER, EXCHANGE);
+    failRead(new Error('rpc down'));
+    await expect(stale).rejects.toThrow('rpc down');
+
+    expect(refreshed).toBe(7);
+    expect(await manager.getNonce(MAKER, EXCHANGE)).toBe(7);
+    expect(nonces).toHaveBeenCalledTimes(2);
+  });
+
+  it('requires a runner or contract factory', () => {
+    expect(() => new NonceManager({})).toThrow('requires a runner or contractFactory');
+  });
+
+  it('stamps OrderClient orders and invalidates through the market venue', async () => {
+    const exchange = new InMemoryExchange(MAKER);
+    exchange.state.set(MAKER, 7n);
+    const httpClient = {
+      post: vi.fn().mockImplementation(async (_path: string, payload: any) => ({
+        order: { ...payload.order, id: 'order-1', createdAt: '2026-01-01T00:00:00.000Z' },
+      })),
+    } as any;
+    const client = new OrderClient({
+      httpClient,
+      wallet: { address: MAKER } as any,
+      nonceManager: new NonceManager({ contractFactory: () => exchange }),
+    });
+    (client as any).cachedUserData = { userId: 42, feeRateBps: 300 };
+    (client as any).orderBuilder = new OrderBuilder(MAKER, 300);
+    (client as any).orderSigner = { signOrder: vi.fn().mockResolvedValue('0xsig') };
+    (client as any).marketFetcher = {
+      getOrderConstraints: vi
+        .fn()
+        .mockReturnValue({ tickSize: 0.001, minSize: 0, maxSpread: null }),
+      getVenue: vi.fn().mockReturnValue({ exchange: EXCHANGE, adapter: null }),
+    };
+
+    const order = {
+      tokenId: '123',
+      price: 0.5,
+      size: 10,
+      side: Side.BUY,
+      orderType: OrderType.GTC,
+      marketSlug: 'market',
+    } as const;
+
+    await client.createOrder(order);
+    await client.createOrder({ ...order, nonce: 2 });
+    const result = await client.invalidateAllOrders('market');
+    await client.createOrder(order);
+
+    const nonces = httpClient.post.mock.calls.map((call: any[]) => call[1].order.nonce);
+    expect(nonces).toEqual([7, 2, 8]);
+    expect(result.nonce).toBe(8);
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OrderBuilder } from '../../src/orders/builder';
+import { OrderClient } from '../../src/orders/client';
+import {
+  InsufficientLiquidityError,
+  buildOrderPreview,
+  orientOrderBook,
+  quoteMarketOrder,
+} from '../../src/orders/preview';
+import { OrderType, Side, type CreateOrderParams } from '../../src/types/orders';
+import type { OrderBook } from '../../src/types/markets';
+
+const WALLET_ADDRESS = '0x0000000000000000000000000000000000000001';
+const YES_TOKEN = '111';
+const NO_TOKEN = '222';
+const ORDER_CONSTRAINTS = { tickSize: 0.001, minSize: 0, maxSpread: null };
+
+const orderBook: OrderBook = {
+  tokenId: YES_TOKEN,
+  bids: [
+    { price: 0.48, size: 10, side: 'BUY' },
+    { price: 0.5, size: 5, side: 'BUY' },
+  ],
+  asks: [
+    { price: 0.55, size: 20, side: 'SELL' },
+    { price: 0.52, size: 10, side: 'SELL' },
+  ],
+  adjustedMidpoint: 0.51,
+  maxSpread: '0.1',
+  minSize: '1',
+  lastTradePrice: 0.51,
+};
+
+const builder = new OrderBuilder(WALLET_ADDRESS, 300);
+
+function preview(params: CreateOrderParams) {
+  return buildOrderPreview(params, builder.buildOrder(params), orderBook);
+}
+
+describe('buildOrderPreview', () => {
+  it('splits a crossing GTC buy into expected fills and a resting remainder', () => {
+    const result = preview({
+      tokenId: YES_TOKEN,
+      price: 0.53,
+      size: 15,
+      side: Side.BUY,
+      orderType: OrderType.GTC,
+      marketSlug: 'market',
+    });
+
+    expect(result.collateral).toBe(7.95);
+    expect(result.shares).toBe(15);
+    expect(result.fee).toBe(0.2385);
+    expect(result.fills).toEqual([{ price: 0.52, size: 10, cost: 5.2 }]);
+    expect(result.restingShares).toBe(5);
+    expect(result.fullyFillable).toBe(false);
+  });
+
+  it('reports whether the book can fill a FOK order', () => {
+    const fillable = preview({
+      tokenId: YES_TOKEN,
+      makerAmount: 10.7,
+      side: Side.BUY,
+      orderType: OrderType.FOK,
+      marketSlug: 'market',
+    });
+
+    expect(fillable.fullyFillable).toBe(true);
+    expect(fillable.fills).toEqual([
+      { price: 0.52, size: 10, cost: 5.2 },
+      { price: 0.55, size: 10, cost: 5.5 },
+    ]);
+    expect(fillable.shares).toBe(20);
+    expect(fillable.averageFillPrice).toBe(0.535);
+
+    const tooLarge = preview({
+      tokenId: YES_TOKEN,
+      makerAmount: 20,
+      side: Side.SELL,
+      orderType: OrderType.FOK,
+      marketSlug: 'market',
+    });
+
+    expect(tooLarge.fullyFillable).toBe(false);
+    expect(tooLarge.filledShares).toBe(15);
+    expect(tooLarge.collateral).toBe(7.3);
+  });
+
+  it('mirrors the YES book for NO token orders', () => {
+    const book = orientOrderBook(orderBook, NO_TOKEN);
+
+    expect(book.asks.map((level) => level.price)).toEqual([0.5, 0.52]);
+    expect(book.bids.map((level) => level.price)).toEqual([0.48, 0.45]);
+  });
+});
+
+describe('quoteMarketOrder', () => {
+  it('caps the limit price at the allowed slippage and sizes BUY orders to the budget', () => {
+    const quote = quoteMarketOrder(orientOrderBook(orderBook, YES_TOKEN), Side.BUY, 10, 500);
+
+    expect(quote.bestPrice).toBe(0.52);
+    expect(quote.limitPrice).toBe(0.546);
+    expect(quote.size).toBe(18.315);
+    expect(quote.filledShares).toBe(10);
+    expect(quote.fullyFillable).toBe(false);
+  });
+
+  it('rounds SELL limits up and walks bids down to the limit', () => {
+    const quote = quoteMarketOrder(orientOrderBook(orderBook, YES_TOKEN), Side.SELL, 8, 400);
+
+    expect(quote.limitPrice).toBe(0.48);
+    expect(quote.size).toBe(8);
+    expect(quote.filledCollateral).toBe(3.94);
+    expect(quote.fullyFillable).toBe(true);
+  });
+
+  it('throws when the book side is empty or the input is invalid', () => {
+    const emptyBook = { tokenId: YES_TOKEN, bids: [], asks: [] };
+
+    expect(() => quoteMarketOrder(emptyBook, Side.BUY, 10, 100)).toThrow(
+      InsufficientLiquidityError
+    );
+    expect(() => quoteMarketOrder(emptyBook, Side.BUY, 10, -1)).toThrow('Invalid maxSlippageBps');
+  });
+});
+
+describe('OrderClient.previewOrder', () => {
+  it('uses the real builder and orderbook without signing or submitting', async () => {
+    const httpClient = { post: vi.fn() };
+    const client = new OrderClient({
+      httpClient: httpClient as any,
+      wallet: { address: WALLET_ADDRESS } as any,
+    });
+    const signOrder = vi.fn();
+    (client as any).cachedUserData = { userId: 42, feeRateBps: 300 };
+    (client as any).orderBuilder = builder;
+    (client as any).orderSigner = { signOrder };
+    (client as any).marketFetcher = {
+      getOrderBook: vi.fn().mockResolvedValue(orderBook),
+      getOrderConstraints: vi.fn().mockReturnValue(ORDER_CONSTRAINTS),
+    };
+
+    const result = await client.previewOrder({
+      tokenId: NO_TOKEN,
+      price: 0.5,
+      size: 4,
+      side: Side.BUY,
+      orderType: OrderType.FAK,
+      marketSlug: 'market',
+    });
+
+    expect((client as any).marketFetcher.getOrderBook).toHaveBeenCalledWith('market');
+    expect(result.makerAmount).toBe(2000000);
+    expect(result.fullyFillable).toBe(true);
+    expect(result.restingShares).toBe(0);
+    expect(signOrder).not.toHaveBeenCalled();
+    expect(httpClient.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('OrderClient.marketBuy/marketSell', () => {
+  function createMarketOrderClient() {
+    const httpClient = {
+      post: vi.fn().mockImplementation(async (_path: string, payload: any) => ({
+        order: {
+          ...payload.order,
+          id: 'order-1',
+          createdAt: null,
+          orderType: payload.orderType,
+          marketId: 1,
+        },
+      })),
+    };
+    const client = new OrderClient({
+      httpClient: httpClient as any,
+      wallet: { address: WALLET_ADDRESS } as any,
+    });
+    (client as any).cachedUserData = { userId: 42, feeRateBps: 300 };
+    (client as any).orderBuilder = builder;
+    (client as any).orderSigner = { signOrder: vi.fn().mockResolvedValue(`0x${'a'.repeat(130)}`) };
+    (client as any).marketFetcher = {
+      getTokens: vi.fn().mockReturnValue({ yes: YES_TOKEN, no: NO_TOKEN }),
+      getOrderBook: vi.fn().mockResolvedValue(orderBook),
+      getOrderConstraints: vi.fn().mockReturnValue(ORDER_CONSTRAINTS),
+      getVenue: vi
+        .fn()
+        .mockReturnValue({ exchange: '0x0000000000000000000000000000000000000002', adapter: null }),
+    };
+    return { client, httpClient };
+  }
+
+  it('submits a FAK limit order at the worst acceptable price', async () => {
+    const { client, httpClient } = createMarketOrderClient();
+
+    const result = await client.marketBuy('market', 'YES', 10, { maxSlippageBps: 500 });
+
+    const payload = httpClient.post.mock.calls[0][1];
+    expect(payload.orderType).toBe(OrderType.FAK);
+    expect(payload.order.tokenId).toBe(YES_TOKEN);
+    expect(payload.order.price).toBe(0.546);
+    expect(payload.order.makerAmount).toBeLessThanOrEqual(10_000_000);
+    expect(result.quote.limitPrice).toBe(0.546);
+  });
+
+  it('sells the NO token against the mirrored book', async () => {
+    const { client, httpClient } = createMarketOrderClient();
+
+    await client.marketSell('market', 'NO', 5, { maxSlippageBps: 100 });
+
+    const payload = httpClient.post.mock.calls[0][1];
+    expect(payload.order.tokenId).toBe(NO_TOKEN);
+    expect(payload.order.price).toBe(0.476);
+  });
+
+  it('signs FOK orders with the limit price enforced', async () => {
+    const { client, httpClient } = createMarketOrderClient();
+
+    const result = await client.marketBuy('market', 'YES', 5, {
+      maxSlippageBps: 500,
+      orderType: OrderType.FOK,
+    });
+
+    const payload = httpClient.post.mock.calls[0][1];
+    expect(payload.orderType).toBe(OrderType.FOK);
+    expect(payload.order.price).toBe(0.546);
+    expect(payload.order.takerAmount).toBe(Math.round(result.quote.size * 1e6));
+    expect(payload.order.makerAmount / payload.order.takerAmount).toBeLessThanOrEqual(0.546);
+  });
+
+  it('refuses FOK orders the book cannot fill within the limit', async () => {
+    const { client, httpClient } = createMarketOrderClient();
+
+    await expect(
+      client.marketBuy('market', 'YES', 10, { maxSlippageBps: 500, orderType: OrderType.FOK })
+    ).rejects.toBeInstanceOf(InsufficientLiquidityError);
+    expect(httpClient.post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RiskLimitError, RiskManager, toRiskOrder } from '../../src/orders/risk-manager';
+import { OrderType, Side } from '../../src/types/orders';
+import { ManualClock } from '../execution/manual-clock';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function position(slug: string, marketValue: number, pnl: number) {
+  const side = (value: number, unrealized: number) => ({
+    cost: '0',
+    fillPrice: '0',
+    marketValue: String(value * 1e6),
+    realisedPnl: '0',
+    unrealizedPnl: String(unrealized * 1e6),
+  });
+  return {
+    market: { slug },
+    positions: { yes: side(marketValue, pnl), no: side(0, 0) },
+  };
+}
+
+function createPortfolioFetcher(positions: any[]) {
+  return { getCLOBPositions: vi.fn().mockImplementation(async () => positions) };
+}
+
+function order(overrides: Record<string, unknown> = {}) {
+  return {
+    marketSlug: 'market',
+    tokenId: '123',
+    side: Side.BUY,
+    orderType: OrderType.GTC,
+    price: 0.5,
+    notional: 50,
+    ...overrides,
+  } as any;
+}
+
+describe('RiskManager', () => {
+  it('describes built orders by the collateral they move', () => {
+    const built = { tokenId: '123', makerAmount: 5_500_000, takerAmount: 10_000_000, price: 0.55 };
+
+    expect(toRiskOrder('market', OrderType.GTC, { ...built, side: Side.BUY } as any)).toMatchObject(
+      {
+        notional: 5.5,
+        price: 0.55,
+      }
+    );
+    const sell = { ...built, makerAmount: 10_000_000, takerAmount: 5_500_000, side: Side.SELL };
+    expect(toRiskOrder('market', OrderType.GTC, sell as any).notional).toBeCloseTo(5.5);
+  });
+
+  it('values FOK SELL orders by their shares rather than the placeholder takerAmount', async () => {
+    const fokSell = {
+      tokenId: '123',
+      makerAmount: 100_000_000,
+      takerAmount: 1,
+      side: Side.SELL,
+    };
+    const riskOrder = toRiskOrder('market', OrderType.FOK, fokSell as any);
+    expect(riskOrder).toMatchObject({ notional: 100, shares: 100 });
+
+    const marketFetcher = {
+      getOrderBook: vi.fn().mockResolvedValue({
+        tokenId: '123',
+        bids: [{ price: 0.58, size: 500 }],
+        asks: [{ price: 0.62, size: 500 }],
+      }),
+    };
+    const withBook = new RiskManager({
+      limits: { maxOrderNotional: 50 },
+      marketFetcher: marketFetcher as any,
+    });
+    await expect(withBook.checkOrder(riskOrder)).rejects.toMatchObject({
+      limit: 'maxOrderNotional',
+      actual: 60,
+    });
+    await expect(
+      withBook.checkOrder(
+        toRiskOrder('market', OrderType.FOK, { ...fokSell, makerAmount: 80_000_000 } as any)
+      )
+    ).resolves.toBeUndefined();
+
+    // Without an orderbook, shares are valued at the highest possible price
+    const withoutBook = new RiskManager({ limits: { maxOrderNotional: 80 } });
+    await expect(withoutBook.checkOrder(riskOrder)).rejects.toMatchObject({ actual: 100 });
+  });
+
+  it('rejects orders above the max notional with the limit that tripped', async () => {
+    const riskManager = new RiskManager({ limits: { maxOrderNotional: 100 } });
+
+    await expect(riskManager.checkOrder(order({ notional: 100 }))).resolves.toBeUndefined();
+    const error = await riskManager.checkOrder(order({ notional: 150 })).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RiskLimitError);
+    expect(error).toMatchObject({
+      limit: 'maxOrderNotional',
+      limitValue: 100,
+      actual: 150,
+      marketSlug: 'market',
+    });
+    expect(error.message).toContain('maxOrderNotional');
+  });
+
+  it('counts positions and local open BUY orders towards market exposure', async () => {
+    const portfolioFetcher = createPortfolioFetcher([position('market', 120, 0)]);
+    const riskManager = new RiskManager({
+      limits: { maxMarketExposure: 250 },
+      portfolioFetcher: portfolioFetcher as any,
+    });
+
+    riskManager.recordOrder('open-1', order({ notional: 60 }));
+    riskManager.recordOrder('fak-1', order({ notional: 60, orderType: OrderType.FAK }));
+    riskManager.recordOrder('sell-1', order({ notional: 60, side: Side.SELL }));
+
+    await expect(riskManager.checkOrder(order({ notional: 70 }))).resolves.toBeUndefined();
+    await expect(riskManager.checkOrder(order({ notional: 71 }))).rejects.toMatchObject({
+      limit: 'maxMarketExposure',
+      actual: 251,
+    });
+    // SELL orders reduce exposure and pass
+    await expect(
+      riskManager.checkOrder(order({ notional: 500, side: Side.SELL }))
+    ).resolves.toBeUndefined();
+    // A replacement does not count the order it replaces
+    await expect(
+      riskManager.checkOrder(order({ notional: 130, replacesOrderId: 'open-1' }))
+    ).resolves.toBeUndefined();
+
+    riskManager.releaseOrder('open-1');
+    await expect(riskManager.checkOrder(order({ notional: 130 }))).resolves.toBeUndefined();
+    expect(portfolioFetcher.getCLOBPositions).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts reservations towards market exposure until they are released', async () => {
+    const riskManager = new RiskManager({
+      limits: { maxMarketExposure: 100 },
+      portfolioFetcher: createPortfolioFetcher([]) as any,
+    });
+
+    const [first, second] = await Promise.all([
+      riskManager.reserveOrder(order({ notional: 60 })),
+      riskManager.checkOrder(order({ notional: 40 })),
+    ]);
+    expect(second).toBeUndefined();
+    expect(riskManager.getOpenExposure('market')).toBe(60);
+    await expect(riskManager.reserveOrder(order({ notional: 41 }))).rejects.toMatchObject({
+      limit: 'maxMarketExposure',
+    });
+    expect(riskManager.getOpenExposure('market')).toBe(60);
+
+    expect(riskManager.releaseReservation(first)).toBe(true);
+    expect(riskManager.releaseReservation(first)).toBe(false);
+    expect(riskManager.getOpenExposure('market')).toBe(0);
+  });
+
+  it('blocks BUY orders once the daily loss is reached and resets the next UTC day', async () => {
+    const clock = new ManualClock();
+    const positions = [position('market', 100, 40)];
+    const riskManager = new RiskManager({
+      limits: { maxDailyLoss: 25 },
+      portfolioFetcher: createPortfolioFetcher(positions) as any,
+      positionsTtlMs: 0,
+      clock,
+    });
+
+    await riskManager.checkOrder(order());
+    positions[0] = position('market', 70, 10);
+    await clock.advance(60_000);
+
+    await expect(riskManager.checkOrder(order())).rejects.toMatchObject({
+      limit: 'maxDailyLoss',
+      actual: 30,
+    });
+    await expect(riskManager.checkOrder(order({ side: Side.SELL }))).resolves.toBeUndefined();
+
+    await clock.advance(DAY_MS);
+    await expect(riskManager.checkOrder(order())).resolves.toBeUndefined();
+    expect(await riskManager.getDailyLoss()).toBe(0);
+  });
+
+  it('keeps the P&L of positions that close during the day', async () => {
+    const clock = new ManualClock();
+    const positions = [position('market', 100, 40), position('other', 50, -5)];
+    const riskManager = new RiskManager({
+      limits: { maxDailyLoss: 25 },
+      portfolioFetcher: createPortfolioFetcher(positions) as any,
+      positionsTtlMs: 0,
+      clock,
+    });
+
+    await riskManager.checkOrder(order());
+    // market closes and drops out of the open positions; its last P&L (40) still counts
+    positions.splice(0, 1);
+    await clock.advance(60_000);
+    expect(await riskManager.getDailyLoss()).toBe(0);
+    await expect(riskManager.checkOrder(order())).resolves.toBeUndefined();
+
+    positions[0] = position('other', 20, -35);
+    expect(await riskManager.getDailyLoss()).toBe(30);
+  });
+
+  it('rejects limit prices outside the band around the token mid', async () => {
+    const marketFetcher = {
+      getOrderBook: vi.fn().mockResolvedValue({
+        tokenId: '123',
+        bids: [{ price: 0.58, size: 10 }],
+        asks: [{ price: 0.62, size: 10 }],
+        adjustedMidpoint: 0.6,
+      }),
+    };
+    const riskManager = new RiskManager({
+      limits: { priceBand: 0.05 },
+      marketFetcher: marketFetcher as any,
+    });
+
+    await expect(riskManager.checkOrder(order({ price: 0.65 }))).resolves.toBeUndefined();
+    await expect(riskManager.checkOrder(order({ price: 0.66 }))).rejects.toMatchObject({
+      limit: 'priceBand',
+    });
+    // NO token mid is 0.40
+    await expect(
+      riskManager.checkOrder(order({ tokenId: '456', side: Side.SELL, price: 0.36 }))
+    ).resolves.toBeUndefined();
+    await expect(
+      riskManager.checkOrder(order({ tokenId: '456', price: 0.6 }))
+    ).rejects.toBeInstanceOf(RiskLimitError);
+    // Orders without a limit price are not checked
+    await expect(riskManager.checkOrder(order({ price: undefined }))).resolves.toBeUndefined();
+  });
+
+  it('requires the data source for each limit', () => {
+    expect(() => new RiskManager({ limits: { maxDailyLoss: 10 } })).toThrow('portfolioFetcher');
+    expect(() => new RiskManager({ limits: { priceBand: 0.1 } })).toThrow('marketFetcher');
+    expect(() => new RiskManager({ limits: { maxOrderNotional: -1 } })).toThrow(
+      'Invalid risk limit'
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  OrderSigner,
+  hashOrder,
+  recoverOrderSigner,
+  verifyOrderSignature,
+} from '../../src/orders/signer';
+import { Side, SignatureType, type CreatedOrder, type UnsignedOrder } from '../../src/types/orders';
+
+const wallet = new ethers.Wallet(
+  '0x59c6995e998f97a5a0044966f0945382d7f33b94d8538d9f1fd7055c77a46f6c'
+);
+
+const signingConfig = {
+  chainId: 8453,
+  contractAddress: '0xa4409D988CA2218d956BeEFD3874100F444f0DC3',
+};
+
+const unsignedOrder: UnsignedOrder = {
+  salt: 1742000000000000,
+  maker: wallet.address,
+  signer: wallet.address,
+  taker: ethers.ZeroAddress,
+  tokenId: '123',
+  makerAmount: 5500000,
+  takerAmount: 10000000,
+  expiration: '0',
+  nonce: 0,
+  feeRateBps: 300,
+  side: Side.BUY,
+  signatureType: SignatureType.EOA,
+  price: 0.55,
+};
+
+function toApiOrder(signature: string): CreatedOrder {
+  return {
+    id: 'order-1',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    makerAmount: unsignedOrder.makerAmount,
+    takerAmount: unsignedOrder.takerAmount,
+    expiration: null,
+    signatureType: unsignedOrder.signatureType,
+    salt: String(unsignedOrder.salt),
+    maker: unsignedOrder.maker.toLowerCase(),
+    signer: unsignedOrder.signer.toLowerCase(),
+    taker: unsignedOrder.taker,
+    tokenId: unsignedOrder.tokenId,
+    side: unsignedOrder.side,
+    feeRateBps: unsignedOrder.feeRateBps,
+    nonce: unsignedOrder.nonce,
+    signature,
+    orderType: 'GTC',
+    price: 0.55,
+    marketId: 1,
+  };
+}
+
+describe('EIP-712 order hashing', () => {
+  it('hashes with the same domain and types the signer uses', async () => {
+    const signature = await new OrderSigner(wallet).signOrder(unsignedOrder, signingConfig);
+    const hash = hashOrder(unsignedOrder, signingConfig);
+
+    expect(hash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(ethers.recoverAddress(hash, signature)).toBe(wallet.address);
+    expect(recoverOrderSigner(unsignedOrder, signature, signingConfig)).toBe(wallet.address);
+  });
+
+  it('produces the same hash for API orders with string and null fields', async () => {
+    const signature = await new OrderSigner(wallet).signOrder(unsignedOrder, signingConfig);
+    const apiOrder = toApiOrder(signature);
+
+    expect(hashOrder(apiOrder, signingConfig)).toBe(hashOrder(unsignedOrder, signingConfig));
+    expect(verifyOrderSignature(apiOrder, apiOrder.signature, signingConfig)).toBe(true);
+  });
+
+  it('rejects tampered orders, other signers, other venues and malformed signatures', async () => {
+    const signature = await new OrderSigner(wallet).signOrder(unsignedOrder, signingConfig);
+
+    expect(
+      verifyOrderSignature({ ...unsignedOrder, makerAmount: 5600000 }, signature, signingConfig)
+    ).toBe(false);
+    expect(
+      verifyOrderSignature(
+        unsignedOrder,
+        signature,
+        signingConfig,
+        ethers.Wallet.createRandom().address
+      )
+    ).toBe(false);
+    expect(
+      verifyOrderSignature(unsignedOrder, signature, { ...signingConfig, chainId: 84532 })
+    ).toBe(false);
+    expect(verifyOrderSignature(unsignedOrder, '0x1234', signingConfig)).toBe(false);
+  });
+
+  it('throws on non-integer numeric fields', () => {
+    expect(() => hashOrder({ ...unsignedOrder, makerAmount: 1.5 }, signingConfig)).toThrow(
+      'Invalid order makerAmount'
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { OrderSigner } from '../../src/orders/signer';
+import {
+  CallbackSigningBackend,
+  Eip1193SigningBackend,
+  EthersSigningBackend,
+} from '../../src/orders/signing-backends';
+import { Side, SignatureType, type UnsignedOrder } from '../../src/types/orders';
+import type { TypedDataSigningRequest } from '../../src/types/signing';
+
+const wallet = new ethers.Wallet(
+  '0x59c6995e998f97a5a0044966f0945382d7f33b94d8538d9f1fd7055c77a46f6c'
+);
+
+const signingConfig = {
+  chainId: 8453,
+  contractAddress: '0xa4409D988CA2218d956BeEFD3874100F444f0DC3',
+};
+
+function buildOrder(signer: string = wallet.address): UnsignedOrder {
+  return {
+    salt: 1742000000000000,
+    maker: signer,
+    signer,
+    taker: ethers.ZeroAddress,
+    tokenId: '123',
+    makerAmount: 5500000,
+    takerAmount: 10000000,
+    expiration: '0',
+    nonce: 0,
+    feeRateBps: 300,
+    side: Side.BUY,
+    signatureType: SignatureType.EOA,
+    price: 0.55,
+  };
+}
+
+/**
+ * Signs an eth_signTypedData_v4 payload with the test wallet.
+ */
+async function signRequest(request: TypedDataSigningRequest): Promise<string> {
+  const { EIP712Domain: _domainType, ...types } = request.types;
+  return wallet.signTypedData(request.domain, types, request.message);
+}
+
+describe('Order signing backends', () => {
+  it('produces identical signatures for wallet, ethers, EIP-1193 and callback backends', async () => {
+    const expected = await new OrderSigner(wallet).signOrder(buildOrder(), signingConfig);
+
+    const provider = {
+      request: vi.fn(async ({ method, params }: { method: string; params?: any }) => {
+        if (method === 'eth_requestAccounts') {
+          return [wallet.address.toLowerCase()];
+        }
+        if (method === 'eth_signTypedData_v4') {
+          return signRequest(JSON.parse(params[1]));
+        }
+        throw new Error(`Unexpected method ${method}`);
+      }),
+    };
+
+    const backends = [
+      new EthersSigningBackend(wallet),
+      new Eip1193SigningBackend(provider),
+      new CallbackSigningBackend({ address: async () => wallet.address, sign: signRequest }),
+    ];
+
+    for (const backend of backends) {
+      const signature = await new OrderSigner(backend).signOrder(buildOrder(), signingConfig);
+      expect(signature).toBe(expected);
+    }
+
+    const [, typedData] = provider.request.mock.calls[1][0].params;
+    expect(JSON.parse(typedData).primaryType).toBe('Order');
+  });
+
+  it('keeps the address mismatch check for adapter backends', async () => {
+    const sign = vi.fn();
+    const backend = new CallbackSigningBackend({
+      address: '0x0000000000000000000000000000000000000009',
+      sign,
+    });
+
+    await expect(new OrderSigner(backend).signOrder(buildOrder(), signingConfig)).rejects.toThrow(
+      'Wallet address mismatch'
+    );
+    expect(sign).not.toHaveBeenCalled();
+  });
+
+  it('rejects EIP-1193 providers without accounts', async () => {
+    const backend = new Eip1193SigningBackend({ request: vi.fn().mockResolvedValue([]) });
+
+    await expect(backend.getAddress()).rejects.toThrow('returned no accounts');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OrderTracker, OrderWaitError } from '../../src/orders/tracker';
+import { Side } from '../../src/types/orders';
+import { ManualClock } from '../execution/manual-clock';
+
+/**
+ * Minimal event source standing in for WebSocketClient and OrderClient events.
+ */
+function createEmitter() {
+  const handlers = new Map<string, Set<(...args: any[]) => void>>();
+  return {
+    on: vi.fn((event: string, handler: (...args: any[]) => void) => {
+      if (!handlers.has(event)) handlers.set(event, new Set());
+      handlers.get(event)!.add(handler);
+    }),
+    off: vi.fn((event: string, handler: (...args: any[]) => void) => {
+      handlers.get(event)?.delete(handler);
+    }),
+    emit(event: string, ...args: any[]) {
+      handlers.get(event)?.forEach((handler) => handler(...args));
+    },
+  };
+}
+
+function setup(connected = true) {
+  const clock = new ManualClock();
+  const ws = { ...createEmitter(), isConnected: vi.fn(() => connected) };
+  const orderClient = { ...createEmitter(), getOrder: vi.fn() };
+  const tracker = new OrderTracker(ws as any, orderClient as any, {
+    clock,
+    pollIntervalMs: 1_000,
+  });
+  tracker.start();
+  return { clock, ws, orderClient, tracker };
+}
+
+function response(id: string, orderType = 'GTC', makerMatches?: Array<{ matchedSize: string }>) {
+  return {
+    order: {
+      id,
+      side: Side.BUY,
+      tokenId: '123',
+      makerAmount: 5_000_000,
+      takerAmount: 10_000_000,
+      orderType,
+    },
+    ...(makerMatches ? { makerMatches } : {}),
+  } as any;
+}
+
+function orderUpdate(orderId: string, status: string, filled: number) {
+  return {
+    orderId,
+    marketSlug: 'market',
+    side: 'BUY',
+    size: 10_000_000,
+    filled,
+    status,
+    timestamp: 0,
+  };
+}
+
+function fill(orderId: string, fillId: string, size: number) {
+  return { orderId, marketSlug: 'market', side: 'BUY', price: 0.5, size, timestamp: 0, fillId };
+}
+
+describe('OrderTracker', () => {
+  it('moves through partial fills to filled and resolves waitForFill', async () => {
+    const { ws, tracker } = setup();
+    const updates: string[] = [];
+    tracker.on('update', (order) => updates.push(order.status));
+
+    tracker.track(response('order-1'), 'market');
+    const wait = tracker.waitForFill('order-1', 60_000);
+
+    ws.emit('fill', fill('order-1', 'fill-1', 4_000_000));
+    ws.emit('fill', fill('order-1', 'fill-1', 4_000_000));
+    ws.emit('order', orderUpdate('order-1', 'OPEN', 0));
+    expect(tracker.getOrder('order-1')).toMatchObject({
+      status: 'PARTIALLY_FILLED',
+      filledSize: 4_000_000,
+      remainingSize: 6_000_000,
+    });
+
+    ws.emit('order', orderUpdate('order-1', 'FILLED', 10_000_000));
+    ws.emit('order', orderUpdate('order-1', 'CANCELLED', 10_000_000));
+
+    const filled = await wait;
+    expect(filled).toMatchObject({ status: 'FILLED', filledSize: 10_000_000 });
+    expect(filled.fills).toHaveLength(1);
+    expect(updates).toEqual(['PARTIALLY_FILLED', 'FILLED']);
+  });
+
+  it('rejects waitForFill when the order is cancelled or times out', async () => {
+    const { clock, ws, tracker } = setup();
+    tracker.track(response('order-1'));
+    tracker.track(response('order-2'));
+
+    const cancelled = tracker.waitForFill('order-1');
+    ws.emit('order', orderUpdate('order-1', 'CANCELLED', 2_000_000));
+    await expect(cancelled).rejects.toMatchObject({
+      name: 'OrderWaitError',
+      reason: 'cancelled',
+      order: { filledSize: 2_000_000 },
+    });
+
+    const timedOut = tracker.waitForFill('order-2', 5_000);
+    const assertion = expect(timedOut).rejects.toBeInstanceOf(OrderWaitError);
+    await clock.advance(5_000);
+    await assertion;
+    await expect(tracker.waitForFill('unknown')).rejects.toThrow('not tracked');
+  });
+
+  it('settles FOK and FAK orders from the submit response', async () => {
+    const { tracker } = setup();
+
+    expect(tracker.track(response('fok', 'FOK', [{ matchedSize: '10000000' }])).status).toBe(
+      'FILLED'
+    );
+    expect(tracker.track(response('fak', 'FAK', [{ matchedSize: '3000000' }]))).toMatchObject({
+      status: 'CANCELLED',
+      filledSize: 3_000_000,
+    });
+    await expect(tracker.waitForFill('fok')).resolves.toMatchObject({ orderId: 'fok' });
+  });
+
+  it('sizes unpriced FOK BUY orders from their matches', () => {
+    const { tracker } = setup();
+    const marketBuy = (id: string, matchedSizes: string[]) => {
+      const created = response(
+        id,
+        'FOK',
+        matchedSizes.map((matchedSize) => ({ matchedSize }))
+      );
+      created.order.takerAmount = 1;
+      return created;
+    };
+
+    expect(tracker.track(marketBuy('fok-buy', ['4000000', '5500000']))).toMatchObject({
+      status: 'FILLED',
+      size: 9_500_000,
+      filledSize: 9_500_000,
+      remainingSize: 0,
+    });
+    expect(tracker.track(marketBuy('fok-killed', []))).toMatchObject({
+      status: 'CANCELLED',
+      size: 0,
+      filledSize: 0,
+    });
+  });
+
+  it('polls over REST while disconnected and syncs once after reconnecting', async () => {
+    const { clock, ws, orderClient, tracker } = setup();
+    tracker.track(response('order-1'));
+    orderClient.getOrder.mockResolvedValue({
+      status: 'PARTIALLY_FILLED',
+      size: 10_000_000,
+      filledSize: 5_000_000,
+    });
+
+    await clock.advance(5_000);
+    expect(orderClient.getOrder).not.toHaveBeenCalled();
+
+    ws.emit('disconnect', 'transport close');
+    await clock.advance(2_000);
+    expect(orderClient.getOrder).toHaveBeenCalledTimes(2);
+    expect(tracker.getOrder('order-1')?.filledSize).toBe(5_000_000);
+
+    orderClient.getOrder.mockResolvedValue({
+      status: 'FILLED',
+      size: 10_000_000,
+      filledSize: 10_000_000,
+    });
+    ws.emit('connect');
+    await clock.advance(0);
+    expect(orderClient.getOrder).toHaveBeenCalledTimes(3);
+    expect(tracker.getOrder('order-1')?.status).toBe('FILLED');
+
+    await clock.advance(5_000);
+    expect(orderClient.getOrder).toHaveBeenCalledTimes(3);
+  });
+
+  it('marks orders expired from OrderClient events', async () => {
+    const { orderClient, tracker } = setup();
+    tracker.track(response('order-1'));
+    const wait = tracker.waitForFill('order-1');
+
+    orderClient.emit('orderExpired', {
+      orderId: 'order-1',
+      marketSlug: 'market',
+      expiration: 0,
+      cancelled: true,
+    });
+
+    await expect(wait).rejects.toMatchObject({ reason: 'expired' });
+    expect(tracker.prune()).toBe(1);
+    expect(tracker.getOrders()).toEqual([]);
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TriggerEngine } from '../../src/triggers/engine';
+import { OrderValidationError } from '../../src/orders/validator';
+import { OrderType, Side } from '../../src/types/orders';
+import type { TriggerParams } from '../../src/types/triggers';
+
+/**
+ * WebSocket client stub that lets tests emit events to registered handlers.
+ */
+function createWsClient() {
+  const handlers = new Map<string, Set<(data: any) => void>>();
+  return {
+    on: vi.fn((event: string, handler: (data: any) => void) => {
+      if (!handlers.has(event)) handlers.set(event, new Set());
+      handlers.get(event)!.add(handler);
+    }),
+    off: vi.fn((event: string, handler: (data: any) => void) => {
+      handlers.get(event)?.delete(handler);
+    }),
+    emit(event: string, data: any) {
+      handlers.get(event)?.forEach((handler) => handler(data));
+    },
+  };
+}
+
+function createOrderClient() {
+  let id = 0;
+  return {
+    createOrder: vi.fn().mockImplementation(async () => ({ order: { id: `order-${++id}` } })),
+  };
+}
+
+function book(bid: number | undefined, ask: number | undefined, marketSlug = 'market') {
+  return {
+    marketSlug,
+    orderbook: {
+      tokenId: '123',
+      bids:
+        bid === undefined
+          ? []
+          : [
+              { price: bid - 0.01, size: 5 },
+              { price: bid, size: 10 },
+            ],
+      asks: ask === undefined ? [] : [{ price: ask, size: 10 }],
+      adjustedMidpoint: 0.5,
+      maxSpread: 0.05,
+      minSize: 1,
+    },
+    timestamp: new Date(),
+  };
+}
+
+const exitOrder = {
+  marketSlug: 'market',
+  tokenId: '123',
+  side: Side.SELL,
+  price: 0.01,
+  size: 100,
+  orderType: OrderType.FAK,
+};
+
+const stopLoss: TriggerParams = {
+  kind: 'stopLoss',
+  triggerPrice: 0.3,
+  outcome: 'YES',
+  order: exitOrder,
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('TriggerEngine', () => {
+  it('fires a SELL stop-loss once when the mid falls to the trigger price', async () => {
+    const ws = createWsClient();
+    const orderClient = createOrderClient();
+    const engine = new TriggerEngine(ws as any, orderClient as any);
+    const fired = vi.fn();
+    engine.on('fired', fired);
+
+    const trigger = engine.addTrigger(stopLoss);
+    engine.start();
+
+    ws.emit('orderbookUpdate', book(0.33, 0.35));
+    ws.emit('orderbookUpdate', book(0.3, undefined));
+    expect(orderClient.createOrder).not.toHaveBeenCalled();
+
+    ws.emit('orderbookUpdate', book(0.29, 0.31));
+    ws.emit('orderbookUpdate', book(0.2, 0.22));
+    await flush();
+
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+    expect(orderClient.createOrder).toHaveBeenCalledWith(exitOrder);
+    expect(engine.getTrigger(trigger.id)).toMatchObject({
+      status: 'fired',
+      orderId: 'order-1',
+      triggeredPrice: 0.3,
+    });
+    expect(fired).toHaveBeenCalledWith(expect.objectContaining({ id: trigger.id }), {
+      order: { id: 'order-1' },
+    });
+  });
+
+  it('derives NO best bids from the YES asks and ignores other markets', async () => {
+    const ws = createWsClient();
+    const orderClient = createOrderClient();
+    const engine = new TriggerEngine(ws as any, orderClient as any);
+    engine.addTrigger({
+      kind: 'takeProfit',
+      triggerPrice: 0.6,
+      priceSource: 'bestBid',
+      outcome: 'NO',
+      order: { ...exitOrder, tokenId: '456', price: 0.59 },
+    });
+    engine.start();
+
+    ws.emit('orderbookUpdate', book(0.3, 0.35, 'other-market'));
+    ws.emit('orderbookUpdate', book(0.3, 0.45));
+    await flush();
+    expect(orderClient.createOrder).not.toHaveBeenCalled();
+
+    // Best YES ask 0.40 -> best NO bid 0.60
+    ws.emit('orderbookUpdate', book(0.3, 0.4));
+    await flush();
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('evaluates lastTrade triggers on AMM price data', async () => {
+    const ws = createWsClient();
+    const orderClient = createOrderClient();
+    const engine = new TriggerEngine(ws as any, orderClient as any);
+    engine.addTrigger({
+      ...stopLoss,
+      priceSource: 'lastTrade',
+      marketAddress: '0xAbC0000000000000000000000000000000000001',
+      order: { ...exitOrder, side: Side.BUY, price: 0.99 },
+    });
+    engine.start();
+
+    const priceData = (yesPrice: number) => ({
+      marketAddress: '0xabc0000000000000000000000000000000000001',
+      updatedPrices: [
+        {
+          marketId: 1,
+          marketAddress: '0xabc0000000000000000000000000000000000001',
+          yesPrice,
+          noPrice: 1 - yesPrice,
+        },
+      ],
+      blockNumber: 1,
+      timestamp: new Date(),
+    });
+
+    // A BUY stop fires on a rising price
+    ws.emit('newPriceData', priceData(0.25));
+    await flush();
+    expect(orderClient.createOrder).not.toHaveBeenCalled();
+
+    ws.emit('newPriceData', priceData(0.31));
+    await flush();
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels the OCO sibling once one order is accepted', async () => {
+    const ws = createWsClient();
+    const orderClient = createOrderClient();
+    const engine = new TriggerEngine(ws as any, orderClient as any);
+    const cancelled = vi.fn();
+    engine.on('cancelled', cancelled);
+
+    const [stop, takeProfit] = engine.addOcoPair(stopLoss, {
+      kind: 'takeProfit',
+      triggerPrice: 0.7,
+      outcome: 'YES',
+      order: { ...exitOrder, price: 0.69 },
+    });
+    engine.start();
+
+    ws.emit('orderbookUpdate', book(0.72, 0.74));
+    // Held while the take-profit is being submitted
+    ws.emit('orderbookUpdate', book(0.1, 0.12));
+    await flush();
+
+    expect(orderClient.createOrder).toHaveBeenCalledTimes(1);
+    expect(engine.getTrigger(takeProfit.id)?.status).toBe('fired');
+    expect(engine.getTrigger(stop.id)?.status).toBe('cancelled');
+    expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ id: stop.id }));
+    expect(stop.ocoGroupId).toBe(takeProfit.ocoGroupId);
+  });
+
+  it('keeps the OCO sibling active when the order is rejected', async () => {
+    const ws = createWsClient();
+    const orderClient = createOrderClient();
+    orderClient.createOrder.mockRejectedValueOnce(new Error('Insufficient balance'));
+    const engine = new TriggerEngine(ws as any, orderClient as any);
+    const failed = vi.fn();
+    engine.on('failed', failed);
+
+    const [stop, takeProfit] = engine.addOcoPair(stopLoss, {
+      ...stopLoss,
+      kind: 'takeProfit',
+      triggerPrice: 0.7,
+    });
+    engine.start();
+
+    ws.emit('orderbookUpdate', book(0.2, 0.22));
+    await flush();
+
+    expect(engine.getTrigger(stop.id)).toMatchObject({
+      status: 'failed',
+      error: 'Insufficient balance',
+    });
+    expect(engine.getTrigger(takeProfit.id)?.status).toBe('active');
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: stop.id }),
+      expect.any(Error)
+    );
+  });
+
+  it('persists state and restores interrupted triggers as failed', async () => {
+    const ws = createWsClient();
+    const orderClient = createOrderClient();
+    let resolveOrder!: (value: any) => void;
+    orderClient.createOrder.mockReturnValueOnce(new Promise((resolve) => (resolveOrder = resolve)));
+    const engine = new TriggerEngine(ws as any, orderClient as any);
+    const states: any[] = [];
+    engine.on('change', (state) => states.push(JSON.parse(JSON.stringify(state))));
+
+    const firing = engine.addTrigger({ ...stopLoss, id: 'stop-1' });
+    engine.addTrigger({ ...stopLoss, id: 'stop-2', order: { ...exitOrder, marketSlug: 'other' } });
+    engine.start();
+    ws.emit('orderbookUpdate', book(0.2, 0.22));
+
+    const saved = states[states.length - 1];
+    expect(saved.triggers.map((t: any) => t.status)).toEqual(['firing', 'active']);
+
+    const restored = new TriggerEngine(ws as any, orderClient as any, { state: saved });
+    expect(restored.getTrigger(firing.id)).toMatchObject({ status: 'failed' });
+    expect(restored.getTrigger('stop-2')).toMatchObject({
+      status: 'active',
+      order: { ...exitOrder, marketSlug: 'other' },
+    });
+
+    resolveOrder({ order: { id: 'order-1' } });
+    await flush();
+    expect(engine.prune()).toBe(1);
+    expect(engine.getTriggers().map((t) => t.id)).toEqual(['stop-2']);
+  });
+
+  it('stops listening on stop()', async () => {
+    const ws = createWsClient();
+    const orderClient = createOrderClient();
+    const engine = new TriggerEngine(ws as any, orderClient as any);
+    engine.addTrigger(stopLoss);
+    engine.start();
+    engine.stop();
+
+    ws.emit('orderbookUpdate', book(0.2, 0.22));
+    await flush();
+    expect(orderClient.createOrder).not.toHaveBeenCalled();
+    expect(engine.cancelTrigger(engine.getTriggers()[0].id)).toBe(true);
+  });
+
+  it('validates trigger parameters', () => {
+    const engine = new TriggerEngine(createWsClient() as any, createOrderClient() as any);
+
+    expect(() => engine.addTrigger({ ...stopLoss, triggerPrice: 1 })).toThrow(OrderValidationError);
+    expect(() => engine.addTrigger({ ...stopLoss, priceSource: 'lastTrade' })).toThrow(
+      'marketAddress is required'
+    );
+    engine.addTrigger({ ...stopLoss, id: 'stop' });
+    expect(() => engine.addTrigger({ ...stopLoss, id: 'stop' })).toThrow('Duplicate trigger ID');
+  });
+});
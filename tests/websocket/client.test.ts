@@ -34,6 +34,7 @@ describe('WebSocketClient HMAC auth', () => {
       emit: vi.fn(),
       disconnect: vi.fn(),
       removeAllListeners: vi.fn(),
+      onAny: vi.fn(),
       timeout: vi.fn(() => ({ emitWithAck: vi.fn() })),
       io: {
         on: vi.fn(),
@@ -91,6 +92,7 @@ describe('WebSocketClient HMAC auth', () => {
       emit: vi.fn(),
       disconnect: vi.fn(),
       removeAllListeners: vi.fn(),
+      onAny: vi.fn(),
       timeout: vi.fn(() => ({ emitWithAck: vi.fn() })),
       io: {
         on: vi.fn(),
@@ -133,6 +135,7 @@ describe('WebSocketClient HMAC auth', () => {
       emit: vi.fn(),
       disconnect: vi.fn(),
       removeAllListeners: vi.fn(),
+      onAny: vi.fn(),
       timeout: vi.fn(() => ({ emitWithAck: vi.fn() })),
       io: {
         on: vi.fn(),
@@ -160,3 +163,250 @@ describe('WebSocketClient HMAC auth', () => {
     expect(socketStub.on).toHaveBeenCalledWith('marketResolved', resolvedHandler);
   });
 });
+
+describe('WebSocketClient subscription registry', () => {
+  beforeEach(() => {
+    ioMock.mockReset();
+  });
+
+  async function connectClient() {
+    const handlers = new Map<string, (...args: any[]) => void>();
+    const ioHandlers = new Map<string, (...args: any[]) => void>();
+    const emitWithAck = vi.fn().mockResolvedValue(undefined);
+    const socketStub: any = {
+      connected: false,
+      once: vi.fn((event: string, handler: (...args: any[]) => void) => {
+        handlers.set(`once:${event}`, handler);
+      }),
+      on: vi.fn((event: string, handler: (...args: any[]) => void) => {
+        handlers.set(event, handler);
+      }),
+      off: vi.fn(),
+      emit: vi.fn(),
+      disconnect: vi.fn(),
+      removeAllListeners: vi.fn(),
+      onAny: vi.fn(),
+      timeout: vi.fn(() => ({ emitWithAck })),
+      io: {
+        on: vi.fn((event: string, handler: (...args: any[]) => void) => {
+          ioHandlers.set(event, handler);
+        }),
+      },
+    };
+    ioMock.mockReturnValue(socketStub);
+
+    const { WebSocketClient } = await import('../../src/websocket/client');
+    const client = new WebSocketClient({ url: 'wss://ws.limitless.exchange' });
+    const connectPromise = client.connect();
+    socketStub.connected = true;
+    handlers.get('once:connect')?.();
+    await connectPromise;
+
+    return { client, socketStub, ioHandlers, emitWithAck };
+  }
+
+  it('merges market slugs across subscribe calls', async () => {
+    const { client, socketStub } = await connectClient();
+
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc', 'eth'] });
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['eth', 'sol'] });
+    await client.subscribe('subscribe_market_prices', { marketAddress: '0xAMM' });
+    await client.subscribe('subscribe_market_prices', { marketAddresses: ['0xamm'] });
+
+    expect(socketStub.emit).toHaveBeenLastCalledWith('subscribe_market_prices', {
+      marketSlugs: ['btc', 'eth', 'sol'],
+      marketAddresses: ['0xamm'],
+    });
+    expect(client.getSubscriptions()).toEqual([
+      {
+        channel: 'subscribe_market_prices',
+        channelWide: false,
+        marketSlugs: ['btc', 'eth', 'sol'],
+        marketAddresses: ['0xamm'],
+      },
+    ]);
+  });
+
+  it('keeps a channel-wide subscription when markets are added or removed', async () => {
+    const { client, socketStub, emitWithAck } = await connectClient();
+
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc'] });
+    await client.subscribe('subscribe_market_prices');
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['eth'] });
+
+    expect(socketStub.emit).toHaveBeenLastCalledWith('subscribe_market_prices', {});
+    expect(client.getSubscriptions()).toEqual([
+      {
+        channel: 'subscribe_market_prices',
+        channelWide: true,
+        marketSlugs: ['btc', 'eth'],
+        marketAddresses: [],
+      },
+    ]);
+
+    await client.unsubscribe('subscribe_market_prices', { marketSlugs: ['btc'] });
+    expect(emitWithAck).toHaveBeenLastCalledWith('unsubscribe', {
+      channel: 'subscribe_market_prices',
+      marketSlugs: ['btc'],
+    });
+    expect(socketStub.emit).toHaveBeenLastCalledWith('subscribe_market_prices', {});
+    expect(client.getSubscriptions()[0]).toMatchObject({ channelWide: true, marketSlugs: ['eth'] });
+  });
+
+  it('removes individual markets and keeps the rest subscribed', async () => {
+    const { client, socketStub, emitWithAck } = await connectClient();
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc', 'eth'] });
+    await client.subscribe('orders');
+
+    await client.unsubscribe('subscribe_market_prices', { marketSlugs: ['btc'] });
+
+    expect(emitWithAck).toHaveBeenLastCalledWith('unsubscribe', {
+      channel: 'subscribe_market_prices',
+      marketSlugs: ['btc'],
+    });
+    expect(socketStub.emit).toHaveBeenLastCalledWith('subscribe_market_prices', {
+      marketSlugs: ['eth'],
+    });
+
+    await client.unsubscribe('subscribe_market_prices');
+    expect(emitWithAck).toHaveBeenLastCalledWith('unsubscribe', {
+      channel: 'subscribe_market_prices',
+      marketSlugs: ['eth'],
+    });
+    expect(client.getSubscriptions().map((sub) => sub.channel)).toEqual(['orders']);
+  });
+
+  it('keeps the registry unchanged when the server rejects an unsubscribe', async () => {
+    const { client, socketStub, emitWithAck } = await connectClient();
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc', 'eth'] });
+    socketStub.emit.mockClear();
+    emitWithAck.mockResolvedValueOnce({ error: 'not subscribed' });
+    emitWithAck.mockRejectedValueOnce(new Error('operation has timed out'));
+
+    await expect(
+      client.unsubscribe('subscribe_market_prices', { marketSlugs: ['btc'] })
+    ).rejects.toThrow('not subscribed');
+    await expect(client.unsubscribe('subscribe_market_prices')).rejects.toThrow('timed out');
+
+    expect(client.getSubscriptions()[0].marketSlugs).toEqual(['btc', 'eth']);
+    expect(socketStub.emit).not.toHaveBeenCalled();
+  });
+
+  it('restores the merged subscriptions after a reconnect', async () => {
+    const { client, socketStub, ioHandlers } = await connectClient();
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc'] });
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['eth'] });
+    socketStub.emit.mockClear();
+
+    ioHandlers.get('reconnect')?.(1);
+
+    expect(socketStub.emit).toHaveBeenCalledTimes(1);
+    expect(socketStub.emit).toHaveBeenCalledWith('subscribe_market_prices', {
+      marketSlugs: ['btc', 'eth'],
+    });
+  });
+});
+
+describe('WebSocketClient reconnect auth', () => {
+  const secret = Buffer.from('ws-secret').toString('base64');
+  const handshakePath = '/socket.io/?EIO=4&transport=websocket';
+
+  beforeEach(() => {
+    ioMock.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createSocketStub() {
+    const handlers = new Map<string, Array<(...args: any[]) => void>>();
+    const ioHandlers = new Map<string, (...args: any[]) => void>();
+    const add = (event: string, handler: (...args: any[]) => void) => {
+      handlers.set(event, [...(handlers.get(event) ?? []), handler]);
+    };
+    const socketStub: any = {
+      connected: false,
+      once: vi.fn(add),
+      on: vi.fn(add),
+      off: vi.fn(),
+      onAny: vi.fn(),
+      emit: vi.fn(),
+      disconnect: vi.fn(),
+      removeAllListeners: vi.fn(),
+      timeout: vi.fn(() => ({ emitWithAck: vi.fn() })),
+      io: {
+        opts: {},
+        on: vi.fn((event: string, handler: (...args: any[]) => void) => {
+          ioHandlers.set(event, handler);
+        }),
+      },
+    };
+    const fire = (event: string, ...args: any[]) =>
+      handlers.get(event)?.forEach((handler) => handler(...args));
+    return { socketStub, ioHandlers, fire };
+  }
+
+  it('signs every reconnection attempt with a fresh timestamp', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    const { socketStub, ioHandlers, fire } = createSocketStub();
+    ioMock.mockReturnValue(socketStub);
+
+    const { WebSocketClient } = await import('../../src/websocket/client');
+    const client = new WebSocketClient({
+      url: 'wss://ws.limitless.exchange',
+      hmacCredentials: { tokenId: 'token-1', secret },
+    });
+    const connectPromise = client.connect();
+    socketStub.connected = true;
+    fire('connect');
+    await connectPromise;
+    const initial = ioMock.mock.calls[0][1].extraHeaders;
+
+    vi.setSystemTime(new Date('2026-01-01T02:00:00.000Z'));
+    ioHandlers.get('reconnect_attempt')?.(1);
+
+    const headers = socketStub.io.opts.extraHeaders;
+    expect(headers['lmts-timestamp']).toBe('2026-01-01T02:00:00.000Z');
+    expect(headers['lmts-timestamp']).not.toBe(initial['lmts-timestamp']);
+    expect(headers['lmts-api-key']).toBe('token-1');
+    expect(headers['x-sdk-version']).toMatch(/^lmts-sdk-ts\//);
+    expect(headers['lmts-signature']).toBe(
+      computeHMACSignature(secret, headers['lmts-timestamp'], 'GET', handshakePath, '')
+    );
+  });
+
+  it('emits authError separately from error on rejected credentials', async () => {
+    const { socketStub, fire } = createSocketStub();
+    ioMock.mockReturnValue(socketStub);
+
+    const { WebSocketClient, WebSocketAuthError } = await import('../../src/websocket/client');
+    const client = new WebSocketClient({
+      url: 'wss://ws.limitless.exchange',
+      apiKey: 'bad-key',
+    });
+    const authErrors = vi.fn();
+    client.on('authError', authErrors);
+
+    const connectPromise = client.connect();
+    fire('connect_error', Object.assign(new Error('Unauthorized'), { data: { status: 401 } }));
+
+    const error = await connectPromise.catch((err) => err);
+    expect(error).toBeInstanceOf(WebSocketAuthError);
+    expect(error.failure).toMatchObject({ phase: 'connect', authMode: 'apiKey' });
+    expect(authErrors).toHaveBeenCalledTimes(1);
+    expect(socketStub.on).not.toHaveBeenCalledWith('authError', expect.anything());
+
+    // Reconnection attempts and server errors report their own phase; other errors are ignored
+    fire('connect_error', new Error('Invalid signature'));
+    fire('connect_error', new Error('xhr poll error'));
+    fire('error', { message: 'Forbidden' });
+    expect(authErrors.mock.calls.map(([failure]) => failure.phase)).toEqual([
+      'connect',
+      'reconnect',
+      'server',
+    ]);
+    expect(authErrors.mock.calls[2][0]).toMatchObject({ message: 'Forbidden' });
+  });
+});
@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ManualClock } from '../execution/manual-clock';
+import type { WebSocketLivenessConfig } from '../../src/types/websocket';
+
+const ioMock = vi.fn();
+
+vi.mock('socket.io-client', () => ({
+  io: ioMock,
+}));
+
+/**
+ * Connects a client to a socket stub that records listeners and replays events.
+ */
+async function connectClient(liveness?: WebSocketLivenessConfig) {
+  const clock = new ManualClock();
+  const connectHandlers: Array<{ handler: () => void; once: boolean }> = [];
+  let anyListener: ((event: string, data: unknown) => void) | undefined;
+  const emitWithAck = vi.fn();
+  const socketStub: any = {
+    connected: false,
+    once: vi.fn((event: string, handler: () => void) => {
+      if (event === 'connect') connectHandlers.push({ handler, once: true });
+    }),
+    on: vi.fn((event: string, handler: () => void) => {
+      if (event === 'connect') connectHandlers.push({ handler, once: false });
+    }),
+    off: vi.fn(),
+    onAny: vi.fn((handler: (event: string, data: unknown) => void) => {
+      anyListener = handler;
+    }),
+    emit: vi.fn(),
+    disconnect: vi.fn(() => socketStub),
+    connect: vi.fn(() => socketStub),
+    removeAllListeners: vi.fn(),
+    timeout: vi.fn(() => ({ emitWithAck })),
+    io: { on: vi.fn(), opts: {} },
+  };
+  ioMock.mockReturnValue(socketStub);
+
+  const { WebSocketClient } = await import('../../src/websocket/client');
+  const client = new WebSocketClient({ url: 'wss://ws.limitless.exchange', liveness, clock });
+
+  const fireConnect = () => {
+    socketStub.connected = true;
+    const handlers = [...connectHandlers];
+    connectHandlers.splice(0, connectHandlers.length, ...handlers.filter((entry) => !entry.once));
+    handlers.forEach((entry) => entry.handler());
+  };
+  const connectPromise = client.connect();
+  fireConnect();
+  await connectPromise;
+
+  const receive = (event: string, data: Record<string, unknown>) => anyListener?.(event, data);
+  return { client, clock, socketStub, emitWithAck, receive, fireConnect };
+}
+
+describe('WebSocketClient liveness', () => {
+  beforeEach(() => {
+    ioMock.mockReset();
+  });
+
+  it('tracks last-message times per channel and market with latency stats', async () => {
+    const { client, clock, receive } = await connectClient();
+
+    await clock.advance(1_000);
+    receive('orderbookUpdate', { marketSlug: 'btc', timestamp: 950 });
+    await clock.advance(500);
+    receive('newPriceData', { marketAddress: '0xABC', timestamp: new Date(1_400) });
+    receive('trade', { marketSlug: 'eth' });
+
+    expect(client.getLiveness()).toMatchObject({
+      lastMessageAt: 1_500,
+      channels: { subscribe_market_prices: 1_500 },
+      markets: { btc: 1_000, '0xabc': 1_500, eth: 1_500 },
+    });
+    expect(client.getLatencyStats()).toEqual({
+      samples: 2,
+      lastMs: 100,
+      minMs: 50,
+      meanMs: 75,
+      p50Ms: 50,
+      p95Ms: 100,
+      maxMs: 100,
+    });
+  });
+
+  it('emits stale once per quiet period for subscribed markets', async () => {
+    const { client, clock, receive } = await connectClient({
+      staleAfterMs: 10_000,
+      checkIntervalMs: 1_000,
+    });
+    const stale = vi.fn();
+    client.on('stale', stale);
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc', 'eth'] });
+
+    await clock.advance(1_000);
+    for (let i = 0; i < 10; i++) {
+      receive('orderbookUpdate', { marketSlug: 'btc' });
+      await clock.advance(1_000);
+    }
+
+    expect(stale).toHaveBeenCalledTimes(1);
+    expect(stale).toHaveBeenCalledWith({
+      channel: 'subscribe_market_prices',
+      marketSlug: 'eth',
+      lastMessageAt: null,
+      quietMs: 10_000,
+      reconnecting: false,
+    });
+
+    await clock.advance(20_000);
+    expect(stale).toHaveBeenCalledTimes(2);
+    expect(stale).toHaveBeenLastCalledWith(
+      expect.objectContaining({ marketSlug: 'btc', lastMessageAt: 10_000 })
+    );
+
+    receive('orderbookUpdate', { marketSlug: 'btc' });
+    await clock.advance(10_000);
+    expect(stale).toHaveBeenCalledTimes(3);
+  });
+
+  it('only counts messages on the feed channel toward its liveness', async () => {
+    const { client, clock, receive } = await connectClient({
+      staleAfterMs: 10_000,
+      checkIntervalMs: 1_000,
+    });
+    const stale = vi.fn();
+    client.on('stale', stale);
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc'] });
+
+    await clock.advance(1_000);
+    receive('orderbookUpdate', { marketSlug: 'btc' });
+    for (let i = 0; i < 12; i++) {
+      await clock.advance(1_000);
+      receive('positions', { marketSlug: 'btc' });
+    }
+
+    expect(client.getLiveness().markets.btc).toBe(13_000);
+    expect(stale).toHaveBeenCalledTimes(1);
+    expect(stale).toHaveBeenCalledWith(
+      expect.objectContaining({ marketSlug: 'btc', lastMessageAt: 1_000, quietMs: 10_000 })
+    );
+  });
+
+  it('matches slug-subscribed AMM markets by their address-keyed updates', async () => {
+    const { client, clock, receive } = await connectClient({
+      staleAfterMs: 10_000,
+      checkIntervalMs: 1_000,
+    });
+    const stale = vi.fn();
+    client.on('stale', stale);
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['amm-market', 'btc'] });
+
+    await clock.advance(1_000);
+    receive('orderbookUpdate', { marketSlug: 'btc' });
+    for (let i = 0; i < 12; i++) {
+      receive('newPriceData', { marketAddress: '0xAMM', updatedPrices: [] });
+      await clock.advance(1_000);
+    }
+
+    // btc carries its slug, so AMM traffic does not keep it alive
+    expect(stale).toHaveBeenCalledTimes(1);
+    expect(stale).toHaveBeenCalledWith(
+      expect.objectContaining({ marketSlug: 'btc', lastMessageAt: 1_000 })
+    );
+  });
+
+  it('pings the server and reports quiet markets on a live link without reconnecting', async () => {
+    const { client, clock, socketStub, emitWithAck } = await connectClient({
+      staleAfterMs: 5_000,
+      checkIntervalMs: 1_000,
+      reconnectOnStale: true,
+    });
+    emitWithAck.mockImplementation(() => new Promise((resolve) => clock.setTimeout(resolve, 40)));
+    const stale = vi.fn();
+    client.on('stale', stale);
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc'] });
+
+    await clock.advance(6_000);
+
+    expect(socketStub.timeout).toHaveBeenCalledWith(5_000);
+    expect(emitWithAck).toHaveBeenCalledWith('ping');
+    expect(client.getRoundTripStats()).toMatchObject({ samples: 5, lastMs: 40, p95Ms: 40 });
+    expect(client.getLiveness().lastPongAt).toBe(5_040);
+    expect(stale).toHaveBeenCalledTimes(1);
+    expect(stale).toHaveBeenCalledWith(
+      expect.objectContaining({ marketSlug: 'btc', reconnecting: false })
+    );
+    expect(socketStub.disconnect).not.toHaveBeenCalled();
+  });
+
+  it('forces a reconnect and re-subscribes when pings go unanswered', async () => {
+    const { client, clock, socketStub, emitWithAck, fireConnect } = await connectClient({
+      staleAfterMs: 5_000,
+      reconnectOnStale: true,
+    });
+    emitWithAck.mockReturnValue(new Promise(() => {}));
+    const stale = vi.fn();
+    client.on('stale', stale);
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['btc'] });
+    socketStub.emit.mockClear();
+
+    await clock.advance(6_250);
+    expect(stale).toHaveBeenCalledWith({ lastMessageAt: null, quietMs: 5_000, reconnecting: true });
+    expect(socketStub.disconnect).toHaveBeenCalledTimes(1);
+    expect(socketStub.connect).toHaveBeenCalledTimes(1);
+
+    // No checks while reconnecting
+    await clock.advance(20_000);
+    expect(stale).toHaveBeenCalledTimes(1);
+
+    fireConnect();
+    expect(socketStub.emit).toHaveBeenCalledWith('subscribe_market_prices', {
+      marketSlugs: ['btc'],
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketStreamOverflowError } from '../../src/websocket/stream';
+
+const ioMock = vi.fn();
+
+vi.mock('socket.io-client', () => ({
+  io: ioMock,
+}));
+
+/**
+ * Connects a client to a socket stub that dispatches emitted events to listeners.
+ */
+async function connectClient() {
+  const listeners = new Map<string, Set<(...args: any[]) => void>>();
+  let connectHandler: (() => void) | undefined;
+  const emitWithAck = vi.fn().mockResolvedValue(undefined);
+  const socketStub: any = {
+    connected: false,
+    once: vi.fn((event: string, handler: () => void) => {
+      if (event === 'connect') connectHandler = handler;
+    }),
+    on: vi.fn((event: string, handler: (...args: any[]) => void) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(handler);
+    }),
+    off: vi.fn((event: string, handler: (...args: any[]) => void) => {
+      listeners.get(event)?.delete(handler);
+    }),
+    emit: vi.fn(),
+    disconnect: vi.fn(),
+    removeAllListeners: vi.fn(),
+    onAny: vi.fn(),
+    timeout: vi.fn(() => ({ emitWithAck })),
+    io: { on: vi.fn() },
+  };
+  ioMock.mockReturnValue(socketStub);
+
+  const { WebSocketClient } = await import('../../src/websocket/client');
+  const client = new WebSocketClient({ url: 'wss://ws.limitless.exchange' });
+  const connectPromise = client.connect();
+  socketStub.connected = true;
+  connectHandler?.();
+  await connectPromise;
+
+  const dispatch = (event: string, data: unknown) =>
+    listeners.get(event)?.forEach((handler) => handler(data));
+  const listenerCount = (event: string) => listeners.get(event)?.size ?? 0;
+
+  return { client, socketStub, emitWithAck, dispatch, listenerCount };
+}
+
+function update(marketSlug: string, timestamp: number) {
+  return { marketSlug, orderbook: { bids: [], asks: [] }, timestamp };
+}
+
+describe('WebSocketClient.stream', () => {
+  beforeEach(() => {
+    ioMock.mockReset();
+  });
+
+  it('subscribes on start, yields matching events and unsubscribes on break', async () => {
+    const { client, socketStub, emitWithAck, dispatch, listenerCount } = await connectClient();
+    const stream = client.stream('orderbookUpdate', { marketSlugs: ['btc'] });
+    expect(socketStub.emit).not.toHaveBeenCalled();
+
+    const iterator = stream[Symbol.asyncIterator]();
+    const first = iterator.next();
+    await vi.waitFor(() =>
+      expect(socketStub.emit).toHaveBeenCalledWith('subscribe_market_prices', {
+        marketSlugs: ['btc'],
+      })
+    );
+    dispatch('orderbookUpdate', update('eth', 1));
+    dispatch('orderbookUpdate', update('btc', 2));
+    dispatch('orderbookUpdate', update('btc', 3));
+
+    await expect(first).resolves.toEqual({ value: update('btc', 2), done: false });
+
+    const received: number[] = [];
+    for await (const data of { [Symbol.asyncIterator]: () => iterator }) {
+      received.push(data.timestamp as number);
+      break;
+    }
+
+    expect(received).toEqual([3]);
+    expect(listenerCount('orderbookUpdate')).toBe(0);
+    expect(emitWithAck).toHaveBeenCalledWith('unsubscribe', {
+      channel: 'subscribe_market_prices',
+      marketSlugs: ['btc'],
+    });
+    expect(client.getSubscriptions()).toEqual([]);
+  });
+
+  it('keeps markets still used by another stream or subscription', async () => {
+    const { client, emitWithAck } = await connectClient();
+    await client.subscribe('subscribe_market_prices', { marketSlugs: ['sol'] });
+    const first = client.stream('orderbookUpdate', { marketSlugs: ['btc', 'sol'] });
+    const second = client.stream('orderbookUpdate', { marketSlugs: ['btc'] });
+    const firstIterator = first[Symbol.asyncIterator]();
+    const secondIterator = second[Symbol.asyncIterator]();
+    void firstIterator.next();
+    void secondIterator.next();
+    await vi.waitFor(() => expect(client.getSubscriptions()[0].marketSlugs).toContain('btc'));
+
+    await firstIterator.return!();
+    expect(emitWithAck).not.toHaveBeenCalled();
+
+    await secondIterator.return!();
+    expect(emitWithAck).toHaveBeenCalledWith('unsubscribe', {
+      channel: 'subscribe_market_prices',
+      marketSlugs: ['btc'],
+    });
+    expect(client.getSubscriptions()[0].marketSlugs).toEqual(['sol']);
+  });
+
+  it('ends active streams on disconnect after delivering buffered events', async () => {
+    const { client, dispatch } = await connectClient();
+    const buffered = client
+      .stream('orderbookUpdate', { marketSlugs: ['btc'] })
+      [Symbol.asyncIterator]();
+    const waiting = client
+      .stream('orderbookUpdate', { marketSlugs: ['eth'] })
+      [Symbol.asyncIterator]();
+    const first = buffered.next();
+    const pending = waiting.next();
+    await vi.waitFor(() => expect(client.getSubscriptions()[0].marketSlugs).toHaveLength(2));
+    dispatch('orderbookUpdate', update('btc', 1));
+    dispatch('orderbookUpdate', update('btc', 2));
+    await first;
+
+    await client.disconnect();
+
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    await expect(buffered.next()).resolves.toEqual({ value: update('btc', 2), done: false });
+    await expect(buffered.next()).resolves.toEqual({ value: undefined, done: true });
+    expect(client.getSubscriptions()).toEqual([]);
+  });
+
+  it('drops the oldest buffered events or fails on overflow', async () => {
+    const { client, dispatch } = await connectClient();
+
+    const dropping = client.stream('orderbookUpdate', { bufferSize: 2 })[Symbol.asyncIterator]();
+    const failing = client
+      .stream('orderbookUpdate', { marketSlugs: ['btc'], bufferSize: 2, overflow: 'error' })
+      [Symbol.asyncIterator]();
+    const pending = [dropping.next(), failing.next()];
+    await vi.waitFor(() => expect(client.getSubscriptions()[0].marketSlugs).toEqual(['btc']));
+    dispatch('orderbookUpdate', update('btc', 0));
+    await Promise.all(pending);
+
+    for (const timestamp of [1, 2, 3, 4]) {
+      dispatch('orderbookUpdate', update('btc', timestamp));
+    }
+
+    await expect(dropping.next()).resolves.toMatchObject({ value: { timestamp: 3 } });
+    await expect(dropping.next()).resolves.toMatchObject({ value: { timestamp: 4 } });
+    await expect(failing.next()).rejects.toBeInstanceOf(WebSocketStreamOverflowError);
+    await expect(failing.next()).resolves.toEqual({ value: undefined, done: true });
+    await dropping.return!();
+  });
+});